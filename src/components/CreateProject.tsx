@@ -1,14 +1,105 @@
-import React, { useState, useEffect } from 'react'
-import { ArrowLeft, Upload, Code, Wand2, Play, Loader2, CheckCircle, AlertCircle, Github, FileText, Zap, Eye, Edit, Clock } from 'lucide-react'
+import React, { useState, useEffect, useMemo } from 'react'
+import { ArrowLeft, Upload, Code, Wand2, Play, Loader2, CheckCircle, AlertCircle, Github, FileText, Zap, Eye, Edit, Clock, GitBranch, GitPullRequest, Package } from 'lucide-react'
 import { useNavigate } from 'react-router-dom'
 import { useAuth } from '../contexts/AuthContext'
-import { supabase } from '../lib/supabase'
+import { supabase, GenerationJob, GenerationStep, Voice } from '../lib/supabase'
+import ScriptReview from './ScriptReview'
+import { redactSecrets, describeRedaction, Redaction } from '../../supabase/functions/_shared/redaction.ts'
 
 interface CreateProjectProps {
   onBack: () => void
   selectedRepository?: any // Repository data from GitHub
 }
 
+// A pull request or commit range loaded for a "what changed" demo
+interface LoadedChanges {
+  kind: 'pull' | 'compare'
+  ref: string
+  title: string
+  description: string
+  baseSha: string
+  headSha: string
+  htmlUrl: string
+  commits: string[]
+  snippet: string
+  includedFiles: string[]
+  skippedFiles: string[]
+  additions: number
+  deletions: number
+}
+
+// A top-level function, class, component or route github-scan parsed out of a file
+interface CodeSymbol {
+  name: string
+  kind: 'function' | 'class' | 'component' | 'route'
+  exported: boolean
+  startLine: number
+  endLine: number
+  signature: string
+}
+
+interface ScannedFile {
+  path: string
+  content: string
+  language: string
+  size: number
+  lines: number
+  symbols?: CodeSymbol[]
+  imports?: string[]
+  importedBy?: string[]
+  entryPoint?: boolean
+}
+
+// README, CHANGELOG or docs/ content github-scan keeps apart from the code
+interface IntentDocument {
+  path: string
+  kind: 'readme' | 'changelog' | 'docs'
+  content: string
+  truncated: boolean
+}
+
+// The codeAnalysis github-scan returns for a repository
+interface RepositoryAnalysis {
+  files: ScannedFile[]
+  summary: string
+  totalLines: number
+  primaryLanguage: string
+  keyFeatures: string[]
+  structure?: {
+    entryPoints: string[]
+    hotPaths: string[][]
+    frameworks: string[]
+    counts: Record<CodeSymbol['kind'], number>
+  }
+  intent?: IntentDocument[]
+  scan?: {
+    ref: string
+    sha: string
+    workspace?: string | null
+    treeFiles: number
+    candidates: number
+    ignored: number
+    tokens: number
+    tokenBudget: number
+    truncated: boolean
+  }
+}
+
+// A package of a monorepo that a demo can be scoped to
+interface Workspace {
+  path: string
+  name: string
+  kind: 'npm' | 'pnpm' | 'cargo' | 'go'
+  manifest: string
+  readme: string | null
+  description: string | null
+}
+
+const SNIPPET_MAX_FILES = 4
+const SNIPPET_LINES_PER_FILE = 40
+// Routes and components show what a project does; exported code is its API
+const SYMBOL_KIND_ORDER: CodeSymbol['kind'][] = ['route', 'component', 'function', 'class']
+
 interface ProcessingStep {
   id: string
   name: string
@@ -23,8 +114,33 @@ const CreateProject: React.FC<CreateProjectProps> = ({ onBack, selectedRepositor
   const [step, setStep] = useState(1)
   const [loading, setLoading] = useState(false)
   const [scanningRepo, setScanningRepo] = useState(false)
-  const [repoAnalysis, setRepoAnalysis] = useState<any>(null)
+  const [repoAnalysis, setRepoAnalysis] = useState<RepositoryAnalysis | null>(null)
+  const [showScanOptions, setShowScanOptions] = useState(false)
+  const [sourceMode, setSourceMode] = useState<'repository' | 'changes'>('repository')
+  const [changeRequest, setChangeRequest] = useState({ pullNumber: '', base: '', head: '' })
+  const [changes, setChanges] = useState<LoadedChanges | null>(null)
+  const [loadingChanges, setLoadingChanges] = useState(false)
+  const [repoRefs, setRepoRefs] = useState<{ defaultBranch: string; branches: string[]; tags: string[] } | null>(null)
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([])
+  const [scanOptions, setScanOptions] = useState({
+    ref: '',
+    workspace: '',
+    includePaths: '',
+    excludePaths: '',
+    tokenBudget: 24000
+  })
   const [processingSteps, setProcessingSteps] = useState<ProcessingStep[]>([])
+  const [jobId, setJobId] = useState<string | null>(null)
+  const [processingProjectId, setProcessingProjectId] = useState<string | null>(null)
+  const [jobStatus, setJobStatus] = useState<GenerationJob['status'] | null>(null)
+  const [voices, setVoices] = useState<Voice[]>([])
+  const [showAddVoice, setShowAddVoice] = useState(false)
+  const [newVoice, setNewVoice] = useState({
+    name: '',
+    engine: 'elevenlabs' as Voice['engine'],
+    voice_id: '',
+    gender: 'neutral' as Voice['gender']
+  })
   const [showProcessingDetails, setShowProcessingDetails] = useState(false)
   const [showCodePreview, setShowCodePreview] = useState(false)
   const [estimatedTime, setEstimatedTime] = useState('2-5 minutes')
@@ -32,11 +148,16 @@ const CreateProject: React.FC<CreateProjectProps> = ({ onBack, selectedRepositor
     title: selectedRepository?.name || '',
     description: '',
     codeSnippet: '',
+    intentContext: '', // README, CHANGELOG and docs excerpts the script explains the project's purpose from
     language: selectedRepository?.language?.toLowerCase() || 'javascript',
-    demoType: 'walkthrough', // walkthrough, pitch, tutorial
+    demoType: 'walkthrough', // walkthrough, pitch, tutorial, changes
     voiceStyle: 'professional', // professional, casual, enthusiastic
+    voiceId: null as string | null, // voices catalog row, null for the style's default voice
+    locale: 'en', // primary narration language
+    additionalLocales: [] as string[], // extra localized renditions
     includeCode: true,
     includeFace: true,
+    reviewScript: true, // pause after the script so it can be edited before voice and face credits are spent
     isFromRepository: !!selectedRepository,
     repositoryId: selectedRepository?.id || null,
     repositoryUrl: selectedRepository?.html_url || null
@@ -57,6 +178,21 @@ const CreateProject: React.FC<CreateProjectProps> = ({ onBack, selectedRepositor
     { value: 'rust', label: 'Rust' }
   ]
 
+  const narrationLocales = [
+    { value: 'en', label: 'English' },
+    { value: 'es', label: 'Spanish' },
+    { value: 'fr', label: 'French' },
+    { value: 'de', label: 'German' },
+    { value: 'it', label: 'Italian' },
+    { value: 'pt', label: 'Portuguese' },
+    { value: 'nl', label: 'Dutch' },
+    { value: 'pl', label: 'Polish' },
+    { value: 'hi', label: 'Hindi' },
+    { value: 'ja', label: 'Japanese' },
+    { value: 'ko', label: 'Korean' },
+    { value: 'zh', label: 'Chinese (Mandarin)' }
+  ]
+
   const demoTypes = [
     {
       value: 'walkthrough',
@@ -72,6 +208,11 @@ const CreateProject: React.FC<CreateProjectProps> = ({ onBack, selectedRepositor
       value: 'tutorial',
       label: 'Tutorial',
       description: 'Teach others how to implement this feature'
+    },
+    {
+      value: 'changes',
+      label: 'What Changed',
+      description: 'Walk reviewers through the added and removed lines of a pull request or commit range'
     }
   ]
 
@@ -97,51 +238,150 @@ const CreateProject: React.FC<CreateProjectProps> = ({ onBack, selectedRepositor
   useEffect(() => {
     if (selectedRepository && !repoAnalysis) {
       scanRepository()
+      loadRepositoryRefs()
+      loadWorkspaces()
     }
   }, [selectedRepository])
 
+  // Load built-in voices and the user's own voices
+  useEffect(() => {
+    if (!user) return
+
+    supabase
+      .from('voices')
+      .select('*')
+      .order('user_id', { ascending: false, nullsFirst: false })
+      .order('name')
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error fetching voices:', error)
+          return
+        }
+        setVoices(data || [])
+      })
+  }, [user])
+
   // Update estimated time when includeFace changes
   useEffect(() => {
     setEstimatedTime(formData.includeFace ? '10-15 minutes' : '2-5 minutes')
   }, [formData.includeFace])
 
+  const handleAddVoice = async () => {
+    if (!user || !newVoice.name.trim() || !newVoice.voice_id.trim()) return
+
+    const { data, error } = await supabase
+      .from('voices')
+      .insert([{
+        user_id: user.id,
+        name: newVoice.name.trim(),
+        engine: newVoice.engine,
+        voice_id: newVoice.voice_id.trim(),
+        gender: newVoice.gender
+      }])
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error adding voice:', error)
+      alert(`Failed to add voice: ${error.message}`)
+      return
+    }
+
+    setVoices(prev => [data, ...prev])
+    handleInputChange('voiceId', data.id)
+    setNewVoice({ name: '', engine: 'elevenlabs', voice_id: '', gender: 'neutral' })
+    setShowAddVoice(false)
+  }
+
+  // Each document under its path, so the script can tell the README from the changelog
+  const formatIntentContext = (documents: IntentDocument[]) =>
+    documents.map(document => `--- ${document.path} ---\n${document.content}`).join('\n\n')
+
+  // Secrets found in the code and docs, masked in everything sent for generation
+  const redacted = useMemo(() => ({
+    code: redactSecrets(formData.codeSnippet),
+    docs: redactSecrets(formData.intentContext)
+  }), [formData.codeSnippet, formData.intentContext])
+
+  // Docs redactions are reported against the document they're in, not the combined context
+  const describeDocsRedaction = (redaction: Redaction) => {
+    const lines = formData.intentContext.split('\n')
+    const header = lines.slice(0, redaction.line).map((text, index) => ({ text, index })).reverse().find(({ text }) => /^--- .+ ---$/.test(text))
+    if (!header) return describeRedaction(redaction)
+    return `${header.text.slice(4, -4)}, ${describeRedaction({ ...redaction, line: redaction.line - header.index - 1 })}`
+  }
+
+  // Path filters are typed one glob per line or separated by commas
+  const splitPathPatterns = (value: string) =>
+    value.split(/[\n,]/).map(pattern => pattern.trim()).filter(Boolean)
+
+  const callGitHubScan = async (body: Record<string, unknown>) => {
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session) {
+      throw new Error('No active session')
+    }
+
+    const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/github-scan`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${session.access_token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ repositoryId: selectedRepository.id, ...body })
+    })
+
+    if (!response.ok) {
+      const errorData = await response.json()
+      throw new Error(errorData.error || 'Failed to scan repository')
+    }
+
+    return response.json()
+  }
+
+  // Branches and tags for the revision picker; a typed SHA works without them
+  const loadRepositoryRefs = async () => {
+    try {
+      const data = await callGitHubScan({ action: 'refs' })
+      setRepoRefs(data.refs)
+    } catch (error) {
+      console.error('Error loading branches and tags:', error)
+    }
+  }
+
+  // Packages of a monorepo, listed from the default branch
+  const loadWorkspaces = async () => {
+    try {
+      const data = await callGitHubScan({ action: 'workspaces' })
+      setWorkspaces(data.workspaces)
+    } catch (error) {
+      console.error('Error loading workspace packages:', error)
+    }
+  }
+
   const scanRepository = async () => {
     if (!selectedRepository || !user) return
 
     setScanningRepo(true)
     try {
-      const { data: { session } } = await supabase.auth.getSession()
-      if (!session) {
-        throw new Error('No active session')
-      }
-
-      const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/github-scan`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${session.access_token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          repositoryId: selectedRepository.id,
-          maxFiles: 10
-        })
+      const data = await callGitHubScan({
+        ref: scanOptions.ref.trim() || undefined,
+        maxFiles: 20,
+        includePaths: splitPathPatterns(scanOptions.includePaths),
+        excludePaths: splitPathPatterns(scanOptions.excludePaths),
+        workspace: scanOptions.workspace || undefined,
+        tokenBudget: scanOptions.tokenBudget
       })
-
-      if (!response.ok) {
-        const errorData = await response.json()
-        throw new Error(errorData.error || 'Failed to scan repository')
-      }
-
-      const data = await response.json()
       setRepoAnalysis(data.codeAnalysis)
+      const workspace = workspaces.find(candidate => candidate.path === scanOptions.workspace)
       
       // Auto-fill form with repository analysis
       setFormData(prev => ({
         ...prev,
-        title: selectedRepository.name, // Repository name as title
-        description: selectedRepository.description || data.codeAnalysis.summary, // Use repo description or generated summary
+        title: workspace ? `${selectedRepository.name} / ${workspace.name}` : selectedRepository.name, // Repository name as title
+        description: (workspace ? workspace.description : selectedRepository.description) || data.codeAnalysis.summary, // Use repo description or generated summary
         language: mapLanguageToOption(data.codeAnalysis.primaryLanguage),
-        codeSnippet: generateCodeSnippet(data.codeAnalysis)
+        codeSnippet: generateCodeSnippet(data.codeAnalysis),
+        intentContext: formatIntentContext(data.codeAnalysis.intent ?? [])
       }))
 
     } catch (error: any) {
@@ -152,6 +392,55 @@ const CreateProject: React.FC<CreateProjectProps> = ({ onBack, selectedRepositor
     }
   }
 
+  const loadChanges = async () => {
+    const pullNumber = parseInt(changeRequest.pullNumber, 10)
+    if (!pullNumber && !(changeRequest.base.trim() && changeRequest.head.trim())) {
+      alert('Enter a pull request number, or a base and head to compare')
+      return
+    }
+
+    setLoadingChanges(true)
+    try {
+      const data = await callGitHubScan(pullNumber
+        ? { action: 'diff', pullNumber }
+        : { action: 'diff', base: changeRequest.base.trim(), head: changeRequest.head.trim() })
+      const loaded: LoadedChanges = data.changes
+
+      if (!loaded.snippet) {
+        throw new Error('No reviewable changes: every changed file is binary, generated or too large')
+      }
+
+      setChanges(loaded)
+      setFormData(prev => ({
+        ...prev,
+        title: loaded.title,
+        description: loaded.description.slice(0, 500) || loaded.commits.join('; ').slice(0, 500),
+        codeSnippet: loaded.snippet,
+        demoType: 'changes'
+      }))
+    } catch (error) {
+      console.error('Error loading changes:', error)
+      alert(`Failed to load changes: ${(error as Error).message}`)
+    } finally {
+      setLoadingChanges(false)
+    }
+  }
+
+  // Going back to the whole repository restores the snippet from the last scan
+  const switchSourceMode = (mode: 'repository' | 'changes') => {
+    setSourceMode(mode)
+    if (mode === 'repository' && changes) {
+      setChanges(null)
+      setFormData(prev => ({
+        ...prev,
+        title: selectedRepository.name,
+        description: selectedRepository.description || repoAnalysis?.summary || '',
+        codeSnippet: repoAnalysis ? generateCodeSnippet(repoAnalysis) : '',
+        demoType: 'walkthrough'
+      }))
+    }
+  }
+
   const mapLanguageToOption = (language: string): string => {
     const mapping: { [key: string]: string } = {
       'JavaScript': 'javascript',
@@ -168,28 +457,85 @@ const CreateProject: React.FC<CreateProjectProps> = ({ onBack, selectedRepositor
     return mapping[language] || language.toLowerCase()
   }
 
-  const generateCodeSnippet = (analysis: any) => {
-    // Combine the most important files into a representative code snippet
-    const importantFiles = analysis.files
-      .filter((file: any) => file.lines < 150) // Focus on readable files
-      .slice(0, 4) // Take top 4 files
+  // Lines of a file worth narrating: its routes, components and exported code
+  // first, in source order, or its opening lines when nothing was parsed
+  const excerptFile = (file: ScannedFile) => {
+    const lines = file.content.split('\n')
+    const symbols = file.symbols ?? []
+    if (symbols.length === 0) {
+      return lines.slice(0, 25).join('\n') + (file.lines > 25 ? '\n// ... (additional code continues)' : '')
+    }
+
+    // Routes registered inside a function are shown as part of it, and lift its rank
+    const contains = (outer: CodeSymbol, inner: CodeSymbol) =>
+      outer !== inner && outer.startLine <= inner.startLine && outer.endLine >= inner.endLine
+      && (outer.startLine < inner.startLine || outer.endLine > inner.endLine || symbols.indexOf(outer) < symbols.indexOf(inner))
+    const rank = (symbol: CodeSymbol) => {
+      const group = [symbol, ...symbols.filter(inner => contains(symbol, inner))]
+      return {
+        exported: group.some(item => item.exported),
+        kind: Math.min(...group.map(item => SYMBOL_KIND_ORDER.indexOf(item.kind)))
+      }
+    }
+    const ranked = symbols
+      .filter(symbol => !symbols.some(outer => contains(outer, symbol)))
+      .sort((a, b) =>
+        Number(rank(b).exported) - Number(rank(a).exported)
+        || rank(a).kind - rank(b).kind
+        || a.startLine - b.startLine)
+
+    const chosen: { start: number; end: number }[] = []
+    let budget = SNIPPET_LINES_PER_FILE
+    for (const symbol of ranked) {
+      if (budget <= 0) break
+      const end = Math.min(symbol.endLine, symbol.startLine + budget - 1)
+      chosen.push({ start: symbol.startLine, end })
+      budget -= end - symbol.startLine + 1
+    }
+
+    return chosen
+      .sort((a, b) => a.start - b.start)
+      .map(range => {
+        const excerpt = lines.slice(range.start - 1, range.end).join('\n')
+        const symbol = symbols.find(item => item.startLine === range.start)
+        return symbol && range.end < symbol.endLine ? `${excerpt}\n  // ... (continues)` : excerpt
+      })
+      .join('\n\n// ...\n\n')
+  }
+
+  const generateCodeSnippet = (analysis: RepositoryAnalysis) => {
+    const structure = analysis.structure
+    const byPath = new Map(analysis.files.map(file => [file.path, file]))
+
+    // Entry points, then the files on the paths out of them, then whatever the rest of the code depends on most
+    const orderedPaths = [
+      ...(structure?.entryPoints ?? []),
+      ...(structure?.hotPaths ?? []).flat(),
+      ...[...analysis.files]
+        .filter(file => (file.symbols ?? []).length > 0)
+        .sort((a, b) => (b.importedBy?.length ?? 0) - (a.importedBy?.length ?? 0))
+        .map(file => file.path),
+      ...analysis.files.filter(file => file.lines < 150).map(file => file.path)
+    ]
+    const importantFiles = [...new Set(orderedPaths)]
+      .map(path => byPath.get(path))
+      .filter((file): file is ScannedFile => !!file)
+      .slice(0, SNIPPET_MAX_FILES)
     
     let snippet = `// Repository: ${selectedRepository.name}\n`
     snippet += `// ${analysis.summary}\n\n`
     
     if (analysis.keyFeatures.length > 0) {
-      snippet += `// Key Features: ${analysis.keyFeatures.join(', ')}\n\n`
+      snippet += `// Key Features: ${analysis.keyFeatures.join(', ')}\n`
+    }
+    if (structure && structure.hotPaths.length > 0) {
+      snippet += `// Main flow: ${structure.hotPaths[0].join(' → ')}\n`
     }
+    snippet += '\n'
     
-    importantFiles.forEach((file: any, index: number) => {
+    importantFiles.forEach((file, index) => {
       snippet += `// ===== ${file.path} =====\n`
-      const lines = file.content.split('\n')
-      const previewLines = lines.slice(0, 25) // First 25 lines
-      snippet += previewLines.join('\n')
-      
-      if (file.lines > 25) {
-        snippet += '\n// ... (additional code continues)\n'
-      }
+      snippet += excerptFile(file)
       
       if (index < importantFiles.length - 1) {
         snippet += '\n\n'
@@ -231,6 +577,68 @@ const CreateProject: React.FC<CreateProjectProps> = ({ onBack, selectedRepositor
     ))
   }
 
+  const failPendingSteps = (message: string) => {
+    setProcessingSteps(prev => prev.map(step => 
+      step.status === 'pending' || step.status === 'processing'
+        ? { ...step, status: 'error' as const, message }
+        : step
+    ))
+  }
+
+  const applyJobProgress = (job: GenerationJob) => {
+    setJobStatus(job.status)
+    setProcessingSteps(prev => prev.map(step => {
+      if (step.id === 'finalize') {
+        return job.status === 'completed'
+          ? { ...step, status: 'completed', message: 'Video processing complete!', timestamp: new Date(job.updated_at).toLocaleTimeString() }
+          : step
+      }
+
+      const progress = job.progress[step.id as GenerationStep]
+      return progress
+        ? { ...step, status: progress.status, message: progress.message, timestamp: new Date(progress.updatedAt).toLocaleTimeString() }
+        : step
+    }))
+  }
+
+  // Follow the generation job the backend is working through
+  useEffect(() => {
+    if (!jobId) return
+
+    supabase
+      .from('generation_jobs')
+      .select('*')
+      .eq('id', jobId)
+      .single()
+      .then(({ data, error }) => {
+        if (error) throw error
+        applyJobProgress(data as GenerationJob)
+      })
+      .then(undefined, (error: Error) => {
+        console.error('Error loading generation job:', error)
+        failPendingSteps(`Could not load generation progress: ${error.message}`)
+      })
+
+    const subscription = supabase
+      .channel(`generation_job_${jobId}`)
+      .on('postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'generation_jobs',
+          filter: `id=eq.${jobId}`
+        },
+        (payload) => {
+          applyJobProgress(payload.new as GenerationJob)
+        }
+      )
+      .subscribe()
+
+    return () => {
+      subscription.unsubscribe()
+    }
+  }, [jobId])
+
   const handleInputChange = (field: string, value: any) => {
     setFormData(prev => ({ ...prev, [field]: value }))
   }
@@ -252,7 +660,20 @@ const CreateProject: React.FC<CreateProjectProps> = ({ onBack, selectedRepositor
           user_id: user.id,
           title: formData.title,
           description: formData.description,
-          code_snippet: formData.codeSnippet,
+          code_snippet: redacted.code.text,
+          locale: formData.locale,
+          // Tie the demo to the exact commit its code was scanned from
+          repository_id: selectedRepository?.id,
+          ...(changes ? {
+            source_ref: changes.ref,
+            source_sha: changes.headSha,
+            source_base_sha: changes.baseSha,
+            source_url: changes.htmlUrl
+          } : {
+            source_ref: repoAnalysis?.scan?.ref,
+            source_sha: repoAnalysis?.scan?.sha,
+            source_path: repoAnalysis?.scan?.workspace
+          }),
           status: 'processing'
         }])
         .select()
@@ -264,9 +685,6 @@ const CreateProject: React.FC<CreateProjectProps> = ({ onBack, selectedRepositor
 
       // Start AI processing
       await processWithAI(project.id)
-
-      // Navigate back to dashboard
-      navigate('/dashboard')
     } catch (error: any) {
       console.error('Error creating project:', error)
       updateProcessingStep('init', 'error', `Failed to create project: ${error.message}`)
@@ -289,9 +707,11 @@ const CreateProject: React.FC<CreateProjectProps> = ({ onBack, selectedRepositor
         },
         body: JSON.stringify({
           projectId,
+          // The scanned files themselves stay here: they aren't masked, and the script is written from the snippet
           formData: {
             ...formData,
-            repositoryAnalysis: repoAnalysis // Include repository analysis for better AI processing
+            codeSnippet: redacted.code.text,
+            intentContext: redacted.docs.text
           }
         })
       })
@@ -303,34 +723,21 @@ const CreateProject: React.FC<CreateProjectProps> = ({ onBack, selectedRepositor
 
       const result = await response.json()
       
-      if (result.success) {
-        updateProcessingStep('script', 'completed', 'AI script generated')
-        updateProcessingStep('voice', 'processing', 'Creating voice narration...')
-        
-        // Show different messages based on face video inclusion
-        if (formData.includeFace) {
-          updateProcessingStep('voice', 'completed', 'Voice narration created')
-          updateProcessingStep('face', 'processing', 'Generating face video with Tavus (this takes 10-15 minutes)...')
-          
-          // Start polling for Tavus completion
-          startTavusPolling(projectId)
-        } else {
-          updateProcessingStep('voice', 'completed', 'Voice narration created')
-          updateProcessingStep('combine', 'completed', 'Video elements combined')
-          updateProcessingStep('finalize', 'completed', 'Video processing complete!')
-        }
-      } else {
+      if (!result.success) {
         throw new Error(result.error || 'Processing failed')
       }
+      if (!result.jobId) {
+        throw new Error('Processing started without a generation job to follow')
+      }
+
+      // Progress from here on is streamed from the generation job
+      setProcessingProjectId(projectId)
+      setJobId(result.jobId)
     } catch (error: any) {
       console.error('Error starting AI processing:', error)
       
       // Update all remaining steps to error
-      setProcessingSteps(prev => prev.map(step => 
-        step.status === 'pending' || step.status === 'processing'
-          ? { ...step, status: 'error' as const, message: error.message }
-          : step
-      ))
+      failPendingSteps(error.message)
 
       // Update project status to failed
       await supabase
@@ -340,56 +747,9 @@ const CreateProject: React.FC<CreateProjectProps> = ({ onBack, selectedRepositor
     }
   }
 
-  const startTavusPolling = async (projectId: string) => {
-    const pollInterval = 30000 // 30 seconds
-    const maxPolls = 40 // 20 minutes max
-    let pollCount = 0
-
-    const poll = async () => {
-      try {
-        const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/tavus-poll?projectId=${projectId}`, {
-          headers: {
-            'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
-          },
-        })
-
-        if (response.ok) {
-          const data = await response.json()
-          
-          if (data.status === 'completed' && data.videoUrl) {
-            updateProcessingStep('face', 'completed', 'Face video generation completed!')
-            updateProcessingStep('combine', 'completed', 'Video elements combined')
-            updateProcessingStep('finalize', 'completed', 'Video processing complete!')
-            return
-          } else if (data.tavusStatus === 'failed') {
-            updateProcessingStep('face', 'error', 'Face video generation failed')
-            return
-          } else {
-            const timeElapsed = Math.round((pollCount * pollInterval) / 60000)
-            updateProcessingStep('face', 'processing', 
-              `Generating face video... (${timeElapsed} minutes elapsed, typically takes 10-15 minutes)`
-            )
-          }
-        }
-
-        pollCount++
-        if (pollCount < maxPolls) {
-          setTimeout(poll, pollInterval)
-        } else {
-          updateProcessingStep('face', 'error', 'Face video generation timed out')
-        }
-      } catch (error) {
-        console.error('Polling error:', error)
-        updateProcessingStep('face', 'error', 'Error checking video status')
-      }
-    }
-
-    // Start polling after a short delay
-    setTimeout(poll, pollInterval)
-  }
-
   const renderRepositoryInfo = () => {
     if (!selectedRepository) return null
+    const selectedWorkspace = workspaces.find(workspace => workspace.path === scanOptions.workspace)
 
     return (
       <div className="mb-6 bg-gradient-to-r from-gray-50 to-blue-50 rounded-xl p-6 border border-gray-200">
@@ -440,7 +800,251 @@ const CreateProject: React.FC<CreateProjectProps> = ({ onBack, selectedRepositor
                   {repoAnalysis.keyFeatures.length > 0 && (
                     <p><strong>Key features:</strong> {repoAnalysis.keyFeatures.join(', ')}</p>
                   )}
+                  {repoAnalysis.structure && repoAnalysis.structure.entryPoints.length > 0 && (
+                    <p>
+                      <strong>Entry points:</strong>{' '}
+                      <span className="font-mono text-xs">{repoAnalysis.structure.entryPoints.slice(0, 3).join(', ')}</span>
+                    </p>
+                  )}
+                  {repoAnalysis.scan?.sha && (
+                    <p>
+                      <strong>Revision:</strong> {repoAnalysis.scan.ref}
+                      {repoAnalysis.scan.ref !== repoAnalysis.scan.sha && (
+                        <span className="font-mono"> @ {repoAnalysis.scan.sha.slice(0, 7)}</span>
+                      )}
+                    </p>
+                  )}
+                  {repoAnalysis.intent && repoAnalysis.intent.length > 0 && (
+                    <p>
+                      <strong>Docs for context:</strong>{' '}
+                      <span className="font-mono text-xs">
+                        {repoAnalysis.intent.map(document => `${document.path}${document.truncated ? ' (excerpt)' : ''}`).join(', ')}
+                      </span>
+                    </p>
+                  )}
+                  {repoAnalysis.scan?.workspace && (
+                    <p>
+                      <strong>Package:</strong> <span className="font-mono text-xs">{repoAnalysis.scan.workspace}</span>
+                    </p>
+                  )}
+                  {repoAnalysis.scan && (
+                    <p>
+                      <strong>Coverage:</strong> {repoAnalysis.scan.candidates} of {repoAnalysis.scan.treeFiles} files eligible
+                      ({repoAnalysis.scan.ignored} ignored), ~{repoAnalysis.scan.tokens.toLocaleString()} of {repoAnalysis.scan.tokenBudget.toLocaleString()} tokens used
+                      {repoAnalysis.scan.truncated && ' · tree truncated by GitHub'}
+                    </p>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {/* Suggestions for the revision, base and head inputs */}
+            <datalist id="repository-refs">
+              {repoRefs?.branches.map(branch => (
+                <option key={`branch-${branch}`} value={branch}>Branch</option>
+              ))}
+              {repoRefs?.tags.map(tag => (
+                <option key={`tag-${tag}`} value={tag}>Tag</option>
+              ))}
+            </datalist>
+
+            <div className="mt-4 inline-flex rounded-lg border border-gray-300 bg-white p-1 text-sm">
+              {([
+                ['repository', 'Whole repository'],
+                ['changes', 'Pull request or commits']
+              ] as const).map(([mode, label]) => (
+                <button
+                  key={mode}
+                  type="button"
+                  onClick={() => switchSourceMode(mode)}
+                  className={`px-3 py-1.5 rounded-md transition-colors ${
+                    sourceMode === mode ? 'bg-purple-600 text-white' : 'text-gray-600 hover:text-gray-900'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+
+            {sourceMode === 'changes' && (
+              <div className="mt-4 space-y-3">
+                <div className="flex flex-wrap items-end gap-3">
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">Pull request</label>
+                    <div className="relative">
+                      <GitPullRequest className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                      <input
+                        type="number"
+                        min={1}
+                        value={changeRequest.pullNumber}
+                        onChange={(e) => setChangeRequest(prev => ({ ...prev, pullNumber: e.target.value }))}
+                        placeholder="42"
+                        className="w-28 pl-9 pr-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                      />
+                    </div>
+                  </div>
+                  <span className="pb-2 text-sm text-gray-500">or</span>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">Base</label>
+                    <input
+                      type="text"
+                      list="repository-refs"
+                      value={changeRequest.base}
+                      onChange={(e) => setChangeRequest(prev => ({ ...prev, base: e.target.value }))}
+                      placeholder="v1.2.0"
+                      disabled={!!changeRequest.pullNumber}
+                      className="w-36 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent disabled:bg-gray-100"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">Head</label>
+                    <input
+                      type="text"
+                      list="repository-refs"
+                      value={changeRequest.head}
+                      onChange={(e) => setChangeRequest(prev => ({ ...prev, head: e.target.value }))}
+                      placeholder={repoRefs?.defaultBranch || 'main'}
+                      disabled={!!changeRequest.pullNumber}
+                      className="w-36 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent disabled:bg-gray-100"
+                    />
+                  </div>
+                  <button
+                    type="button"
+                    onClick={loadChanges}
+                    disabled={loadingChanges}
+                    className="flex items-center space-x-2 px-4 py-2 bg-gray-900 text-white rounded-lg text-sm hover:bg-gray-800 transition-colors disabled:opacity-50"
+                  >
+                    {loadingChanges ? <Loader2 className="h-4 w-4 animate-spin" /> : <GitPullRequest className="h-4 w-4" />}
+                    <span>Load changes</span>
+                  </button>
                 </div>
+
+                {changes && (
+                  <div className="text-sm text-gray-600 space-y-1">
+                    <div className="flex items-center space-x-2 text-green-600">
+                      <CheckCircle className="h-4 w-4" />
+                      <a href={changes.htmlUrl} target="_blank" rel="noopener noreferrer" className="font-medium hover:underline">
+                        {changes.kind === 'pull' ? `#${changes.ref.replace('pull/', '')} ` : ''}{changes.title}
+                      </a>
+                    </div>
+                    <p>
+                      <strong>Files:</strong> {changes.includedFiles.length} narrated
+                      {changes.skippedFiles.length > 0 && ` (${changes.skippedFiles.length} generated, binary or over budget left out)`}
+                      {' · '}
+                      <span className="text-green-700">+{changes.additions}</span>{' '}
+                      <span className="text-red-700">−{changes.deletions}</span>
+                    </p>
+                    <p><strong>Commits:</strong> {changes.commits.length}, up to <span className="font-mono">{changes.headSha.slice(0, 7)}</span></p>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {!scanningRepo && sourceMode === 'repository' && (
+              <div className="mt-4">
+                <div className="flex items-end space-x-3">
+                  <div className="flex-1">
+                    <label className="block text-xs font-medium text-gray-700 mb-1">Branch, tag or commit</label>
+                    <div className="relative">
+                      <GitBranch className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                      <input
+                        type="text"
+                        list="repository-refs"
+                        value={scanOptions.ref}
+                        onChange={(e) => setScanOptions(prev => ({ ...prev, ref: e.target.value }))}
+                        placeholder={repoRefs?.defaultBranch || 'Default branch'}
+                        className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                      />
+                    </div>
+                  </div>
+                  {workspaces.length > 0 && (
+                    <div className="flex-1">
+                      <label className="block text-xs font-medium text-gray-700 mb-1">Package</label>
+                      <div className="relative">
+                        <Package className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                        <select
+                          value={scanOptions.workspace}
+                          onChange={(e) => setScanOptions(prev => ({ ...prev, workspace: e.target.value }))}
+                          className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                        >
+                          <option value="">Whole repository</option>
+                          {workspaces.map(workspace => (
+                            <option key={workspace.path} value={workspace.path}>
+                              {workspace.name === workspace.path ? workspace.path : `${workspace.name} (${workspace.path})`}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    </div>
+                  )}
+                  <button
+                    type="button"
+                    onClick={scanRepository}
+                    className="flex items-center space-x-2 px-4 py-2 bg-gray-900 text-white rounded-lg text-sm hover:bg-gray-800 transition-colors"
+                  >
+                    <Github className="h-4 w-4" />
+                    <span>Rescan</span>
+                  </button>
+                </div>
+
+                {selectedWorkspace && (
+                  <p className="mt-2 text-xs text-gray-500">
+                    {selectedWorkspace.kind === 'go' ? 'Go module' : selectedWorkspace.kind === 'cargo' ? 'Cargo crate' : `${selectedWorkspace.kind} package`}
+                    {' · '}<span className="font-mono">{selectedWorkspace.manifest}</span>
+                    {selectedWorkspace.readme && <>{' · '}<span className="font-mono">{selectedWorkspace.readme}</span></>}
+                    {selectedWorkspace.description && ` · ${selectedWorkspace.description}`}
+                  </p>
+                )}
+
+                <button
+                  type="button"
+                  onClick={() => setShowScanOptions(!showScanOptions)}
+                  className="mt-3 text-sm text-purple-600 hover:text-purple-700 font-medium"
+                >
+                  {showScanOptions ? 'Hide scan options' : 'Scan options'}
+                </button>
+
+                {showScanOptions && (
+                  <div className="mt-3 space-y-3">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                      <div>
+                        <label className="block text-xs font-medium text-gray-700 mb-1">Only include paths</label>
+                        <textarea
+                          value={scanOptions.includePaths}
+                          onChange={(e) => setScanOptions(prev => ({ ...prev, includePaths: e.target.value }))}
+                          rows={2}
+                          placeholder="src/**, lib/core/**"
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium text-gray-700 mb-1">Exclude paths</label>
+                        <textarea
+                          value={scanOptions.excludePaths}
+                          onChange={(e) => setScanOptions(prev => ({ ...prev, excludePaths: e.target.value }))}
+                          rows={2}
+                          placeholder="**/*.test.ts, scripts/**"
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                        />
+                      </div>
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-700 mb-1">Token budget</label>
+                      <input
+                        type="number"
+                        min={2000}
+                        max={100000}
+                        step={1000}
+                        value={scanOptions.tokenBudget}
+                        onChange={(e) => setScanOptions(prev => ({ ...prev, tokenBudget: Number(e.target.value) }))}
+                        className="w-32 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                      />
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      The repository's .gitignore files, dependencies and build output are always skipped.
+                    </p>
+                  </div>
+                )}
               </div>
             )}
           </div>
@@ -449,6 +1053,35 @@ const CreateProject: React.FC<CreateProjectProps> = ({ onBack, selectedRepositor
     )
   }
 
+  const renderRedactionReport = () => {
+    const count = redacted.code.redactions.length + redacted.docs.redactions.length
+    if (count === 0) return null
+
+    return (
+      <div className="rounded-xl p-4 border bg-yellow-50 border-yellow-200">
+        <div className="flex items-start space-x-2">
+          <AlertCircle className="h-5 w-5 text-yellow-600 flex-shrink-0 mt-0.5" />
+          <div>
+            <div className="font-medium text-yellow-800">
+              {count === 1 ? '1 secret' : `${count} secrets`} will be masked
+            </div>
+            <div className="text-sm text-yellow-700 mb-2">
+              Replaced with [REDACTED] before anything is sent to the AI or shown in the video. Remove them from the code if they shouldn't be there at all.
+            </div>
+            <ul className="text-sm text-yellow-800 space-y-1">
+              {redacted.code.redactions.map((redaction, index) => (
+                <li key={`code-${index}`}>Code, {describeRedaction(redaction)}</li>
+              ))}
+              {redacted.docs.redactions.map((redaction, index) => (
+                <li key={`docs-${index}`}>{describeDocsRedaction(redaction)}</li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
   const renderStep1 = () => (
     <div className="space-y-6">
       {renderRepositoryInfo()}
@@ -545,7 +1178,9 @@ const CreateProject: React.FC<CreateProjectProps> = ({ onBack, selectedRepositor
             <div className="flex items-center justify-between mb-3">
               <div className="flex items-center space-x-2">
                 <FileText className="h-5 w-5 text-gray-600" />
-                <span className="font-medium text-gray-900">Auto-generated from repository scan</span>
+                <span className="font-medium text-gray-900">
+                  {changes ? `Diff of ${changes.ref}` : 'Auto-generated from repository scan'}
+                </span>
               </div>
               <div className="flex items-center space-x-2">
                 <button
@@ -577,13 +1212,23 @@ const CreateProject: React.FC<CreateProjectProps> = ({ onBack, selectedRepositor
               />
             )}
             
-            {!showCodePreview && (
+            {!showCodePreview && changes && (
+              <div className="bg-white rounded-lg p-3 border border-gray-200">
+                <div className="text-sm text-gray-600 space-y-1">
+                  <p><strong>Files included:</strong> {changes.includedFiles.length}</p>
+                  <p><strong>Lines changed:</strong> +{changes.additions} −{changes.deletions}</p>
+                  <p><strong>Commits:</strong> {changes.commits.length}</p>
+                </div>
+              </div>
+            )}
+
+            {!showCodePreview && !changes && (
               <div className="bg-white rounded-lg p-3 border border-gray-200">
                 <div className="text-sm text-gray-600 space-y-1">
                   <p><strong>Files included:</strong> {repoAnalysis?.files.length || 0}</p>
                   <p><strong>Total lines:</strong> {repoAnalysis?.totalLines.toLocaleString() || 0}</p>
                   <p><strong>Primary language:</strong> {repoAnalysis?.primaryLanguage || 'Analyzing...'}</p>
-                  {repoAnalysis?.keyFeatures.length > 0 && (
+                  {repoAnalysis && repoAnalysis.keyFeatures.length > 0 && (
                     <p><strong>Key features:</strong> {repoAnalysis.keyFeatures.slice(0, 3).join(', ')}</p>
                   )}
                 </div>
@@ -596,6 +1241,8 @@ const CreateProject: React.FC<CreateProjectProps> = ({ onBack, selectedRepositor
           </div>
         </div>
       )}
+
+      {renderRedactionReport()}
     </div>
   )
 
@@ -606,7 +1253,8 @@ const CreateProject: React.FC<CreateProjectProps> = ({ onBack, selectedRepositor
           Demo Type *
         </label>
         <div className="grid grid-cols-1 gap-4">
-          {demoTypes.map(type => (
+          {/* A diff only makes sense as a "what changed" demo, and that demo needs a diff */}
+          {demoTypes.filter(type => (type.value === 'changes') === !!changes).map(type => (
             <label
               key={type.value}
               className={`relative flex cursor-pointer rounded-xl border p-4 focus:outline-none ${
@@ -684,6 +1332,113 @@ const CreateProject: React.FC<CreateProjectProps> = ({ onBack, selectedRepositor
           ))}
         </div>
       </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-4">
+          <label className="block text-sm font-medium text-gray-700">
+            Narrator Voice
+          </label>
+          <button
+            type="button"
+            onClick={() => setShowAddVoice(!showAddVoice)}
+            className="text-sm text-purple-600 hover:text-purple-700 font-medium"
+          >
+            {showAddVoice ? 'Cancel' : '+ Add your own voice'}
+          </button>
+        </div>
+
+        {showAddVoice && (
+          <div className="mb-4 p-4 bg-gray-50 rounded-xl border border-gray-200 space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <input
+                type="text"
+                value={newVoice.name}
+                onChange={(e) => setNewVoice(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="Voice name"
+                className="w-full px-4 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+              />
+              <input
+                type="text"
+                value={newVoice.voice_id}
+                onChange={(e) => setNewVoice(prev => ({ ...prev, voice_id: e.target.value }))}
+                placeholder={newVoice.engine === 'elevenlabs' ? 'ElevenLabs voice ID' : 'Local voice name (e.g. onyx)'}
+                className="w-full px-4 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent font-mono text-sm"
+              />
+              <select
+                value={newVoice.engine}
+                onChange={(e) => setNewVoice(prev => ({ ...prev, engine: e.target.value as Voice['engine'] }))}
+                className="w-full px-4 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+              >
+                <option value="elevenlabs">ElevenLabs</option>
+                <option value="local">Local TTS server</option>
+              </select>
+              <select
+                value={newVoice.gender}
+                onChange={(e) => setNewVoice(prev => ({ ...prev, gender: e.target.value as Voice['gender'] }))}
+                className="w-full px-4 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+              >
+                <option value="female">Female</option>
+                <option value="male">Male</option>
+                <option value="neutral">Neutral</option>
+              </select>
+            </div>
+            <button
+              type="button"
+              onClick={handleAddVoice}
+              disabled={!newVoice.name.trim() || !newVoice.voice_id.trim()}
+              className="px-4 py-2 bg-purple-600 text-white rounded-xl hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-sm"
+            >
+              Save Voice
+            </button>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {[null, ...voices].map(voice => (
+            <label
+              key={voice?.id || 'default'}
+              className={`relative flex cursor-pointer rounded-xl border p-4 focus:outline-none ${
+                formData.voiceId === (voice?.id || null)
+                  ? 'border-purple-500 bg-purple-50'
+                  : 'border-gray-300 bg-white hover:bg-gray-50'
+              }`}
+            >
+              <input
+                type="radio"
+                name="voiceId"
+                checked={formData.voiceId === (voice?.id || null)}
+                onChange={() => handleInputChange('voiceId', voice?.id || null)}
+                className="sr-only"
+              />
+              <div className="flex-1 text-sm">
+                <div className="flex items-center space-x-2">
+                  <span className="font-medium text-gray-900">{voice ? voice.name : 'Default'}</span>
+                  {voice && (
+                    <span className="px-2 py-0.5 bg-gray-100 text-gray-600 rounded-full text-xs capitalize">
+                      {voice.gender}
+                    </span>
+                  )}
+                  {voice?.user_id && (
+                    <span className="px-2 py-0.5 bg-purple-100 text-purple-700 rounded-full text-xs">
+                      Yours
+                    </span>
+                  )}
+                  {voice && !voice.locales && (
+                    <span className="px-2 py-0.5 bg-blue-100 text-blue-700 rounded-full text-xs">
+                      Multilingual
+                    </span>
+                  )}
+                </div>
+                <div className="text-gray-500">
+                  {voice
+                    ? voice.description || (voice.engine === 'elevenlabs' ? 'ElevenLabs voice' : 'Local TTS voice')
+                    : 'The standard voice for the selected style'}
+                </div>
+              </div>
+            </label>
+          ))}
+        </div>
+      </div>
     </div>
   )
 
@@ -727,6 +1482,61 @@ const CreateProject: React.FC<CreateProjectProps> = ({ onBack, selectedRepositor
             <div className="text-sm text-gray-500">Add a realistic AI-generated presenter (takes 10-15 minutes)</div>
           </div>
         </label>
+
+        <label className="flex items-center space-x-3 p-4 border border-gray-300 rounded-xl hover:bg-gray-50 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={formData.reviewScript}
+            onChange={(e) => handleInputChange('reviewScript', e.target.checked)}
+            className="w-5 h-5 text-purple-600 border-gray-300 rounded focus:ring-purple-500"
+          />
+          <div className="flex-1">
+            <div className="font-medium text-gray-900">Review Script Before Rendering</div>
+            <div className="text-sm text-gray-500">Edit or regenerate the AI script before any voice or avatar credits are used</div>
+          </div>
+        </label>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Narration Language
+        </label>
+        <select
+          value={formData.locale}
+          onChange={(e) => {
+            handleInputChange('locale', e.target.value)
+            handleInputChange('additionalLocales', formData.additionalLocales.filter(locale => locale !== e.target.value))
+          }}
+          className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+        >
+          {narrationLocales.map(locale => (
+            <option key={locale.value} value={locale.value}>{locale.label}</option>
+          ))}
+        </select>
+
+        <p className="text-sm text-gray-500 mt-4 mb-2">Also create localized versions in:</p>
+        <div className="flex flex-wrap gap-2">
+          {narrationLocales.filter(locale => locale.value !== formData.locale).map(locale => {
+            const selected = formData.additionalLocales.includes(locale.value)
+            return (
+              <button
+                key={locale.value}
+                type="button"
+                onClick={() => handleInputChange('additionalLocales', selected
+                  ? formData.additionalLocales.filter(value => value !== locale.value)
+                  : [...formData.additionalLocales, locale.value]
+                )}
+                className={`px-3 py-1 rounded-full text-sm border transition-colors ${
+                  selected
+                    ? 'border-purple-500 bg-purple-50 text-purple-700'
+                    : 'border-gray-300 text-gray-600 hover:bg-gray-50'
+                }`}
+              >
+                {locale.label}
+              </button>
+            )
+          })}
+        </div>
       </div>
 
       {/* Time Estimate Warning */}
@@ -757,6 +1567,8 @@ const CreateProject: React.FC<CreateProjectProps> = ({ onBack, selectedRepositor
         </div>
       </div>
 
+      {renderRedactionReport()}
+
       <div className="bg-gradient-to-r from-purple-50 to-blue-50 rounded-xl p-6 border border-purple-200">
         <h4 className="font-semibold text-gray-900 mb-3">Preview Settings</h4>
         <div className="space-y-2 text-sm">
@@ -774,6 +1586,20 @@ const CreateProject: React.FC<CreateProjectProps> = ({ onBack, selectedRepositor
             <span className="text-gray-600">Voice Style:</span>
             <span className="font-medium text-gray-900 capitalize">{formData.voiceStyle}</span>
           </div>
+          <div className="flex justify-between">
+            <span className="text-gray-600">Narrator Voice:</span>
+            <span className="font-medium text-gray-900">
+              {voices.find(v => v.id === formData.voiceId)?.name || 'Default'}
+            </span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-600">Narration:</span>
+            <span className="font-medium text-gray-900">
+              {[formData.locale, ...formData.additionalLocales]
+                .map(value => narrationLocales.find(l => l.value === value)?.label)
+                .join(', ')}
+            </span>
+          </div>
           <div className="flex justify-between">
             <span className="text-gray-600">Language:</span>
             <span className="font-medium text-gray-900">
@@ -810,10 +1636,24 @@ const CreateProject: React.FC<CreateProjectProps> = ({ onBack, selectedRepositor
     <div className="bg-white rounded-2xl shadow-xl border border-gray-100 p-8">
       <div className="text-center mb-8">
         <div className="w-16 h-16 bg-gradient-to-r from-purple-600 to-blue-600 rounded-full flex items-center justify-center mx-auto mb-4">
-          <Loader2 className="h-8 w-8 text-white animate-spin" />
+          {jobStatus === 'completed' ? (
+            <CheckCircle className="h-8 w-8 text-white" />
+          ) : jobStatus === 'failed' ? (
+            <AlertCircle className="h-8 w-8 text-white" />
+          ) : jobStatus === 'review' ? (
+            <Edit className="h-8 w-8 text-white" />
+          ) : (
+            <Loader2 className="h-8 w-8 text-white animate-spin" />
+          )}
         </div>
         <h3 className="text-2xl font-bold text-gray-900 mb-2">
-          Generating Your Demo Video
+          {jobStatus === 'completed'
+            ? 'Your Demo Video is Ready'
+            : jobStatus === 'failed'
+              ? 'Demo Generation Failed'
+              : jobStatus === 'review'
+                ? 'Your Script is Ready for Review'
+                : 'Generating Your Demo Video'}
         </h3>
         <p className="text-gray-600">
           {selectedRepository 
@@ -823,6 +1663,15 @@ const CreateProject: React.FC<CreateProjectProps> = ({ onBack, selectedRepositor
         </p>
       </div>
 
+      {jobStatus === 'review' && processingProjectId && (
+        <div className="mb-8">
+          <ScriptReview
+            projectId={processingProjectId}
+            onApproved={() => setJobStatus('queued')}
+          />
+        </div>
+      )}
+
       <div className="space-y-4">
         {processingSteps.map((step, index) => (
           <div key={step.id} className="flex items-center space-x-4 p-4 bg-gray-50 rounded-xl">
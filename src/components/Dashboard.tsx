@@ -1,13 +1,16 @@
 import React, { useEffect, useState } from 'react'
-import { Plus, Video, BarChart3, Settings, Github, Play, Edit, Trash2, Eye, Share2, Clock, CheckCircle, XCircle, Loader2, MessageCircle, RefreshCw, Wrench } from 'lucide-react'
+import { Plus, Video, BarChart3, Settings, Github, Play, Edit, Trash2, Eye, Share2, Clock, CheckCircle, XCircle, Loader2, MessageCircle, RefreshCw, Wrench, Languages, FileText, History, GitBranch } from 'lucide-react'
 import { useAuth } from '../contexts/AuthContext'
-import { supabase, Project } from '../lib/supabase'
+import { supabase, storageDownloadUrl, Project, ProjectRendition } from '../lib/supabase'
 import CreateProject from './CreateProject'
 import LiveConversation from './LiveConversation'
+import ScriptReview from './ScriptReview'
+import ProjectVersions from './ProjectVersions'
+import VideoPlayer from './VideoPlayer'
 import GitHubConnect from './GitHubConnect'
 
 const Dashboard = () => {
-  const { user, profile } = useAuth()
+  const { user, profile, session } = useAuth()
   const [projects, setProjects] = useState<Project[]>([])
   const [loading, setLoading] = useState(true)
   const [checkingTavus, setCheckingTavus] = useState<Set<string>>(new Set())
@@ -15,6 +18,12 @@ const Dashboard = () => {
   const [showCreateProject, setShowCreateProject] = useState(false)
   const [selectedProject, setSelectedProject] = useState<Project | null>(null)
   const [showLiveConversation, setShowLiveConversation] = useState(false)
+  const [reviewProject, setReviewProject] = useState<Project | null>(null)
+  const [rerenderProject, setRerenderProject] = useState<Project | null>(null)
+  const [historyProject, setHistoryProject] = useState<Project | null>(null)
+  // The project's video, or one of its localized renditions, playing in the player
+  const [watching, setWatching] = useState<{ project: Project, rendition?: ProjectRendition } | null>(null)
+  const [rerenderSettings, setRerenderSettings] = useState({ voiceStyle: 'professional', includeCode: true, includeFace: true })
   const [conversationProject, setConversationProject] = useState<Project | null>(null)
   const [showGitHubRepos, setShowGitHubRepos] = useState(false)
   const [selectedRepository, setSelectedRepository] = useState<any>(null)
@@ -66,7 +75,7 @@ const Dashboard = () => {
     try {
       const { data, error } = await supabase
         .from('projects')
-        .select('*')
+        .select('*, project_renditions(*)')
         .order('created_at', { ascending: false })
 
       if (error) throw error
@@ -242,7 +251,7 @@ const Dashboard = () => {
     }
   }
 
-  const retryProject = async (projectId: string) => {
+  const retryProject = async (projectId: string, changes?: Record<string, unknown>) => {
     console.log(`🔄 Retrying project ${projectId}`)
     
     try {
@@ -264,26 +273,48 @@ const Dashboard = () => {
         }, 2000)
       }
 
-      // If Tavus fetch didn't work, restart the generation process
-      const { error } = await supabase
-        .from('projects')
-        .update({
-          status: 'processing',
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', projectId)
+      // If Tavus fetch didn't work, re-render; steps whose inputs are unchanged come from the cache
+      const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/process-demo`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${session?.access_token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ action: 'rerender', projectId, changes })
+      })
 
-      if (error) throw error
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to start re-rendering')
+      }
       
       // Refresh projects
       await fetchProjects()
-      alert('🔄 Project retry initiated. Processing will begin shortly.')
+      alert('🔄 Project retry initiated. Only the steps affected by your changes will be re-rendered.')
     } catch (error) {
       console.error('💥 Error retrying project:', error)
       alert('❌ Failed to retry project')
     }
   }
 
+  // Prefill the re-render options from the settings the project was last generated with
+  const openRerender = async (project: Project) => {
+    const { data } = await supabase
+      .from('generation_jobs')
+      .select('form_data')
+      .eq('project_id', project.id)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    setRerenderSettings({
+      voiceStyle: data?.form_data?.voiceStyle || 'professional',
+      includeCode: data?.form_data?.includeCode ?? true,
+      includeFace: data?.form_data?.includeFace ?? true
+    })
+    setRerenderProject(project)
+  }
+
   const deleteProject = async (projectId: string) => {
     if (!confirm('Are you sure you want to delete this project?')) return
 
@@ -325,6 +356,8 @@ const Dashboard = () => {
         return checkingTavus.has(projectId || '') 
           ? <Loader2 className="h-5 w-5 text-blue-500 animate-spin" />
           : <Loader2 className="h-5 w-5 text-yellow-500 animate-spin" />
+      case 'review':
+        return <Edit className="h-5 w-5 text-purple-500" />
       case 'failed':
         return <XCircle className="h-5 w-5 text-red-500" />
       default:
@@ -340,6 +373,8 @@ const Dashboard = () => {
         return checkingTavus.has(projectId || '') 
           ? 'bg-blue-100 text-blue-800'
           : 'bg-yellow-100 text-yellow-800'
+      case 'review':
+        return 'bg-purple-100 text-purple-800'
       case 'failed':
         return 'bg-red-100 text-red-800'
       default:
@@ -351,6 +386,9 @@ const Dashboard = () => {
     if (status === 'processing' && checkingTavus.has(projectId || '')) {
       return 'checking tavus'
     }
+    if (status === 'review') {
+      return 'script review'
+    }
     return status
   }
 
@@ -674,7 +712,69 @@ const Dashboard = () => {
                       <div className="flex items-center space-x-4 text-sm text-gray-500">
                         <span>Created {new Date(project.created_at).toLocaleDateString()}</span>
                         <span>Updated {new Date(project.updated_at).toLocaleDateString()}</span>
+                        {project.source_sha && (
+                          <span className="flex items-center space-x-1" title={project.source_sha}>
+                            <GitBranch className="h-3 w-3" />
+                            {project.source_url ? (
+                              <a href={project.source_url} target="_blank" rel="noopener noreferrer" className="hover:text-purple-600 hover:underline">
+                                {project.source_ref}
+                              </a>
+                            ) : (
+                              <span>{project.source_ref}</span>
+                            )}
+                            {project.source_ref !== project.source_sha && (
+                              <span className="font-mono">@ {project.source_sha.slice(0, 7)}</span>
+                            )}
+                            {project.source_path && (
+                              <span className="font-mono">· {project.source_path}</span>
+                            )}
+                          </span>
+                        )}
+                        {project.github_post_url && (
+                          <a
+                            href={project.github_post_url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="flex items-center space-x-1 hover:text-purple-600 hover:underline"
+                          >
+                            <Github className="h-3 w-3" />
+                            <span>Posted to GitHub</span>
+                          </a>
+                        )}
                       </div>
+
+                      {/* Localized renditions */}
+                      {(project.project_renditions || []).some(r => r.locale !== project.locale) && (
+                        <div className="flex flex-wrap items-center gap-2 mt-3">
+                          <Languages className="h-4 w-4 text-gray-400" />
+                          {(project.project_renditions || [])
+                            .filter(r => r.locale !== project.locale)
+                            .map(rendition => (
+                              <button
+                                key={rendition.id}
+                                // A re-render keeps the previous video watchable until it completes or fails
+                                disabled={!rendition.video_url}
+                                onClick={() => setWatching({ project, rendition })}
+                                className={`flex items-center space-x-1 px-2 py-1 rounded-full text-xs font-medium uppercase ${
+                                  rendition.status === 'completed'
+                                    ? 'bg-purple-100 text-purple-800 hover:bg-purple-200'
+                                    : rendition.status === 'failed'
+                                      ? 'bg-red-100 text-red-700'
+                                      : 'bg-yellow-100 text-yellow-800'
+                                } ${rendition.video_url ? '' : rendition.status === 'failed' ? 'cursor-not-allowed' : 'cursor-wait'}`}
+                                title={rendition.status === 'completed'
+                                  ? 'Watch this version'
+                                  : rendition.video_url
+                                    ? `Status: ${rendition.status}. Watch the previous render`
+                                    : `Status: ${rendition.status}`}
+                              >
+                                {rendition.status === 'processing' && <Loader2 className="h-3 w-3 animate-spin" />}
+                                {rendition.status !== 'processing' && rendition.video_url && <Play className="h-3 w-3" />}
+                                <span>{rendition.locale}</span>
+                              </button>
+                            ))}
+                        </div>
+                      )}
                     </div>
                     
                     <div className="flex items-center space-x-2 ml-4">
@@ -688,16 +788,49 @@ const Dashboard = () => {
                         <span>Chat</span>
                       </button>
                       
+                      {project.status === 'review' && (
+                        <button
+                          onClick={() => setReviewProject(project)}
+                          className="flex items-center space-x-1 px-3 py-2 text-purple-600 hover:text-purple-700 hover:bg-purple-50 rounded-lg transition-colors"
+                        >
+                          <Edit className="h-4 w-4" />
+                          <span>Review Script</span>
+                        </button>
+                      )}
+
                       {project.status === 'completed' && project.video_url && (
                         <button 
-                          onClick={() => window.open(project.video_url, '_blank')}
+                          onClick={() => setWatching({ project })}
                           className="flex items-center space-x-1 px-3 py-2 text-purple-600 hover:text-purple-700 hover:bg-purple-50 rounded-lg transition-colors"
                         >
                           <Play className="h-4 w-4" />
                           <span>Watch</span>
                         </button>
                       )}
+
+                      {project.status === 'completed' && project.captions_srt_url && (
+                        <a
+                          href={storageDownloadUrl(project.captions_srt_url, `${project.title}.srt`)}
+                          download={`${project.title}.srt`}
+                          className="flex items-center space-x-1 px-3 py-2 text-gray-600 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+                          title="Download captions as SRT"
+                        >
+                          <FileText className="h-4 w-4" />
+                          <span>SRT</span>
+                        </a>
+                      )}
                       
+                      {(project.status === 'completed' || project.status === 'failed') && (
+                        <button
+                          onClick={() => openRerender(project)}
+                          className="flex items-center space-x-1 px-3 py-2 text-purple-600 hover:text-purple-700 hover:bg-purple-50 rounded-lg transition-colors"
+                          title="Change settings and re-render only what changed"
+                        >
+                          <RefreshCw className="h-4 w-4" />
+                          <span>Re-render</span>
+                        </button>
+                      )}
+
                       {project.status === 'completed' && (
                         <button className="flex items-center space-x-1 px-3 py-2 text-blue-600 hover:text-blue-700 hover:bg-blue-50 rounded-lg transition-colors">
                           <Share2 className="h-4 w-4" />
@@ -709,6 +842,15 @@ const Dashboard = () => {
                         <Eye className="h-4 w-4" />
                         <span>View</span>
                       </button>
+
+                      <button
+                        onClick={() => setHistoryProject(project)}
+                        className="flex items-center space-x-1 px-3 py-2 text-gray-600 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+                        title="Browse, compare and roll back versions"
+                      >
+                        <History className="h-4 w-4" />
+                        <span>History</span>
+                      </button>
                       
                       <button className="flex items-center space-x-1 px-3 py-2 text-gray-600 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition-colors">
                         <Edit className="h-4 w-4" />
@@ -783,6 +925,132 @@ const Dashboard = () => {
         </div>
       </div>
 
+      {/* Video Player Modal */}
+      {watching && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-2xl shadow-2xl w-full max-w-4xl p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl font-bold text-gray-900">
+                {watching.project.title}
+                {watching.rendition && (
+                  <span className="ml-2 text-sm font-medium text-gray-500 uppercase">{watching.rendition.locale}</span>
+                )}
+              </h2>
+              <button
+                onClick={() => setWatching(null)}
+                className="p-2 text-gray-400 hover:text-gray-600 rounded-lg transition-colors"
+              >
+                <XCircle className="h-5 w-5" />
+              </button>
+            </div>
+            <VideoPlayer
+              videoUrl={(watching.rendition ?? watching.project).video_url!}
+              projectId={watching.project.id}
+              title={watching.project.title}
+              captionsUrl={(watching.rendition ?? watching.project).captions_vtt_url}
+              captionsSrtUrl={(watching.rendition ?? watching.project).captions_srt_url}
+              captionsLocale={watching.rendition?.locale ?? watching.project.locale}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Version History Modal */}
+      {historyProject && (
+        <ProjectVersions
+          project={historyProject}
+          onClose={() => setHistoryProject(null)}
+          onPublished={(changes) => {
+            setProjects(projects.map(p => p.id === historyProject.id ? { ...p, ...changes } : p))
+            setHistoryProject({ ...historyProject, ...changes })
+          }}
+        />
+      )}
+
+      {/* Re-render Modal */}
+      {rerenderProject && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md p-6">
+            <h2 className="text-xl font-bold text-gray-900 mb-1">Re-render {rerenderProject.title}</h2>
+            <p className="text-sm text-gray-600 mb-4">
+              Only the steps affected by your changes run again; everything else is reused.
+            </p>
+
+            <label className="block text-sm font-medium text-gray-700 mb-2">Voice Style</label>
+            <select
+              value={rerenderSettings.voiceStyle}
+              onChange={(e) => setRerenderSettings({ ...rerenderSettings, voiceStyle: e.target.value })}
+              className="w-full px-4 py-2 border border-gray-300 rounded-xl mb-4 focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+            >
+              <option value="professional">Professional</option>
+              <option value="casual">Casual</option>
+              <option value="enthusiastic">Enthusiastic</option>
+            </select>
+
+            <label className="flex items-center space-x-3 mb-2">
+              <input
+                type="checkbox"
+                checked={rerenderSettings.includeCode}
+                onChange={(e) => setRerenderSettings({ ...rerenderSettings, includeCode: e.target.checked })}
+                className="w-4 h-4 text-purple-600 border-gray-300 rounded focus:ring-purple-500"
+              />
+              <span className="text-sm text-gray-700">Include code visualization</span>
+            </label>
+            <label className="flex items-center space-x-3 mb-6">
+              <input
+                type="checkbox"
+                checked={rerenderSettings.includeFace}
+                onChange={(e) => setRerenderSettings({ ...rerenderSettings, includeFace: e.target.checked })}
+                className="w-4 h-4 text-purple-600 border-gray-300 rounded focus:ring-purple-500"
+              />
+              <span className="text-sm text-gray-700">Include face-talking avatar</span>
+            </label>
+
+            <div className="flex justify-end space-x-2">
+              <button
+                onClick={() => setRerenderProject(null)}
+                className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => {
+                  retryProject(rerenderProject.id, rerenderSettings)
+                  setRerenderProject(null)
+                }}
+                className="px-4 py-2 bg-gradient-to-r from-purple-600 to-blue-600 text-white rounded-lg hover:from-purple-700 hover:to-blue-700 transition-all duration-200"
+              >
+                Re-render
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Script Review Modal */}
+      {reviewProject && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-y-auto p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl font-bold text-gray-900">{reviewProject.title}</h2>
+              <button
+                onClick={() => setReviewProject(null)}
+                className="p-2 text-gray-400 hover:text-gray-600 rounded-lg transition-colors"
+              >
+                <XCircle className="h-5 w-5" />
+              </button>
+            </div>
+            <ScriptReview
+              projectId={reviewProject.id}
+              onApproved={() => {
+                setProjects(projects.map(p => p.id === reviewProject.id ? { ...p, status: 'processing' } : p))
+                setReviewProject(null)
+              }}
+            />
+          </div>
+        </div>
+      )}
+
       {/* Live Conversation Modal */}
       {showLiveConversation && conversationProject && (
         <LiveConversation
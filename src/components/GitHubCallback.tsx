@@ -29,12 +29,21 @@ const GitHubCallback = () => {
       const code = urlParams.get('code')
       const state = urlParams.get('state')
       const error = urlParams.get('error')
+      // Present when GitHub returns from installing the GitHub App
+      const installationId = urlParams.get('installation_id')
+      const setupAction = urlParams.get('setup_action')
+      const mode = installationId ? 'app' : localStorage.getItem('github_oauth_mode') || 'oauth'
 
       // Check for OAuth errors
       if (error) {
         throw new Error(`GitHub OAuth error: ${error}`)
       }
 
+      // Organization members without admin rights can only request an installation
+      if (setupAction === 'request') {
+        throw new Error('Installation requested. Connect again once an organization admin has approved it.')
+      }
+
       if (!code) {
         throw new Error('No authorization code received from GitHub')
       }
@@ -51,6 +60,7 @@ const GitHubCallback = () => {
 
       // Clean up stored state only after successful verification
       localStorage.removeItem('github_oauth_state')
+      localStorage.removeItem('github_oauth_mode')
 
       // Get current session
       const { data: { session } } = await supabase.auth.getSession()
@@ -65,7 +75,12 @@ const GitHubCallback = () => {
           'Authorization': `Bearer ${session.access_token}`,
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ code, state }),
+        body: JSON.stringify({
+          code,
+          state,
+          mode,
+          installationId: installationId ? Number(installationId) : undefined
+        }),
       })
 
       if (!response.ok) {
@@ -81,7 +96,9 @@ const GitHubCallback = () => {
       })
 
       setStatus('success')
-      setMessage(`Successfully connected GitHub account: @${data.user.github_username}`)
+      setMessage(data.installation
+        ? `Successfully connected the GitHub App for ${data.installation.account} as @${data.user.github_username}`
+        : `Successfully connected GitHub account: @${data.user.github_username}`)
       
       // Redirect to dashboard after a short delay
       setTimeout(() => {
@@ -95,6 +112,7 @@ const GitHubCallback = () => {
       
       // Clean up stored state on error
       localStorage.removeItem('github_oauth_state')
+      localStorage.removeItem('github_oauth_mode')
       
       // Redirect to dashboard after a delay even on error
       setTimeout(() => {
@@ -1,7 +1,8 @@
 import React, { useState, useEffect } from 'react'
-import { Github, RefreshCw, ExternalLink, Star, GitFork, Lock, Globe, Code, Calendar, AlertCircle } from 'lucide-react'
+import { Github, RefreshCw, ExternalLink, Star, GitFork, Lock, Globe, Code, Calendar, AlertCircle, Zap } from 'lucide-react'
 import { useAuth } from '../contexts/AuthContext'
 import { supabase } from '../lib/supabase'
+import RepositoryAutomation from './RepositoryAutomation'
 
 interface Repository {
   id: string
@@ -34,9 +35,14 @@ const GitHubConnect: React.FC<GitHubConnectProps> = ({
   const [loading, setLoading] = useState(false)
   const [syncing, setSyncing] = useState(false)
   const [error, setError] = useState('')
+  const [automationRepository, setAutomationRepository] = useState<Repository | null>(null)
+  const [rateLimit, setRateLimit] = useState<{ limit: number; remaining: number; resetAt: string } | null>(null)
 
-  // Check if GitHub is configured
-  const isGitHubConfigured = !!import.meta.env.VITE_GITHUB_CLIENT_ID
+  // Check if GitHub is configured, through an OAuth app, a GitHub App, or both
+  const githubAppSlug = import.meta.env.VITE_GITHUB_APP_SLUG
+  const isOAuthConfigured = !!import.meta.env.VITE_GITHUB_CLIENT_ID
+  const isGitHubAppConfigured = !!githubAppSlug && !!import.meta.env.VITE_GITHUB_APP_CLIENT_ID
+  const isGitHubConfigured = isOAuthConfigured || isGitHubAppConfigured
 
   useEffect(() => {
     if (profile?.github_username && showRepositories) {
@@ -44,6 +50,14 @@ const GitHubConnect: React.FC<GitHubConnectProps> = ({
     }
   }, [profile?.github_username, showRepositories])
 
+  // Store state (and which credentials the callback exchanges the code with) in localStorage for verification
+  const createOAuthState = (mode: 'oauth' | 'app') => {
+    const state = Math.random().toString(36).substring(7)
+    localStorage.setItem('github_oauth_state', state)
+    localStorage.setItem('github_oauth_mode', mode)
+    return state
+  }
+
   const connectGitHub = () => {
     const clientId = import.meta.env.VITE_GITHUB_CLIENT_ID
     if (!clientId) {
@@ -53,16 +67,27 @@ const GitHubConnect: React.FC<GitHubConnectProps> = ({
 
     const redirectUri = `${window.location.origin}/github-callback`
     const scope = 'repo,user:email'
-    const state = Math.random().toString(36).substring(7)
-    
-    // Store state in localStorage for verification
-    localStorage.setItem('github_oauth_state', state)
+    const state = createOAuthState('oauth')
     
     const githubAuthUrl = `https://github.com/login/oauth/authorize?client_id=${clientId}&redirect_uri=${redirectUri}&scope=${scope}&state=${state}`
     
     window.location.href = githubAuthUrl
   }
 
+  // Installing lets the account owner, or an organization admin, pick which repositories the app can reach
+  const installGitHubApp = () => {
+    const state = createOAuthState('app')
+    window.location.href = `https://github.com/apps/${githubAppSlug}/installations/new?state=${state}`
+  }
+
+  // For members of an organization where the app is already installed
+  const authorizeGitHubApp = () => {
+    const clientId = import.meta.env.VITE_GITHUB_APP_CLIENT_ID
+    const redirectUri = `${window.location.origin}/github-callback`
+    const state = createOAuthState('app')
+    window.location.href = `https://github.com/login/oauth/authorize?client_id=${clientId}&redirect_uri=${redirectUri}&state=${state}`
+  }
+
   const fetchRepositories = async (sync = false) => {
     if (!user) return
 
@@ -91,6 +116,7 @@ const GitHubConnect: React.FC<GitHubConnectProps> = ({
 
       const data = await response.json()
       setRepositories(data.repositories)
+      if (data.rateLimit) setRateLimit(data.rateLimit)
     } catch (error: any) {
       console.error('Error fetching repositories:', error)
       setError(error.message)
@@ -108,9 +134,9 @@ const GitHubConnect: React.FC<GitHubConnectProps> = ({
     if (!confirm('Are you sure you want to disconnect your GitHub account?')) return
 
     try {
+      // Clearing the username also deletes the stored token or installation (see the github_credentials trigger)
       await updateProfile({
-        github_username: null,
-        github_access_token: null
+        github_username: null
       })
       setRepositories([])
     } catch (error: any) {
@@ -162,6 +188,11 @@ const GitHubConnect: React.FC<GitHubConnectProps> = ({
               <li>Add your Client Secret as <code className="bg-gray-200 px-1 rounded text-xs">GITHUB_CLIENT_SECRET</code></li>
               <li>Restart the development server</li>
             </ol>
+            <p className="text-sm text-gray-700 mt-3">
+              Or, to limit access to chosen repositories, create a GitHub App and set
+              <code className="bg-gray-200 px-1 rounded text-xs">VITE_GITHUB_APP_SLUG</code> and
+              <code className="bg-gray-200 px-1 rounded text-xs">VITE_GITHUB_APP_CLIENT_ID</code>.
+            </p>
           </div>
           <p className="text-sm text-gray-500">
             See the README.md file for detailed setup instructions.
@@ -191,18 +222,51 @@ const GitHubConnect: React.FC<GitHubConnectProps> = ({
             </div>
           )}
           
-          <button
-            onClick={connectGitHub}
-            className="bg-gray-900 text-white px-6 py-3 rounded-lg hover:bg-gray-800 transition-colors flex items-center space-x-2 mx-auto"
-          >
-            <Github className="h-5 w-5" />
-            <span>Connect GitHub</span>
-          </button>
+          <div className="flex flex-col items-center space-y-3">
+            {isGitHubAppConfigured && (
+              <>
+                <button
+                  onClick={installGitHubApp}
+                  className="bg-gray-900 text-white px-6 py-3 rounded-lg hover:bg-gray-800 transition-colors flex items-center space-x-2"
+                >
+                  <Github className="h-5 w-5" />
+                  <span>Install GitHub App</span>
+                </button>
+                <p className="text-xs text-gray-500 max-w-sm">
+                  Choose which repositories to grant. Organization admins can install it for the organization.
+                  Already installed?{' '}
+                  <button onClick={authorizeGitHubApp} className="text-purple-600 hover:underline">
+                    Connect to an existing installation
+                  </button>
+                </p>
+              </>
+            )}
+            {isOAuthConfigured && (
+              <button
+                onClick={connectGitHub}
+                className={isGitHubAppConfigured
+                  ? 'text-sm text-gray-600 hover:text-gray-900 transition-colors'
+                  : 'bg-gray-900 text-white px-6 py-3 rounded-lg hover:bg-gray-800 transition-colors flex items-center space-x-2'}
+              >
+                {!isGitHubAppConfigured && <Github className="h-5 w-5" />}
+                <span>{isGitHubAppConfigured ? 'Or connect with OAuth (all repositories)' : 'Connect GitHub'}</span>
+              </button>
+            )}
+          </div>
         </div>
       </div>
     )
   }
 
+  // From the latest sync, or what the last scan or sync recorded on the profile
+  const apiRateLimit = rateLimit ?? (profile.github_rate_limit && profile.github_rate_limit_reset_at
+    ? {
+        limit: profile.github_rate_limit,
+        remaining: profile.github_rate_limit_remaining ?? 0,
+        resetAt: profile.github_rate_limit_reset_at
+      }
+    : null)
+
   return (
     <div className="space-y-6">
       {/* Connected Account Info */}
@@ -218,11 +282,32 @@ const GitHubConnect: React.FC<GitHubConnectProps> = ({
               </h3>
               <p className="text-gray-600">
                 @{profile.github_username}
+                {profile.github_installation_id && (
+                  <span className="text-sm text-gray-500"> · via GitHub App</span>
+                )}
               </p>
+              {apiRateLimit && new Date(apiRateLimit.resetAt) > new Date() && (
+                <p className="text-xs text-gray-500">
+                  {apiRateLimit.remaining.toLocaleString()} of {apiRateLimit.limit.toLocaleString()} GitHub API requests left,
+                  resets at {new Date(apiRateLimit.resetAt).toLocaleTimeString()}
+                </p>
+              )}
             </div>
           </div>
           
           <div className="flex items-center space-x-2">
+            {profile.github_installation_id && githubAppSlug && (
+              <a
+                href={`https://github.com/apps/${githubAppSlug}/installations/new`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex items-center space-x-1 px-4 py-2 text-gray-600 hover:text-gray-900 transition-colors"
+                title="Change which repositories the GitHub App can access, then sync"
+              >
+                <span>Choose repositories</span>
+                <ExternalLink className="h-4 w-4" />
+              </a>
+            )}
             <button
               onClick={syncRepositories}
               disabled={syncing}
@@ -340,12 +425,25 @@ const GitHubConnect: React.FC<GitHubConnectProps> = ({
                       </div>
                     </div>
                     
-                    {onRepositorySelect && (
-                      <button className="ml-4 flex items-center space-x-2 px-3 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors">
-                        <Code className="h-4 w-4" />
-                        <span>Create Demo</span>
+                    <div className="ml-4 flex items-center space-x-2">
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation()
+                          setAutomationRepository(repo)
+                        }}
+                        className="flex items-center space-x-2 px-3 py-2 text-purple-600 border border-purple-200 rounded-lg hover:bg-purple-50 transition-colors"
+                        title="Generate demos automatically on merges and releases"
+                      >
+                        <Zap className="h-4 w-4" />
+                        <span>Automate</span>
                       </button>
-                    )}
+                      {onRepositorySelect && (
+                        <button className="flex items-center space-x-2 px-3 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors">
+                          <Code className="h-4 w-4" />
+                          <span>Create Demo</span>
+                        </button>
+                      )}
+                    </div>
                   </div>
                 </div>
               ))}
@@ -353,6 +451,13 @@ const GitHubConnect: React.FC<GitHubConnectProps> = ({
           )}
         </div>
       )}
+
+      {automationRepository && (
+        <RepositoryAutomation
+          repository={automationRepository}
+          onClose={() => setAutomationRepository(null)}
+        />
+      )}
     </div>
   )
 }
@@ -0,0 +1,254 @@
+import React, { useState, useEffect } from 'react'
+import { History, Play, Upload, CheckCircle, XCircle, Loader2, GitCompare, X } from 'lucide-react'
+import { supabase, Project, ProjectVersion } from '../lib/supabase'
+
+interface ProjectVersionsProps {
+  project: Project
+  onClose: () => void
+  onPublished: (changes: Partial<Project>) => void
+}
+
+// A render that finishes publishes itself, so publishing waits until none is running
+const hasActiveJob = async (projectId: string) => {
+  const { count, error } = await supabase
+    .from('generation_jobs')
+    .select('id', { count: 'exact', head: true })
+    .eq('project_id', projectId)
+    .in('status', ['queued', 'running', 'waiting', 'review'])
+
+  if (error) throw error
+  return (count ?? 0) > 0
+}
+
+const ProjectVersions: React.FC<ProjectVersionsProps> = ({ project, onClose, onPublished }) => {
+  const [versions, setVersions] = useState<ProjectVersion[]>([])
+  const [loading, setLoading] = useState(true)
+  const [publishing, setPublishing] = useState<string | null>(null)
+  const [compareIds, setCompareIds] = useState<string[]>([])
+  const [generating, setGenerating] = useState(false)
+
+  useEffect(() => {
+    hasActiveJob(project.id)
+      .then(setGenerating)
+      .catch(error => console.error('Error checking for running generations:', error))
+  }, [project.id])
+
+  useEffect(() => {
+    supabase
+      .from('project_versions')
+      .select('*')
+      .eq('project_id', project.id)
+      .order('version_number', { ascending: false })
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error fetching versions:', error)
+        } else {
+          setVersions(data || [])
+        }
+        setLoading(false)
+      })
+  }, [project.id])
+
+  // The project row mirrors whichever version is published
+  const publishVersion = async (version: ProjectVersion) => {
+    if (!confirm(`Publish version ${version.version_number}? Its video replaces the current one.`)) return
+
+    setPublishing(version.id)
+    try {
+      if (await hasActiveJob(project.id)) {
+        setGenerating(true)
+        alert('This project is still generating. Publish a version once it has finished.')
+        return
+      }
+
+      const changes = {
+        video_url: version.video_url || undefined,
+        thumbnail_url: version.thumbnail_url,
+        captions_vtt_url: version.captions_vtt_url,
+        captions_srt_url: version.captions_srt_url,
+        script: version.script,
+        script_provider: version.script_provider,
+        script_model: version.script_model,
+        published_version_id: version.id,
+        status: 'completed' as const
+      }
+
+      const { error } = await supabase
+        .from('projects')
+        .update({ ...changes, updated_at: new Date().toISOString() })
+        .eq('id', project.id)
+
+      if (error) throw error
+      onPublished(changes)
+    } catch (error) {
+      console.error('Error publishing version:', error)
+      alert('Failed to publish this version')
+    } finally {
+      setPublishing(null)
+    }
+  }
+
+  const toggleCompare = (versionId: string) => {
+    setCompareIds(prev => prev.includes(versionId)
+      ? prev.filter(id => id !== versionId)
+      : [...prev, versionId].slice(-2)
+    )
+  }
+
+  const describeSettings = (version: ProjectVersion) => [
+    version.form_data.voiceStyle,
+    version.form_data.includeCode && 'code',
+    version.form_data.includeFace && 'avatar',
+    version.form_data.locale
+  ].filter(Boolean).join(' · ')
+
+  // Older version on the left, so additions read left to right
+  const compared = versions
+    .filter(version => compareIds.includes(version.id))
+    .sort((a, b) => a.version_number - b.version_number)
+
+  const renderComparison = () => {
+    const [before, after] = compared
+    const segmentCount = Math.max(before.script?.segments.length || 0, after.script?.segments.length || 0)
+
+    return (
+      <div className="mt-6 border-t border-gray-200 pt-6">
+        <h3 className="font-semibold text-gray-900 mb-4">
+          Version {before.version_number} vs. version {after.version_number}
+        </h3>
+        <div className="space-y-2">
+          {Array.from({ length: segmentCount }, (_, index) => {
+            const left = before.script?.segments[index]
+            const right = after.script?.segments[index]
+            const changed = left?.text !== right?.text
+
+            return (
+              <div key={index} className="grid grid-cols-2 gap-2">
+                {[left, right].map((segment, side) => (
+                  <div
+                    key={side}
+                    className={`p-3 rounded-lg text-sm ${
+                      !segment
+                        ? 'bg-gray-50 text-gray-400 italic'
+                        : changed
+                          ? side === 0 ? 'bg-red-50 text-red-900' : 'bg-green-50 text-green-900'
+                          : 'bg-gray-50 text-gray-700'
+                    }`}
+                  >
+                    {segment ? segment.text : 'No segment'}
+                  </div>
+                ))}
+              </div>
+            )
+          })}
+        </div>
+        {(before.code_snippet !== after.code_snippet) && (
+          <p className="text-sm text-yellow-700 mt-4">The code changed between these versions.</p>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-4xl max-h-[90vh] overflow-y-auto p-6">
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center space-x-3">
+            <div className="bg-gradient-to-r from-purple-600 to-blue-600 p-2 rounded-lg">
+              <History className="h-5 w-5 text-white" />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-gray-900">Version History</h2>
+              <p className="text-sm text-gray-600">{project.title}</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 rounded-lg transition-colors"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-6 w-6 text-purple-500 animate-spin" />
+          </div>
+        ) : versions.length === 0 ? (
+          <p className="text-center text-gray-500 py-12">No versions have been generated yet.</p>
+        ) : (
+          <div className="space-y-3">
+            {versions.map(version => (
+              <div key={version.id} className="flex items-center justify-between p-4 border border-gray-200 rounded-xl">
+                <div className="flex items-center space-x-4">
+                  <input
+                    type="checkbox"
+                    checked={compareIds.includes(version.id)}
+                    onChange={() => toggleCompare(version.id)}
+                    disabled={!version.script}
+                    className="w-4 h-4 text-purple-600 border-gray-300 rounded focus:ring-purple-500"
+                    title="Select two versions to compare their scripts"
+                  />
+                  <div>
+                    <div className="flex items-center space-x-2">
+                      <span className="font-semibold text-gray-900">v{version.version_number}</span>
+                      {version.status === 'completed' && <CheckCircle className="h-4 w-4 text-green-500" />}
+                      {version.status === 'failed' && <XCircle className="h-4 w-4 text-red-500" />}
+                      {version.status === 'processing' && <Loader2 className="h-4 w-4 text-yellow-500 animate-spin" />}
+                      {version.id === project.published_version_id && (
+                        <span className="px-2 py-0.5 bg-purple-100 text-purple-700 rounded-full text-xs font-medium">
+                          Published
+                        </span>
+                      )}
+                    </div>
+                    <div className="text-sm text-gray-500">
+                      {new Date(version.created_at).toLocaleString()}
+                      {version.script_model && ` · ${version.script_model}`}
+                      {describeSettings(version) && ` · ${describeSettings(version)}`}
+                    </div>
+                  </div>
+                </div>
+
+                <div className="flex items-center space-x-2">
+                  {version.video_url && (
+                    <button
+                      onClick={() => window.open(version.video_url!, '_blank')}
+                      className="flex items-center space-x-1 px-3 py-2 text-purple-600 hover:text-purple-700 hover:bg-purple-50 rounded-lg transition-colors"
+                    >
+                      <Play className="h-4 w-4" />
+                      <span>Watch</span>
+                    </button>
+                  )}
+                  {version.status === 'completed' && version.video_url && version.id !== project.published_version_id && (
+                    <button
+                      onClick={() => publishVersion(version)}
+                      disabled={publishing !== null || generating}
+                      title={generating ? 'Wait for the running generation to finish' : undefined}
+                      className="flex items-center space-x-1 px-3 py-2 text-blue-600 hover:text-blue-700 hover:bg-blue-50 rounded-lg transition-colors disabled:opacity-50"
+                    >
+                      {publishing === version.id ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <Upload className="h-4 w-4" />
+                      )}
+                      <span>Publish</span>
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {compared.length === 2 ? renderComparison() : versions.length > 1 && (
+          <p className="flex items-center space-x-2 text-sm text-gray-500 mt-4">
+            <GitCompare className="h-4 w-4" />
+            <span>Select two versions to compare their scripts.</span>
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default ProjectVersions
@@ -0,0 +1,277 @@
+import React, { useState, useEffect } from 'react'
+import { Zap, X, Loader2, Copy, CheckCircle } from 'lucide-react'
+import { useAuth } from '../contexts/AuthContext'
+import { supabase, RepositoryAutomation as Automation } from '../lib/supabase'
+
+interface RepositoryAutomationProps {
+  repository: { id: string; full_name: string }
+  onClose: () => void
+}
+
+const WEBHOOK_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/github-webhook`
+
+const automationEvents: { value: Automation['events'][number]; label: string; description: string }[] = [
+  {
+    value: 'pull_request',
+    label: 'Merged pull requests',
+    description: 'A "What Changed" demo of the pull request diff'
+  },
+  {
+    value: 'release',
+    label: 'Published releases',
+    description: 'A demo of everything since the previous release'
+  }
+]
+
+const RepositoryAutomation: React.FC<RepositoryAutomationProps> = ({ repository, onClose }) => {
+  const { user } = useAuth()
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [copied, setCopied] = useState(false)
+  const [settings, setSettings] = useState({
+    enabled: false,
+    postToGitHub: false,
+    events: ['pull_request', 'release'] as Automation['events'],
+    paths: '',
+    voiceStyle: 'professional',
+    includeFace: false,
+    reviewScript: false
+  })
+
+  useEffect(() => {
+    supabase
+      .from('repository_automations')
+      .select('*')
+      .eq('repository_id', repository.id)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error loading automation:', error)
+        } else if (data) {
+          const automation = data as Automation
+          setSettings({
+            enabled: automation.enabled,
+            postToGitHub: automation.post_to_github,
+            events: automation.events,
+            paths: automation.paths.join('\n'),
+            voiceStyle: automation.form_data.voiceStyle || 'professional',
+            includeFace: automation.form_data.includeFace ?? false,
+            reviewScript: automation.form_data.reviewScript ?? false
+          })
+        }
+        setLoading(false)
+      })
+  }, [repository.id])
+
+  const toggleEvent = (event: Automation['events'][number]) => {
+    setSettings(prev => ({
+      ...prev,
+      events: prev.events.includes(event)
+        ? prev.events.filter(item => item !== event)
+        : [...prev.events, event]
+    }))
+  }
+
+  const saveAutomation = async () => {
+    if (!user) return
+
+    setSaving(true)
+    try {
+      const { error } = await supabase
+        .from('repository_automations')
+        .upsert({
+          repository_id: repository.id,
+          user_id: user.id,
+          enabled: settings.enabled,
+          post_to_github: settings.postToGitHub,
+          events: settings.events,
+          paths: settings.paths.split(/[\n,]/).map(path => path.trim()).filter(Boolean),
+          form_data: {
+            voiceStyle: settings.voiceStyle,
+            includeFace: settings.includeFace,
+            reviewScript: settings.reviewScript
+          }
+        }, { onConflict: 'repository_id' })
+
+      if (error) throw error
+      onClose()
+    } catch (error) {
+      console.error('Error saving automation:', error)
+      alert(`Failed to save automation: ${(error as Error).message}`)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const copyWebhookUrl = async () => {
+    await navigator.clipboard.writeText(WEBHOOK_URL)
+    setCopied(true)
+    setTimeout(() => setCopied(false), 2000)
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto p-6">
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center space-x-3">
+            <div className="bg-gradient-to-r from-purple-600 to-blue-600 p-2 rounded-lg">
+              <Zap className="h-5 w-5 text-white" />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-gray-900">Automatic Demos</h2>
+              <p className="text-sm text-gray-600">{repository.full_name}</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 rounded-lg transition-colors"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-6 w-6 text-purple-500 animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <label className="flex items-center space-x-3">
+              <input
+                type="checkbox"
+                checked={settings.enabled}
+                onChange={(e) => setSettings(prev => ({ ...prev, enabled: e.target.checked }))}
+                className="w-4 h-4 text-purple-600 border-gray-300 rounded focus:ring-purple-500"
+              />
+              <span className="font-medium text-gray-900">Generate a demo when something ships</span>
+            </label>
+
+            <div className={settings.enabled ? 'space-y-6' : 'space-y-6 opacity-50 pointer-events-none'}>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Trigger on</label>
+                <div className="space-y-2">
+                  {automationEvents.map(event => (
+                    <label key={event.value} className="flex items-start space-x-3 p-3 border border-gray-200 rounded-xl">
+                      <input
+                        type="checkbox"
+                        checked={settings.events.includes(event.value)}
+                        onChange={() => toggleEvent(event.value)}
+                        className="mt-1 w-4 h-4 text-purple-600 border-gray-300 rounded focus:ring-purple-500"
+                      />
+                      <div className="text-sm">
+                        <div className="font-medium text-gray-900">{event.label}</div>
+                        <div className="text-gray-500">{event.description}</div>
+                      </div>
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Only when these paths change</label>
+                <textarea
+                  value={settings.paths}
+                  onChange={(e) => setSettings(prev => ({ ...prev, paths: e.target.value }))}
+                  rows={3}
+                  placeholder={'src/**\npackages/api/**'}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                />
+                <p className="mt-1 text-xs text-gray-500">One glob per line. Leave empty to make a demo for any change.</p>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Voice style</label>
+                  <select
+                    value={settings.voiceStyle}
+                    onChange={(e) => setSettings(prev => ({ ...prev, voiceStyle: e.target.value }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                  >
+                    <option value="professional">Professional</option>
+                    <option value="casual">Casual</option>
+                    <option value="enthusiastic">Enthusiastic</option>
+                  </select>
+                </div>
+                <div className="space-y-2 pt-7">
+                  <label className="flex items-center space-x-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={settings.includeFace}
+                      onChange={(e) => setSettings(prev => ({ ...prev, includeFace: e.target.checked }))}
+                      className="w-4 h-4 text-purple-600 border-gray-300 rounded focus:ring-purple-500"
+                    />
+                    <span>Include AI avatar</span>
+                  </label>
+                  <label className="flex items-center space-x-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={settings.reviewScript}
+                      onChange={(e) => setSettings(prev => ({ ...prev, reviewScript: e.target.checked }))}
+                      className="w-4 h-4 text-purple-600 border-gray-300 rounded focus:ring-purple-500"
+                    />
+                    <span>Wait for my script review</span>
+                  </label>
+                </div>
+              </div>
+
+              <div className="bg-gray-50 border border-gray-200 rounded-xl p-4 text-sm text-gray-700 space-y-2">
+                <h4 className="font-medium text-gray-900">Webhook setup</h4>
+                <p>In the repository's Settings → Webhooks on GitHub, add a webhook with:</p>
+                <div className="flex items-center space-x-2">
+                  <code className="flex-1 px-2 py-1 bg-white border border-gray-200 rounded text-xs break-all">{WEBHOOK_URL}</code>
+                  <button
+                    type="button"
+                    onClick={copyWebhookUrl}
+                    className="p-1.5 text-gray-500 hover:text-gray-700 rounded transition-colors"
+                    title="Copy payload URL"
+                  >
+                    {copied ? <CheckCircle className="h-4 w-4 text-green-500" /> : <Copy className="h-4 w-4" />}
+                  </button>
+                </div>
+                <p>
+                  Content type <code>application/json</code>, the secret set as <code>GITHUB_WEBHOOK_SECRET</code>,
+                  and the "Pull requests" and "Releases" events.
+                </p>
+              </div>
+            </div>
+
+            <label className="flex items-start space-x-3 pt-2 border-t border-gray-200">
+              <input
+                type="checkbox"
+                checked={settings.postToGitHub}
+                onChange={(e) => setSettings(prev => ({ ...prev, postToGitHub: e.target.checked }))}
+                className="mt-1 w-4 h-4 text-purple-600 border-gray-300 rounded focus:ring-purple-500"
+              />
+              <div className="text-sm">
+                <div className="font-medium text-gray-900">Post finished demos to GitHub</div>
+                <div className="text-gray-500">
+                  Comment on the pull request, or add the video to the release notes, with a link and thumbnail.
+                  Applies to automatic demos and to "What Changed" demos you create yourself.
+                </div>
+              </div>
+            </label>
+
+            <div className="flex justify-end space-x-3">
+              <button
+                onClick={onClose}
+                className="px-4 py-2 text-gray-600 hover:text-gray-800 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={saveAutomation}
+                disabled={saving || (settings.enabled && settings.events.length === 0)}
+                className="flex items-center space-x-2 px-6 py-2 bg-gradient-to-r from-purple-600 to-blue-600 text-white rounded-xl hover:from-purple-700 hover:to-blue-700 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {saving && <Loader2 className="h-4 w-4 animate-spin" />}
+                <span>Save</span>
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default RepositoryAutomation
@@ -0,0 +1,186 @@
+import React, { useState, useEffect } from 'react'
+import { CheckCircle, Loader2, RefreshCw, Code } from 'lucide-react'
+import { useAuth } from '../contexts/AuthContext'
+import { supabase, DemoScript } from '../lib/supabase'
+
+interface ScriptReviewProps {
+  projectId: string
+  onApproved: () => void
+}
+
+const ScriptReview: React.FC<ScriptReviewProps> = ({ projectId, onApproved }) => {
+  const { session } = useAuth()
+  const [script, setScript] = useState<DemoScript | null>(null)
+  const [instructions, setInstructions] = useState<Record<number, string>>({})
+  const [regenerating, setRegenerating] = useState<number | null>(null)
+  const [approving, setApproving] = useState(false)
+
+  // Load the draft the script step saved on the project
+  useEffect(() => {
+    supabase
+      .from('projects')
+      .select('script')
+      .eq('id', projectId)
+      .single()
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error loading script:', error)
+          return
+        }
+        setScript(data.script as DemoScript)
+      })
+  }, [projectId])
+
+  const callReviewAction = async (body: Record<string, unknown>) => {
+    const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/process-demo`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${session?.access_token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ projectId, ...body })
+    })
+
+    const result = await response.json()
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || 'Script review request failed')
+    }
+    return result
+  }
+
+  const updateSegmentText = (index: number, text: string) => {
+    if (!script) return
+    setScript({
+      segments: script.segments.map((segment, i) =>
+        // A zero duration makes the backend re-estimate it from the edited text
+        i === index ? { ...segment, text, durationSeconds: 0 } : segment
+      )
+    })
+  }
+
+  const regenerateSegment = async (index: number) => {
+    if (!script) return
+
+    setRegenerating(index)
+    try {
+      const result = await callReviewAction({
+        action: 'regenerate_segment',
+        script,
+        segmentIndex: index,
+        instructions: instructions[index]?.trim() || undefined
+      })
+      setScript(result.script)
+      setInstructions(prev => ({ ...prev, [index]: '' }))
+    } catch (error) {
+      console.error('Error regenerating segment:', error)
+      alert(`Failed to regenerate segment: ${(error as Error).message}`)
+    } finally {
+      setRegenerating(null)
+    }
+  }
+
+  const approveScript = async () => {
+    if (!script) return
+
+    setApproving(true)
+    try {
+      await callReviewAction({ action: 'approve_script', script })
+      onApproved()
+    } catch (error) {
+      console.error('Error approving script:', error)
+      alert(`Failed to approve script: ${(error as Error).message}`)
+    } finally {
+      setApproving(false)
+    }
+  }
+
+  if (!script) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-6 w-6 text-purple-500 animate-spin" />
+      </div>
+    )
+  }
+
+  const wordCount = script.segments.reduce((sum, segment) => sum + segment.text.trim().split(/\s+/).length, 0)
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-purple-50 border border-purple-200 rounded-xl p-4">
+        <h4 className="font-medium text-purple-900 mb-1">Review your script</h4>
+        <p className="text-sm text-purple-700">
+          Edit any segment or ask the AI to rewrite it. Nothing is sent to the voice or avatar services until you approve.
+        </p>
+      </div>
+
+      {script.segments.map((segment, index) => (
+        <div key={index} className="border border-gray-200 rounded-xl p-4">
+          <div className="flex items-center justify-between mb-2">
+            <div className="flex items-center space-x-2 text-sm text-gray-600">
+              <span className="px-2 py-0.5 bg-gray-100 rounded-full text-xs font-medium uppercase">
+                {segment.sceneType}
+              </span>
+              {segment.lines && (
+                <span className="flex items-center space-x-1 text-xs">
+                  <Code className="h-3 w-3" />
+                  <span>Lines {segment.lines.start}-{segment.lines.end}</span>
+                </span>
+              )}
+            </div>
+            <span className="text-xs text-gray-500">Segment {index + 1}</span>
+          </div>
+
+          <textarea
+            value={segment.text}
+            onChange={(e) => updateSegmentText(index, e.target.value)}
+            rows={3}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+          />
+
+          <div className="flex items-center space-x-2 mt-2">
+            <input
+              type="text"
+              value={instructions[index] || ''}
+              onChange={(e) => setInstructions(prev => ({ ...prev, [index]: e.target.value }))}
+              placeholder="Optional: how should the AI change this segment?"
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+            />
+            <button
+              type="button"
+              onClick={() => regenerateSegment(index)}
+              disabled={regenerating !== null || approving}
+              className="flex items-center space-x-1 px-3 py-2 text-purple-600 hover:text-purple-700 hover:bg-purple-50 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {regenerating === index ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <RefreshCw className="h-4 w-4" />
+              )}
+              <span>Regenerate</span>
+            </button>
+          </div>
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between pt-2">
+        <span className="text-sm text-gray-500">
+          {wordCount} words, about {Math.round(wordCount / 2.5)} seconds of narration
+        </span>
+        <button
+          onClick={approveScript}
+          disabled={approving || regenerating !== null || script.segments.some(segment => !segment.text.trim())}
+          className="flex items-center space-x-2 px-6 py-3 bg-gradient-to-r from-purple-600 to-blue-600 text-white rounded-xl hover:from-purple-700 hover:to-blue-700 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {approving ? (
+            <Loader2 className="h-5 w-5 animate-spin" />
+          ) : (
+            <CheckCircle className="h-5 w-5" />
+          )}
+          <span>Approve & Render</span>
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export default ScriptReview
@@ -1,15 +1,27 @@
 import React, { useState, useRef, useEffect } from 'react'
-import { Play, Pause, Volume2, VolumeX, Maximize, RotateCcw, Share2, Download } from 'lucide-react'
+import { Play, Pause, Volume2, VolumeX, Maximize, RotateCcw, Share2, Download, Captions, FileText } from 'lucide-react'
 import { AnalyticsService } from '../lib/analytics'
+import { storageDownloadUrl } from '../lib/supabase'
 
 interface VideoPlayerProps {
   videoUrl: string
   projectId: string
   title: string
+  captionsUrl?: string | null
+  captionsSrtUrl?: string | null
+  captionsLocale?: string
   onShare?: () => void
 }
 
-const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoUrl, projectId, title, onShare }) => {
+const VideoPlayer: React.FC<VideoPlayerProps> = ({
+  videoUrl,
+  projectId,
+  title,
+  captionsUrl,
+  captionsSrtUrl,
+  captionsLocale = 'en',
+  onShare
+}) => {
   const videoRef = useRef<HTMLVideoElement>(null)
   const [isPlaying, setIsPlaying] = useState(false)
   const [isMuted, setIsMuted] = useState(false)
@@ -17,6 +29,7 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoUrl, projectId, title, o
   const [duration, setDuration] = useState(0)
   const [isFullscreen, setIsFullscreen] = useState(false)
   const [hasTrackedView, setHasTrackedView] = useState(false)
+  const [showCaptions, setShowCaptions] = useState(true)
 
   useEffect(() => {
     const video = videoRef.current
@@ -58,6 +71,14 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoUrl, projectId, title, o
     }
   }, [projectId, hasTrackedView])
 
+  // The browser picks the track's default mode, so set it whenever the toggle or the file changes
+  useEffect(() => {
+    const track = videoRef.current?.textTracks[0]
+    if (track) {
+      track.mode = showCaptions ? 'showing' : 'hidden'
+    }
+  }, [showCaptions, captionsUrl])
+
   const togglePlay = () => {
     const video = videoRef.current
     if (!video) return
@@ -148,11 +169,23 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoUrl, projectId, title, o
       <video
         ref={videoRef}
         src={videoUrl}
+        // Cross-origin captions need a CORS request, which hosts without CORS headers (Tavus) refuse
+        crossOrigin={captionsUrl ? 'anonymous' : undefined}
         className="w-full aspect-video"
         onPlay={() => setIsPlaying(true)}
         onPause={() => setIsPlaying(false)}
         onClick={togglePlay}
-      />
+      >
+        {captionsUrl && (
+          <track
+            kind="captions"
+            src={captionsUrl}
+            srcLang={captionsLocale}
+            label="Captions"
+            default
+          />
+        )}
+      </video>
       
       {/* Controls Overlay */}
       <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/80 to-transparent p-4">
@@ -209,6 +242,18 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoUrl, projectId, title, o
           </div>
           
           <div className="flex items-center space-x-2">
+            {captionsUrl && (
+              <button
+                onClick={() => setShowCaptions(!showCaptions)}
+                className={`flex items-center justify-center w-8 h-8 rounded-full transition-colors ${
+                  showCaptions ? 'bg-purple-500/80 hover:bg-purple-500' : 'bg-white/20 hover:bg-white/30'
+                }`}
+                title={showCaptions ? 'Hide captions' : 'Show captions'}
+              >
+                <Captions className="h-4 w-4 text-white" />
+              </button>
+            )}
+
             <button
               onClick={handleShare}
               className="flex items-center justify-center w-8 h-8 bg-white/20 hover:bg-white/30 rounded-full transition-colors"
@@ -217,12 +262,23 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoUrl, projectId, title, o
             </button>
             
             <a
-              href={videoUrl}
+              href={storageDownloadUrl(videoUrl, `${title}.mp4`)}
               download={`${title}.mp4`}
               className="flex items-center justify-center w-8 h-8 bg-white/20 hover:bg-white/30 rounded-full transition-colors"
             >
               <Download className="h-4 w-4 text-white" />
             </a>
+
+            {captionsSrtUrl && (
+              <a
+                href={storageDownloadUrl(captionsSrtUrl, `${title}.srt`)}
+                download={`${title}.srt`}
+                className="flex items-center justify-center w-8 h-8 bg-white/20 hover:bg-white/30 rounded-full transition-colors"
+                title="Download captions (SRT)"
+              >
+                <FileText className="h-4 w-4 text-white" />
+              </a>
+            )}
             
             <button
               onClick={toggleFullscreen}
@@ -9,6 +9,15 @@ if (!supabaseUrl || !supabaseAnonKey) {
 
 export const supabase = createClient(supabaseUrl, supabaseAnonKey)
 
+// Browsers ignore the download attribute on cross-origin links; Supabase Storage
+// sends the file as an attachment with this name when asked with ?download=
+export const storageDownloadUrl = (url: string, fileName: string) => {
+  if (!url.includes('/storage/v1/object/')) return url
+  const downloadUrl = new URL(url)
+  downloadUrl.searchParams.set('download', fileName)
+  return downloadUrl.toString()
+}
+
 // Database types
 export interface Profile {
   id: string
@@ -17,11 +26,27 @@ export interface Profile {
   avatar_url?: string
   subscription_tier: 'free' | 'professional' | 'enterprise'
   github_username?: string
-  github_access_token?: string
+  // Set by github-auth when GitHub is connected through a GitHub App installation rather than OAuth; display only
+  github_installation_id?: number | null
+  // The GitHub API rate limit reported on the latest scan or repository sync
+  github_rate_limit?: number | null
+  github_rate_limit_remaining?: number | null
+  github_rate_limit_reset_at?: string | null
   created_at: string
   updated_at: string
 }
 
+export interface ScriptSegment {
+  text: string
+  sceneType: 'intro' | 'code' | 'summary'
+  lines: { start: number; end: number } | null
+  durationSeconds: number
+}
+
+export interface DemoScript {
+  segments: ScriptSegment[]
+}
+
 export interface Project {
   id: string
   user_id: string
@@ -29,7 +54,106 @@ export interface Project {
   description?: string
   code_snippet: string
   video_url?: string
-  status: 'draft' | 'processing' | 'completed' | 'failed'
+  thumbnail_url?: string | null
+  captions_vtt_url?: string | null
+  captions_srt_url?: string | null
+  script?: DemoScript | null
+  script_provider?: string | null
+  script_model?: string | null
+  locale?: string
+  project_renditions?: ProjectRendition[]
+  published_version_id?: string | null
+  // Set for demos made from a GitHub repository: the ref chosen and the commit it resolved to
+  repository_id?: string | null
+  source_ref?: string | null
+  source_sha?: string | null
+  // The monorepo package the demo was scoped to, relative to the repository root
+  source_path?: string | null
+  // "What changed" demos: where the diff starts, and the pull request or compare page
+  source_base_sha?: string | null
+  source_url?: string | null
+  // The pull request comment or release the finished demo was posted to
+  github_post_url?: string | null
+  status: 'draft' | 'processing' | 'review' | 'completed' | 'failed'
+  created_at: string
+  updated_at: string
+}
+
+// One localized version of a project's video
+export interface ProjectRendition {
+  id: string
+  project_id: string
+  locale: string
+  status: 'processing' | 'completed' | 'failed'
+  script?: DemoScript | null
+  video_url?: string | null
+  captions_vtt_url?: string | null
+  captions_srt_url?: string | null
+  created_at: string
+  updated_at: string
+}
+
+// One generation run of a project: the inputs it ran with and what it produced
+export interface ProjectVersion {
+  id: string
+  project_id: string
+  version_number: number
+  form_data: {
+    voiceStyle?: string
+    demoType?: string
+    includeCode?: boolean
+    includeFace?: boolean
+    locale?: string
+    [key: string]: unknown
+  }
+  code_snippet?: string | null
+  script?: DemoScript | null
+  script_provider?: string | null
+  script_model?: string | null
+  video_url?: string | null
+  thumbnail_url?: string | null
+  captions_vtt_url?: string | null
+  captions_srt_url?: string | null
+  status: 'processing' | 'completed' | 'failed'
+  created_at: string
+  updated_at: string
+}
+
+export type GenerationStep = 'script' | 'voice' | 'face' | 'combine'
+
+export interface GenerationStepProgress {
+  status: 'pending' | 'processing' | 'completed' | 'error'
+  message?: string
+  updatedAt: string
+}
+
+export interface GenerationJob {
+  id: string
+  project_id: string
+  user_id: string
+  locale: string
+  version_id?: string | null
+  status: 'queued' | 'running' | 'waiting' | 'review' | 'completed' | 'failed'
+  current_step: GenerationStep | 'done'
+  progress: Partial<Record<GenerationStep, GenerationStepProgress>>
+  attempts: number
+  max_attempts: number
+  last_error?: string | null
+  created_at: string
+  updated_at: string
+  completed_at?: string | null
+}
+
+export interface Voice {
+  id: string
+  user_id?: string | null
+  name: string
+  engine: 'elevenlabs' | 'local'
+  voice_id: string
+  gender: 'female' | 'male' | 'neutral'
+  // Language codes the voice can speak; null when it speaks every supported language
+  locales?: string[] | null
+  description?: string | null
   created_at: string
   updated_at: string
 }
@@ -60,4 +184,25 @@ export interface Repository {
   created_at: string
   updated_at: string
   synced_at: string
+}
+
+// Which GitHub events make a demo for a repository, and the settings it's made with
+export interface RepositoryAutomation {
+  id: string
+  repository_id: string
+  user_id: string
+  enabled: boolean
+  events: ('release' | 'pull_request')[]
+  paths: string[]
+  // Comment on the pull request or append to the release notes when its demo is ready
+  post_to_github: boolean
+  form_data: {
+    voiceStyle?: string
+    locale?: string
+    includeCode?: boolean
+    includeFace?: boolean
+    reviewScript?: boolean
+  }
+  created_at: string
+  updated_at: string
 }
\ No newline at end of file
@@ -0,0 +1,611 @@
+// Lightweight structural parsing of scanned source files. For JavaScript,
+// TypeScript, Python and Go it finds top-level symbols (functions, classes,
+// components and HTTP routes) with their line ranges, and resolves imports
+// into a graph between the repository's own files. From that graph come the
+// entry points and the hot paths a demo should walk through. Other languages
+// get no symbols, only whatever the file-name heuristics say.
+
+export type SymbolKind = 'function' | 'class' | 'component' | 'route'
+
+export interface CodeSymbol {
+  // "GET /users/:id" for routes, "Type.Method" for Go methods
+  name: string
+  kind: SymbolKind
+  exported: boolean
+  // 1-based and inclusive
+  startLine: number
+  endLine: number
+  signature: string
+}
+
+export interface SourceFile {
+  path: string
+  content: string
+  language: string
+}
+
+export interface FileStructure {
+  path: string
+  symbols: CodeSymbol[]
+  // Repository paths this file imports, resolved to files where possible
+  imports: string[]
+  // Third-party packages and modules this file imports
+  packages: string[]
+  // Scanned files that import this one
+  importedBy: string[]
+  entryPoint: boolean
+}
+
+export interface CodeStructure {
+  files: FileStructure[]
+  entryPoints: string[]
+  // Chains of imports from an entry point through the most depended-on files
+  hotPaths: string[][]
+  frameworks: string[]
+  counts: Record<SymbolKind, number>
+}
+
+interface ParsedFile {
+  symbols: CodeSymbol[]
+  specifiers: string[]
+}
+
+const SCRIPT_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.vue', '.svelte']
+const MAX_HOT_PATHS = 3
+const MAX_HOT_PATH_LENGTH = 4
+const MAX_SIGNATURE_LENGTH = 120
+const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete', 'head', 'options', 'all']
+
+// Package (or module path fragment) to the framework or service it signals
+const FRAMEWORK_PACKAGES: [string, string][] = [
+  ['next', 'Next.js'],
+  ['react', 'React'],
+  ['react-router', 'React Router'],
+  ['vue', 'Vue.js'],
+  ['@angular/core', 'Angular'],
+  ['svelte', 'Svelte'],
+  ['express', 'Express'],
+  ['fastify', 'Fastify'],
+  ['koa', 'Koa'],
+  ['hono', 'Hono'],
+  ['@nestjs/core', 'NestJS'],
+  ['@supabase/supabase-js', 'Supabase'],
+  ['@prisma/client', 'Prisma'],
+  ['drizzle-orm', 'Drizzle ORM'],
+  ['typeorm', 'TypeORM'],
+  ['sequelize', 'Sequelize'],
+  ['mongoose', 'MongoDB'],
+  ['graphql', 'GraphQL'],
+  ['@apollo/client', 'GraphQL'],
+  ['@reduxjs/toolkit', 'Redux'],
+  ['redux', 'Redux'],
+  ['zustand', 'Zustand'],
+  ['flask', 'Flask'],
+  ['fastapi', 'FastAPI'],
+  ['django', 'Django'],
+  ['sqlalchemy', 'SQLAlchemy'],
+  ['github.com/gin-gonic/gin', 'Gin'],
+  ['github.com/labstack/echo', 'Echo'],
+  ['github.com/gofiber/fiber', 'Fiber'],
+  ['github.com/go-chi/chi', 'chi'],
+  ['github.com/gorilla/mux', 'Gorilla'],
+]
+
+export function analyzeCodeStructure(files: SourceFile[], repositoryPaths: Iterable<string>): CodeStructure {
+  const knownPaths = new Set(repositoryPaths)
+  files.forEach(file => knownPaths.add(file.path))
+  const scannedPaths = new Set(files.map(file => file.path))
+
+  // Go imports name a package directory; any file in it stands for the package
+  const goPackages = new Map<string, string>()
+  for (const path of knownPaths) {
+    const directory = path.slice(0, Math.max(0, path.lastIndexOf('/')))
+    if (path.endsWith('.go') && !path.endsWith('_test.go') && (!goPackages.has(directory) || scannedPaths.has(path))) {
+      goPackages.set(directory, path)
+    }
+  }
+
+  const structures: FileStructure[] = files.map(file => {
+    const parsed = parseFile(file)
+    const imports = new Set<string>()
+    const packages = new Set<string>()
+
+    for (const specifier of parsed.specifiers) {
+      const resolved = resolveImport(file, specifier, knownPaths, goPackages)
+      if (resolved === null) {
+        const name = packageName(file.language, specifier)
+        if (name) packages.add(name)
+      } else if (resolved && resolved !== file.path) {
+        imports.add(resolved)
+      }
+    }
+
+    return {
+      path: file.path,
+      symbols: parsed.symbols,
+      imports: [...imports].sort(),
+      packages: [...packages].sort(),
+      importedBy: [],
+      entryPoint: false
+    }
+  })
+
+  const byPath = new Map(structures.map(structure => [structure.path, structure]))
+  for (const structure of structures) {
+    for (const target of structure.imports) {
+      byPath.get(target)?.importedBy.push(structure.path)
+    }
+  }
+
+  files.forEach((file, index) => {
+    structures[index].entryPoint = isEntryPoint(file)
+  })
+
+  // Without a recognisable entry point, the roots of the import graph stand in for them
+  if (!structures.some(structure => structure.entryPoint)) {
+    structures
+      .filter(structure => structure.importedBy.length === 0 && structure.imports.some(path => scannedPaths.has(path)))
+      .sort((a, b) => b.imports.length - a.imports.length)
+      .slice(0, MAX_HOT_PATHS)
+      .forEach(structure => { structure.entryPoint = true })
+  }
+
+  const entryPoints = structures
+    .filter(structure => structure.entryPoint)
+    .sort((a, b) => reach(b, byPath) - reach(a, byPath))
+    .map(structure => structure.path)
+
+  const packages = new Set(structures.flatMap(structure => structure.packages))
+  const frameworks = [...new Set(FRAMEWORK_PACKAGES
+    .filter(([pkg]) => [...packages].some(name => name === pkg || name.startsWith(`${pkg}/`)))
+    .map(([, label]) => label))]
+
+  const counts: Record<SymbolKind, number> = { function: 0, class: 0, component: 0, route: 0 }
+  structures.forEach(structure => structure.symbols.forEach(symbol => { counts[symbol.kind]++ }))
+
+  return {
+    files: structures,
+    entryPoints,
+    hotPaths: entryPoints.slice(0, MAX_HOT_PATHS).map(path => hotPath(path, byPath)).filter(path => path.length > 1),
+    frameworks,
+    counts
+  }
+}
+
+// How many scanned files are reachable from this one through imports
+function reach(start: FileStructure, byPath: Map<string, FileStructure>): number {
+  const seen = new Set([start.path])
+  const queue = [start]
+  while (queue.length > 0) {
+    for (const target of queue.shift()!.imports) {
+      const next = byPath.get(target)
+      if (next && !seen.has(target)) {
+        seen.add(target)
+        queue.push(next)
+      }
+    }
+  }
+  return seen.size - 1
+}
+
+// Follow the import everything else leans on most, until the chain runs out or loops
+function hotPath(start: string, byPath: Map<string, FileStructure>): string[] {
+  const path = [start]
+  let current = byPath.get(start)
+  while (current && path.length < MAX_HOT_PATH_LENGTH) {
+    const next = current.imports
+      .map(target => byPath.get(target))
+      .filter((candidate): candidate is FileStructure => !!candidate && !path.includes(candidate.path))
+      .sort((a, b) => b.importedBy.length - a.importedBy.length || b.symbols.length - a.symbols.length)[0]
+    if (!next) break
+    path.push(next.path)
+    current = next
+  }
+  return path
+}
+
+function isEntryPoint(file: SourceFile): boolean {
+  const { path, content } = file
+  const segments = path.split('/')
+  const fileName = segments[segments.length - 1]
+
+  if (/\bDeno\.serve\(|\.listen\(|\bcreateRoot\(|ReactDOM\.render\(|\bcreateApp\(|\bnew Vue\(|\buvicorn\.run\(|\bapp\.run\(/.test(content)) return true
+  if (/^#!.*\b(node|deno|bun|python3?)\b/.test(content)) return true
+  if (/^if __name__ == ['"]__main__['"]:/m.test(content)) return true
+  if (file.language === 'Go' && /^package main\b/m.test(content) && /^func main\(\)/m.test(content)) return true
+
+  // File-based routing: every page and route handler is reached from outside the import graph
+  if (/(^|\/)pages\/.+\.[jt]sx?$/.test(path) || /(^|\/)app\/(.+\/)?(page|route)\.[jt]sx?$/.test(path)) return true
+
+  // Conventional entry file names, at the root or one directory down (src/, bin/)
+  return segments.length <= 2 && /^(main|index|app|server|cli|__main__|manage|wsgi|asgi)\.(m?[jt]sx?|py|go)$/.test(fileName)
+}
+
+function parseFile(file: SourceFile): ParsedFile {
+  switch (file.language) {
+    case 'JavaScript':
+    case 'TypeScript':
+      return parseScript(file.path, file.content)
+    case 'Vue':
+    case 'Svelte':
+      return parseSingleFileComponent(file.path, file.content)
+    case 'Python':
+      return parsePython(file.content)
+    case 'Go':
+      return parseGo(file.content)
+    default:
+      return { symbols: [], specifiers: [] }
+  }
+}
+
+function signatureOf(line: string): string {
+  const trimmed = line.trim()
+  return trimmed.length > MAX_SIGNATURE_LENGTH ? `${trimmed.slice(0, MAX_SIGNATURE_LENGTH - 1)}…` : trimmed
+}
+
+// Bracket depth at the start of each line, skipping strings, regex literals and
+// comments. Good enough for C-like syntax without a real tokenizer.
+function lineDepths(lines: string[]): number[] {
+  const depths: number[] = []
+  let depth = 0
+  let inBlockComment = false
+  let inTemplate = false
+
+  for (const line of lines) {
+    depths.push(depth)
+    let quote: string | null = null
+    // A slash after an operator or at the start of an expression opens a regex, not a division
+    let previous = ''
+
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i]
+      const next = line[i + 1]
+
+      if (!inBlockComment && !inTemplate && !quote && char === '/' && next !== '/' && next !== '*'
+        && (previous === '' || '(,=:[!&|?{};+-*%<>~^'.includes(previous) || /\b(return|typeof|case)$/.test(line.slice(0, i).trimEnd()))) {
+        i = skipRegexLiteral(line, i)
+        previous = '/'
+        continue
+      }
+      if (!inBlockComment && !inTemplate && !quote && !/\s/.test(char)) previous = char
+
+      if (inBlockComment) {
+        if (char === '*' && next === '/') {
+          inBlockComment = false
+          i++
+        }
+      } else if (inTemplate) {
+        if (char === '\\') i++
+        else if (char === '`') inTemplate = false
+      } else if (quote) {
+        if (char === '\\') i++
+        else if (char === quote) quote = null
+      } else if (char === '/' && next === '/') {
+        break
+      } else if (char === '/' && next === '*') {
+        inBlockComment = true
+        i++
+      } else if (char === '`') {
+        inTemplate = true
+      } else if (char === '"' || char === '\'') {
+        quote = char
+      } else if (char === '(' || char === '{' || char === '[') {
+        depth++
+      } else if (char === ')' || char === '}' || char === ']') {
+        depth = Math.max(0, depth - 1)
+      }
+    }
+  }
+
+  return depths
+}
+
+// Index of the slash closing the regex literal that opens at `start`
+function skipRegexLiteral(line: string, start: number): number {
+  let inClass = false
+  for (let i = start + 1; i < line.length; i++) {
+    const char = line[i]
+    if (char === '\\') i++
+    else if (char === '[') inClass = true
+    else if (char === ']') inClass = false
+    else if (char === '/' && !inClass) return i
+  }
+  return line.length
+}
+
+// The last line of the statement starting at `start` (0-based): the line before
+// the next one back at the same depth that doesn't continue it
+function statementEnd(lines: string[], depths: number[], start: number): number {
+  let end = start
+  for (let i = start + 1; i < lines.length; i++) {
+    const trimmed = lines[i].trim()
+    if (!trimmed) continue
+    if (depths[i] <= depths[start] && !/^([.?:+\-|&=]|=>)/.test(trimmed)) break
+    end = i
+  }
+  return end
+}
+
+function isPascalCase(name: string): boolean {
+  return /^[A-Z][A-Za-z0-9]*$/.test(name) && /[a-z]/.test(name)
+}
+
+function parseScript(path: string, content: string, lineOffset = 0): ParsedFile {
+  const lines = content.split('\n')
+  const depths = lineDepths(lines)
+  const isJsx = /\.[jt]sx$/.test(path)
+  const symbols: CodeSymbol[] = []
+  const exportedNames = new Set<string>()
+
+  for (const match of content.matchAll(/^export\s+default\s+([A-Za-z_$][\w$]*)\s*;?\s*$/gm)) exportedNames.add(match[1])
+  for (const match of content.matchAll(/^export\s*\{([^}]*)\}/gm)) {
+    match[1].split(',').forEach(part => {
+      const name = part.trim().split(/\s+as\s+/)[0].trim()
+      if (name) exportedNames.add(name)
+    })
+  }
+  const commonJsExport = content.match(/^module\.exports\s*=\s*(\{([^}]*)\}|[A-Za-z_$][\w$]*)/m)
+  if (commonJsExport) {
+    (commonJsExport[2] ?? commonJsExport[1]).split(',').forEach(part => {
+      const name = part.trim().split(':')[0].trim()
+      if (name) exportedNames.add(name)
+    })
+  }
+  for (const match of content.matchAll(/^exports\.([A-Za-z_$][\w$]*)\s*=/gm)) exportedNames.add(match[1])
+
+  const routeBase = appRouterPath(path)
+
+  lines.forEach((line, index) => {
+    const addSymbol = (name: string, kind: SymbolKind, exported: boolean, base = index) => {
+      symbols.push({
+        name,
+        kind,
+        exported,
+        startLine: lineOffset + index + 1,
+        endLine: lineOffset + statementEnd(lines, depths, base) + 1,
+        signature: signatureOf(line)
+      })
+    }
+
+    // Express-style route registrations, wherever they're nested
+    const route = line.match(/\b(?:app|router|server|api|route[rs]?)\.(get|post|put|patch|delete|head|options|all)\(\s*['"`](\/[^'"`]*)['"`]/i)
+    if (route) {
+      addSymbol(`${route[1].toUpperCase()} ${route[2]}`, 'route', true)
+      return
+    }
+
+    if (depths[index] !== 0) return
+
+    const declaration = line.match(/^(export\s+)?(default\s+)?(?:async\s+)?function\s*\*?\s*([A-Za-z_$][\w$]*)\s*[(<]/)
+      ?? line.match(/^(export\s+)?(default\s+)?(?:declare\s+)?(?:abstract\s+)?class\s+([A-Za-z_$][\w$]*)/)
+      ?? line.match(/^(export\s+)?()(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*(?::[^=]+)?=\s*(?:async\s+)?(?:\(|[A-Za-z_$][\w$]*\s*=>|function\b|(?:React\.)?(?:memo|forwardRef)\()/)
+    if (!declaration) return
+
+    const name = declaration[3]
+    const exported = !!declaration[1] || exportedNames.has(name)
+    const isClass = /\bclass\s/.test(line)
+
+    if (routeBase !== null && HTTP_METHODS.includes(name.toLowerCase()) && name === name.toUpperCase()) {
+      addSymbol(`${name} ${routeBase}`, 'route', exported)
+    } else if (isPascalCase(name) && (isJsx || /extends\s+(React\.)?(Pure)?Component\b/.test(line))) {
+      addSymbol(name, 'component', exported)
+    } else {
+      addSymbol(name, isClass ? 'class' : 'function', exported)
+    }
+  })
+
+  const specifiers = [
+    ...[...content.matchAll(/^\s*(?:import|export)\b[^'"`;]*?\bfrom\s*['"]([^'"]+)['"]/gm)].map(match => match[1]),
+    ...[...content.matchAll(/^\s*import\s*['"]([^'"]+)['"]/gm)].map(match => match[1]),
+    ...[...content.matchAll(/\b(?:require|import)\(\s*['"]([^'"]+)['"]\s*\)/g)].map(match => match[1]),
+  ]
+
+  return { symbols, specifiers }
+}
+
+// Next.js app router: app/api/users/[id]/route.ts serves /api/users/[id]
+function appRouterPath(path: string): string | null {
+  const match = path.match(/(?:^|\/)app\/(.*?)\/?route\.[jt]s$/)
+  if (!match) return null
+  const segments = match[1].split('/').filter(segment => segment && !/^\(.*\)$/.test(segment))
+  return `/${segments.join('/')}`
+}
+
+// A .vue or .svelte file is a component; its <script> block is parsed like any script
+function parseSingleFileComponent(path: string, content: string): ParsedFile {
+  const script = content.match(/<script[^>]*>([\s\S]*?)<\/script>/)
+  const scriptOffset = script ? content.slice(0, script.index! + script[0].indexOf('>') + 1).split('\n').length - 1 : 0
+  const parsed = script ? parseScript(path, script[1], scriptOffset) : { symbols: [], specifiers: [] }
+  const name = (path.split('/').pop() || path).replace(/\.(vue|svelte)$/, '')
+
+  return {
+    symbols: [
+      {
+        name,
+        kind: 'component',
+        exported: true,
+        startLine: 1,
+        endLine: content.split('\n').length,
+        signature: `<${name}>`
+      },
+      ...parsed.symbols.filter(symbol => symbol.kind === 'route')
+    ],
+    specifiers: parsed.specifiers
+  }
+}
+
+function parsePython(content: string): ParsedFile {
+  const lines = content.split('\n')
+  const symbols: CodeSymbol[] = []
+  const allNames = content.match(/^__all__\s*=\s*[[(]([^\])]*)[\])]/m)?.[1]
+  const exportedNames = allNames ? new Set([...allNames.matchAll(/['"](\w+)['"]/g)].map(match => match[1])) : null
+
+  const blockEnd = (start: number) => {
+    let end = start
+    for (let i = start + 1; i < lines.length; i++) {
+      const line = lines[i]
+      if (!line.trim() || line.trimStart().startsWith('#')) continue
+      if (!/^\s/.test(line) && !/^[)\]}]/.test(line)) break
+      end = i
+    }
+    return end
+  }
+
+  lines.forEach((line, index) => {
+    const declaration = line.match(/^(?:async\s+)?def\s+([A-Za-z_]\w*)/) ?? line.match(/^class\s+([A-Za-z_]\w*)/)
+    if (!declaration) return
+
+    // Decorators belong to the function, and route decorators make it a route
+    let start = index
+    while (start > 0 && lines[start - 1].startsWith('@')) start--
+    const decorators = lines.slice(start, index)
+    const name = declaration[1]
+    const exported = exportedNames ? exportedNames.has(name) : !name.startsWith('_')
+    const base = {
+      exported,
+      startLine: start + 1,
+      endLine: blockEnd(index) + 1,
+      signature: signatureOf(line)
+    }
+
+    const route = decorators
+      .map(decorator => decorator.match(/^@\w+\.(get|post|put|patch|delete|route|api_route)\(\s*['"]([^'"]+)['"](.*)/))
+      .find(Boolean)
+    if (route) {
+      const method = route[1] === 'route' || route[1] === 'api_route'
+        ? (route[3].match(/methods\s*=\s*[[(]\s*['"](\w+)['"]/)?.[1] ?? 'GET').toUpperCase()
+        : route[1].toUpperCase()
+      symbols.push({ ...base, name: `${method} ${route[2]}`, kind: 'route', exported: true })
+      return
+    }
+
+    symbols.push({ ...base, name, kind: line.startsWith('class') ? 'class' : 'function' })
+  })
+
+  const specifiers = [
+    ...[...content.matchAll(/^from\s+(\.*[\w.]*)\s+import\b/gm)].map(match => match[1]),
+    ...[...content.matchAll(/^import\s+([\w.]+(?:\s*,\s*[\w.]+)*)/gm)].flatMap(match => match[1].split(',').map(name => name.trim())),
+  ]
+
+  return { symbols, specifiers }
+}
+
+function parseGo(content: string): ParsedFile {
+  const lines = content.split('\n')
+  const depths = lineDepths(lines)
+  const symbols: CodeSymbol[] = []
+
+  lines.forEach((line, index) => {
+    const addSymbol = (name: string, kind: SymbolKind, exported: boolean) => {
+      symbols.push({
+        name,
+        kind,
+        exported,
+        startLine: index + 1,
+        endLine: statementEnd(lines, depths, index) + 1,
+        signature: signatureOf(line)
+      })
+    }
+
+    const route = line.match(/\.(HandleFunc|Handle|GET|POST|PUT|PATCH|DELETE|Get|Post|Put|Patch|Delete)\(\s*"(\/[^"]*)"/)
+    if (route) {
+      const method = /^Handle/.test(route[1]) ? 'ANY' : route[1].toUpperCase()
+      addSymbol(`${method} ${route[2]}`, 'route', true)
+      return
+    }
+
+    if (depths[index] !== 0) return
+
+    const func = line.match(/^func\s+(?:\(\s*(?:\w+\s+)?\*?(\w+)[^)]*\)\s*)?([A-Za-z_]\w*)\s*[([]/)
+    if (func) {
+      addSymbol(func[1] ? `${func[1]}.${func[2]}` : func[2], 'function', /^[A-Z]/.test(func[2]))
+      return
+    }
+
+    const type = line.match(/^type\s+([A-Za-z_]\w*)(?:\[[^\]]*\])?\s+(struct|interface)\b/)
+    if (type) addSymbol(type[1], 'class', /^[A-Z]/.test(type[1]))
+  })
+
+  const importBlock = content.match(/^import\s*\(([\s\S]*?)^\)/m)?.[1] ?? ''
+  const specifiers = [
+    ...[...importBlock.matchAll(/"([^"]+)"/g)].map(match => match[1]),
+    ...[...content.matchAll(/^import\s+(?:\w+\s+)?"([^"]+)"/gm)].map(match => match[1]),
+  ]
+
+  return { symbols, specifiers }
+}
+
+// A repository path for an import of the repository's own code, undefined for
+// one that looks local but isn't among the files, null for a package
+function resolveImport(
+  file: SourceFile,
+  specifier: string,
+  knownPaths: Set<string>,
+  goPackages: Map<string, string>
+): string | null | undefined {
+  const directory = file.path.includes('/') ? file.path.slice(0, file.path.lastIndexOf('/')) : ''
+
+  if (file.language === 'Python') {
+    const dots = specifier.match(/^\.*/)![0].length
+    const modulePath = specifier.slice(dots).replace(/\./g, '/')
+    const bases = dots > 0
+      ? [directory.split('/').slice(0, Math.max(0, directory.split('/').length - (dots - 1))).join('/')]
+      : ['', 'src']
+    for (const base of bases) {
+      const stem = [base, modulePath].filter(Boolean).join('/')
+      for (const candidate of [`${stem}.py`, `${stem}/__init__.py`]) {
+        if (knownPaths.has(candidate)) return candidate
+      }
+    }
+    return dots > 0 ? undefined : null
+  }
+
+  if (file.language === 'Go') {
+    // Module-internal imports end in a directory of the repository
+    const segments = specifier.split('/')
+    for (let i = 1; i < segments.length; i++) {
+      const match = goPackages.get(segments.slice(i).join('/'))
+      if (match) return match
+    }
+    return null
+  }
+
+  let target: string
+  if (specifier.startsWith('.')) {
+    target = normalizePath(`${directory}/${specifier}`)
+  } else if (/^[@~]\//.test(specifier)) {
+    // The common "@/..." and "~/..." aliases for src/
+    target = `src/${specifier.slice(2)}`
+  } else if (specifier.startsWith('/')) {
+    target = specifier.slice(1)
+  } else {
+    return null
+  }
+
+  // TypeScript ESM imports name the compiled .js file
+  const stem = target.replace(/\.(m?js|cjs)$/, '')
+  const candidates = [target, ...SCRIPT_EXTENSIONS.map(ext => `${stem}${ext}`), ...SCRIPT_EXTENSIONS.map(ext => `${target}/index${ext}`)]
+  return candidates.find(candidate => knownPaths.has(candidate))
+}
+
+function normalizePath(path: string): string {
+  const parts: string[] = []
+  for (const part of path.split('/')) {
+    if (!part || part === '.') continue
+    if (part === '..') parts.pop()
+    else parts.push(part)
+  }
+  return parts.join('/')
+}
+
+function packageName(language: string, specifier: string): string | null {
+  if (language === 'Python') return specifier.split('.')[0] || null
+  if (language === 'Go') return specifier
+
+  // Deno's npm: and jsr: specifiers carry a version; URLs aren't packages we can name
+  const bare = specifier.replace(/^(npm|jsr|node):/, '')
+  if (/^[a-z]+:/i.test(bare)) return null
+  const parts = bare.split('/')
+  const name = bare.startsWith('@') ? parts.slice(0, 2).join('/') : parts[0]
+  return name.replace(/(.)@[^/]*$/, '$1') || null
+}
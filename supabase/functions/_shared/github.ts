@@ -0,0 +1,340 @@
+// Shared GitHub REST access for edge functions. githubRequest adds the auth
+// and API headers and records the rate limit each response reports, and
+// githubConditionalRequest revalidates an ETag; fetchChangeSet loads a pull request or a commit range as
+// a list of patches, and formatChangeSetSnippet turns one into the unified
+// diff a "what changed" demo is narrated from. The glob helpers back both
+// the scan's path filters and the webhook's per-repository path rules.
+
+export type GitHubLogger = (step: string, message: string, data?: unknown) => void
+
+// Thrown for non-OK API responses so callers can tell a missing ref from an outage
+export class GitHubAPIError extends Error {
+  status: number
+
+  constructor(message: string, status: number) {
+    super(message)
+    this.name = 'GitHubAPIError'
+    this.status = status
+  }
+}
+
+// The x-ratelimit-* headers of the latest response for a token
+export interface GitHubRateLimit {
+  limit: number
+  remaining: number
+  resetAt: string
+  resource: string
+}
+
+export interface ChangedFile {
+  path: string
+  previousPath?: string
+  status: 'added' | 'removed' | 'modified' | 'renamed' | 'copied' | 'changed' | 'unchanged'
+  additions: number
+  deletions: number
+  // Missing for binary files and diffs GitHub considers too large to show
+  patch?: string
+}
+
+export interface ChangeSet {
+  kind: 'pull' | 'compare'
+  // "pull/42" for a pull request, "base...head" for a commit range
+  ref: string
+  title: string
+  description: string
+  baseSha: string
+  headSha: string
+  htmlUrl: string
+  // First line of each commit message, oldest first
+  commits: string[]
+  files: ChangedFile[]
+}
+
+export type ChangeSource = { pullNumber: number } | { base: string, head: string }
+
+export interface ChangeSetSnippet {
+  snippet: string
+  files: string[]
+  // Changed files left out: generated, binary, or over the token budget
+  skipped: string[]
+  additions: number
+  deletions: number
+  tokens: number
+}
+
+const GITHUB_API_URL = 'https://api.github.com'
+// Keyed by access token: the limit belongs to the token, and one isolate serves many users
+const rateLimits = new Map<string, GitHubRateLimit>()
+const CHARS_PER_TOKEN = 4
+// The pull request files API returns at most 3000 files, 100 per page
+const MAX_FILE_PAGES = 3
+
+// Changes nobody wants narrated: lockfiles, build output, bundles and snapshots
+const GENERATED_FILE_PATTERN = /(^|\/)(node_modules|vendor|dist|build|coverage|__snapshots__)\/|(^|\/)(package-lock\.json|yarn\.lock|pnpm-lock\.yaml|Cargo\.lock|go\.sum|poetry\.lock|composer\.lock)$|\.(min\.js|min\.css|map|snap|lock)$/
+
+export async function githubRequest(
+  path: string,
+  accessToken: string,
+  accept = 'application/vnd.github.v3+json',
+  // For writes: the method and a JSON body
+  write?: { method: 'POST' | 'PATCH', body: unknown }
+): Promise<Response> {
+  return sendGitHubRequest(path, accessToken, {
+    method: write?.method ?? 'GET',
+    headers: {
+      'Accept': accept,
+      ...(write ? { 'Content-Type': 'application/json' } : {}),
+    },
+    ...(write ? { body: JSON.stringify(write.body) } : {}),
+  })
+}
+
+// A GET revalidating a stored ETag. Resolves to null on 304 Not Modified, which
+// GitHub doesn't count against the rate limit.
+export async function githubConditionalRequest(
+  path: string,
+  accessToken: string,
+  etag: string | null,
+  accept = 'application/vnd.github.v3+json'
+): Promise<Response | null> {
+  const response = await sendGitHubRequest(path, accessToken, {
+    headers: {
+      'Accept': accept,
+      ...(etag ? { 'If-None-Match': etag } : {}),
+    },
+  })
+  return response.status === 304 ? null : response
+}
+
+export function getRateLimit(accessToken: string): GitHubRateLimit | null {
+  return rateLimits.get(accessToken) ?? null
+}
+
+async function sendGitHubRequest(
+  path: string,
+  accessToken: string,
+  init: { method?: string, headers: Record<string, string>, body?: string }
+): Promise<Response> {
+  const response = await fetch(`${GITHUB_API_URL}${path}`, {
+    ...init,
+    headers: {
+      'Authorization': `Bearer ${accessToken}`,
+      'User-Agent': 'ExplainMyTool-App',
+      ...init.headers,
+    },
+  })
+
+  const rateLimit = readRateLimit(response)
+  if (rateLimit) rateLimits.set(accessToken, rateLimit)
+
+  if (!response.ok && response.status !== 304) {
+    if ((response.status === 403 || response.status === 429) && rateLimit?.remaining === 0) {
+      throw new GitHubAPIError(
+        `GitHub API rate limit reached for ${path}; it resets at ${new Date(rateLimit.resetAt).toLocaleTimeString('en-US', { timeZone: 'UTC' })} UTC`,
+        response.status
+      )
+    }
+    throw new GitHubAPIError(`GitHub API error for ${path}: ${response.status}`, response.status)
+  }
+
+  return response
+}
+
+function readRateLimit(response: Response): GitHubRateLimit | null {
+  const limit = response.headers.get('x-ratelimit-limit')
+  const remaining = response.headers.get('x-ratelimit-remaining')
+  const reset = response.headers.get('x-ratelimit-reset')
+  if (limit === null || remaining === null || reset === null) return null
+
+  return {
+    limit: Number(limit),
+    remaining: Number(remaining),
+    resetAt: new Date(Number(reset) * 1000).toISOString(),
+    resource: response.headers.get('x-ratelimit-resource') ?? 'core'
+  }
+}
+
+// Accepts a branch, tag or (abbreviated) commit SHA and returns the full commit SHA
+export async function resolveCommitSha(fullName: string, ref: string, accessToken: string): Promise<string> {
+  const response = await githubRequest(`/repos/${fullName}/commits/${encodeURIComponent(ref)}`, accessToken, 'application/vnd.github.sha')
+  return (await response.text()).trim()
+}
+
+export async function fetchChangeSet(
+  fullName: string,
+  accessToken: string,
+  source: ChangeSource,
+  log: GitHubLogger
+): Promise<ChangeSet> {
+  try {
+    return 'pullNumber' in source
+      ? await fetchPullRequestChanges(fullName, accessToken, source.pullNumber, log)
+      : await fetchCompareChanges(fullName, accessToken, source.base, source.head, log)
+  } catch (error) {
+    if (error instanceof GitHubAPIError && (error.status === 404 || error.status === 422)) {
+      throw new Error('pullNumber' in source
+        ? `Pull request #${source.pullNumber} not found in ${fullName}`
+        : `Could not compare ${source.base}...${source.head} in ${fullName}`)
+    }
+    throw error
+  }
+}
+
+async function fetchPullRequestChanges(
+  fullName: string,
+  accessToken: string,
+  pullNumber: number,
+  log: GitHubLogger
+): Promise<ChangeSet> {
+  log('GITHUB', `🔀 Fetching pull request #${pullNumber}`)
+  const pull = await (await githubRequest(`/repos/${fullName}/pulls/${pullNumber}`, accessToken)).json()
+
+  const files: ChangedFile[] = []
+  for (let page = 1; page <= MAX_FILE_PAGES; page++) {
+    const response = await githubRequest(`/repos/${fullName}/pulls/${pullNumber}/files?per_page=100&page=${page}`, accessToken)
+    const pageFiles = await response.json()
+    files.push(...pageFiles.map(toChangedFile))
+    if (pageFiles.length < 100) break
+  }
+
+  const commitsResponse = await githubRequest(`/repos/${fullName}/pulls/${pullNumber}/commits?per_page=100`, accessToken)
+  const commits: { commit: { message: string } }[] = await commitsResponse.json()
+
+  return {
+    kind: 'pull',
+    ref: `pull/${pullNumber}`,
+    title: pull.title,
+    description: pull.body || '',
+    baseSha: pull.base.sha,
+    headSha: pull.head.sha,
+    htmlUrl: pull.html_url,
+    commits: commits.map(item => item.commit.message.split('\n')[0]),
+    files
+  }
+}
+
+async function fetchCompareChanges(
+  fullName: string,
+  accessToken: string,
+  base: string,
+  head: string,
+  log: GitHubLogger
+): Promise<ChangeSet> {
+  log('GITHUB', `🔀 Comparing ${base}...${head}`)
+  const basehead = `${encodeURIComponent(base)}...${encodeURIComponent(head)}`
+  const comparison = await (await githubRequest(`/repos/${fullName}/compare/${basehead}`, accessToken)).json()
+
+  // The comparison lists at most 250 commits, so resolve the head separately
+  const headSha = await resolveCommitSha(fullName, head, accessToken)
+  const commits: { commit: { message: string } }[] = comparison.commits || []
+
+  return {
+    kind: 'compare',
+    ref: `${base}...${head}`,
+    title: `Changes from ${base} to ${head}`,
+    description: '',
+    baseSha: comparison.merge_base_commit?.sha || comparison.base_commit.sha,
+    headSha,
+    htmlUrl: comparison.html_url,
+    commits: commits.map(item => item.commit.message.split('\n')[0]),
+    files: (comparison.files || []).map(toChangedFile)
+  }
+}
+
+function toChangedFile(file: {
+  filename: string
+  previous_filename?: string
+  status: ChangedFile['status']
+  additions: number
+  deletions: number
+  patch?: string
+}): ChangedFile {
+  return {
+    path: file.filename,
+    previousPath: file.previous_filename,
+    status: file.status,
+    additions: file.additions,
+    deletions: file.deletions,
+    patch: file.patch
+  }
+}
+
+// Biggest changes first while they fit the budget; a file that doesn't fit
+// whole keeps the hunks that do. The output lists files in path order, each
+// with unified diff headers so the model and the code view read it as a diff.
+export function formatChangeSetSnippet(changeSet: ChangeSet, tokenBudget: number): ChangeSetSnippet {
+  const skipped: string[] = []
+  const included: { file: ChangedFile, hunks: string[] }[] = []
+  let tokens = 0
+
+  const candidates = changeSet.files
+    .filter(file => {
+      if (!file.patch || GENERATED_FILE_PATTERN.test(file.path)) {
+        skipped.push(file.path)
+        return false
+      }
+      return true
+    })
+    .sort((a, b) => (b.additions + b.deletions) - (a.additions + a.deletions))
+
+  for (const file of candidates) {
+    const hunks: string[] = []
+    for (const hunk of file.patch!.split(/\n(?=@@)/)) {
+      const hunkTokens = Math.ceil((hunk.length + 1) / CHARS_PER_TOKEN)
+      if (tokens + hunkTokens > tokenBudget) continue
+      hunks.push(hunk)
+      tokens += hunkTokens
+    }
+
+    if (hunks.length === 0) {
+      skipped.push(file.path)
+    } else {
+      included.push({ file, hunks })
+    }
+  }
+
+  included.sort((a, b) => a.file.path.localeCompare(b.file.path))
+
+  const snippet = included
+    .map(({ file, hunks }) => [
+      `--- ${file.status === 'added' ? '/dev/null' : `a/${file.previousPath || file.path}`}`,
+      `+++ ${file.status === 'removed' ? '/dev/null' : `b/${file.path}`}`,
+      ...hunks
+    ].join('\n'))
+    .join('\n\n')
+
+  return {
+    snippet,
+    files: included.map(({ file }) => file.path),
+    skipped,
+    additions: included.reduce((sum, { file }) => sum + file.additions, 0),
+    deletions: included.reduce((sum, { file }) => sum + file.deletions, 0),
+    tokens
+  }
+}
+
+// Glob to regex source: "*" and "?" stay within one directory, "**" crosses them
+export function globToRegExpSource(glob: string): string {
+  let source = ''
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]
+    if (char === '*' && glob[i + 1] === '*') {
+      // "**/" matches zero or more directories, a bare "**" anything at all
+      source += glob[i + 2] === '/' ? '(?:.*/)?' : '.*'
+      i += glob[i + 2] === '/' ? 2 : 1
+    } else if (char === '*') {
+      source += '[^/]*'
+    } else if (char === '?') {
+      source += '[^/]'
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    }
+  }
+  return source
+}
+
+// Path filters: "src/**" matches by path, "*.test.ts" (no slash) matches the file name anywhere
+export function globToRegExp(glob: string): RegExp {
+  const pattern = glob.trim().replace(/^\//, '').replace(/\/$/, '/**')
+  return new RegExp(`^${pattern.includes('/') ? '' : '(?:.*/)?'}${globToRegExpSource(pattern)}$`)
+}
@@ -0,0 +1,123 @@
+// Stored GitHub responses, so repeat scans and syncs don't spend the rate limit.
+// cachedGitHubGet keeps each GET's body with its ETag in github_response_cache
+// and revalidates with If-None-Match; a 304 is free. Responses for a full
+// commit or tree SHA can't change and are served without asking at all, and
+// fetchCachedBlob does the same for file contents in repository_files, keyed
+// by blob SHA. Cache failures are logged, never thrown: GitHub is the source.
+
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2'
+import { githubRequest, githubConditionalRequest, getRateLimit } from './github.ts'
+
+export type GitHubCacheLogger = (step: string, message: string, data?: unknown) => void
+
+// Whose cache is read and written: responses are cached per user, blobs per repository
+export interface GitHubCacheScope {
+  supabaseClient: SupabaseClient
+  userId: string
+  accessToken: string
+  repositoryId?: string
+  log?: GitHubCacheLogger
+}
+
+export interface CachedResponse {
+  body: string
+  // True when the body came from the cache, whether or not GitHub was asked
+  cached: boolean
+}
+
+const DEFAULT_ACCEPT = 'application/vnd.github.v3+json'
+
+export const FULL_SHA_PATTERN = /^[0-9a-f]{40}$/i
+
+export async function cachedGitHubGet(
+  scope: GitHubCacheScope,
+  path: string,
+  options: { accept?: string, immutable?: boolean } = {}
+): Promise<CachedResponse> {
+  const accept = options.accept ?? DEFAULT_ACCEPT
+  const requestKey = `${accept} ${path}`
+
+  const { data: stored, error: readError } = await scope.supabaseClient
+    .from('github_response_cache')
+    .select('etag, body')
+    .eq('user_id', scope.userId)
+    .eq('request_key', requestKey)
+    .maybeSingle()
+  if (readError) {
+    scope.log?.('WARNING', `⚠️ Could not read the response cache for ${path}`, readError)
+  }
+
+  if (stored && options.immutable) {
+    return { body: stored.body, cached: true }
+  }
+
+  const response = await githubConditionalRequest(path, scope.accessToken, stored?.etag ?? null, accept)
+  if (!response) {
+    return { body: stored!.body, cached: true }
+  }
+
+  const body = await response.text()
+  const etag = response.headers.get('etag')
+  if (etag || options.immutable) {
+    const { error: writeError } = await scope.supabaseClient
+      .from('github_response_cache')
+      .upsert({ user_id: scope.userId, request_key: requestKey, etag, body }, { onConflict: 'user_id,request_key' })
+    if (writeError) {
+      scope.log?.('WARNING', `⚠️ Could not cache the response for ${path}`, writeError)
+    }
+  }
+
+  return { body, cached: false }
+}
+
+// A file's content by blob SHA, from repository_files when it has been fetched before
+export async function fetchCachedBlob(scope: GitHubCacheScope, fullName: string, sha: string): Promise<string> {
+  if (scope.repositoryId) {
+    const { data: stored, error: readError } = await scope.supabaseClient
+      .from('repository_files')
+      .select('content')
+      .eq('repository_id', scope.repositoryId)
+      .eq('sha', sha)
+      .maybeSingle()
+    if (readError) {
+      scope.log?.('WARNING', `⚠️ Could not read cached blob ${sha}`, readError)
+    }
+    if (stored) return stored.content
+  }
+
+  const response = await githubRequest(`/repos/${fullName}/git/blobs/${sha}`, scope.accessToken, 'application/vnd.github.raw+json')
+  const content = await response.text()
+
+  // Postgres text can't hold NUL bytes; binary files are skipped by the scan anyway
+  if (scope.repositoryId && !content.includes('\0')) {
+    const { error: writeError } = await scope.supabaseClient
+      .from('repository_files')
+      .upsert({ repository_id: scope.repositoryId, sha, content, size: content.length }, { onConflict: 'repository_id,sha' })
+    if (writeError) {
+      scope.log?.('WARNING', `⚠️ Could not cache blob ${sha}`, writeError)
+    }
+  }
+
+  return content
+}
+
+// Records the rate limit GitHub last reported for the scope's token on the user's profile
+export async function saveRateLimit(scope: GitHubCacheScope) {
+  const rateLimit = getRateLimit(scope.accessToken)
+  if (!rateLimit) return null
+
+  const { error } = await scope.supabaseClient
+    .from('profiles')
+    .update({
+      github_rate_limit: rateLimit.limit,
+      github_rate_limit_remaining: rateLimit.remaining,
+      github_rate_limit_reset_at: rateLimit.resetAt
+    })
+    .eq('id', scope.userId)
+  if (error) {
+    scope.log?.('WARNING', '⚠️ Could not record the GitHub rate limit', error)
+  }
+
+  scope.log?.('GITHUB', `📉 ${rateLimit.remaining} of ${rateLimit.limit} GitHub API requests left`, { resetAt: rateLimit.resetAt })
+  return rateLimit
+}
@@ -0,0 +1,256 @@
+// GitHub credentials for edge functions. A user connects either with an OAuth
+// token or through a GitHub App installation. OAuth tokens live in
+// github_credentials, which has RLS on and no policies, so only edge functions
+// using the service role can read a row, and each row is sealed with AES-GCM
+// under GITHUB_TOKEN_ENCRYPTION_KEY so a database dump alone doesn't expose them.
+// Installations are stored in the same table, as the installation ID that
+// github-auth verified the user can access. It's exchanged for a one-hour
+// installation token signed for with the App's key, so it acts as a credential
+// too and must never come from the client (profiles.github_installation_id is
+// only a copy for display).
+
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2'
+import { githubRequest, GitHubAPIError } from './github.ts'
+
+export type GitHubTokenLogger = (step: string, message: string, data?: unknown) => void
+
+export interface GitHubCredential {
+  token: string
+  // Set when the token is an installation token rather than the user's OAuth token
+  installationId: number | null
+}
+
+// Sealed tokens are stored as "v1:<iv>:<ciphertext>", both base64
+const SEALED_TOKEN_PREFIX = 'v1:'
+const IV_BYTES = 12
+
+// GitHub accepts App JWTs valid for up to 10 minutes; iat is backdated for clock drift
+const APP_JWT_LIFETIME_SECONDS = 9 * 60
+const APP_JWT_CLOCK_DRIFT_SECONDS = 60
+// Installation tokens last an hour; one is reused until it's this close to expiring
+const INSTALLATION_TOKEN_REFRESH_MS = 5 * 60 * 1000
+
+let keyPromise: Promise<CryptoKey> | null = null
+let appKeyPromise: Promise<CryptoKey> | null = null
+const installationTokens = new Map<number, { token: string, expiresAt: number }>()
+
+function getEncryptionKey(): Promise<CryptoKey> {
+  if (!keyPromise) {
+    const encoded = Deno.env.get('GITHUB_TOKEN_ENCRYPTION_KEY')
+    if (!encoded) {
+      throw new Error('GITHUB_TOKEN_ENCRYPTION_KEY is not configured. Set it to 32 random bytes, base64 encoded (openssl rand -base64 32).')
+    }
+
+    const raw = fromBase64(encoded)
+    if (raw.length !== 32) {
+      throw new Error('GITHUB_TOKEN_ENCRYPTION_KEY must be 32 bytes, base64 encoded')
+    }
+
+    keyPromise = crypto.subtle.importKey('raw', raw, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt'])
+  }
+  return keyPromise
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = ''
+  for (const byte of bytes) binary += String.fromCharCode(byte)
+  return btoa(binary)
+}
+
+function fromBase64(encoded: string): Uint8Array {
+  return Uint8Array.from(atob(encoded), char => char.charCodeAt(0))
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  return toBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function derLength(length: number): number[] {
+  if (length < 0x80) return [length]
+  const bytes: number[] = []
+  for (let remaining = length; remaining > 0; remaining >>= 8) {
+    bytes.unshift(remaining & 0xff)
+  }
+  return [0x80 | bytes.length, ...bytes]
+}
+
+// GitHub hands out App keys as PKCS#1 ("BEGIN RSA PRIVATE KEY"), which Web Crypto
+// can't import; wrap it in a PKCS#8 PrivateKeyInfo with the rsaEncryption OID
+function wrapPkcs1Key(pkcs1: Uint8Array): Uint8Array {
+  const versionAndAlgorithm = [
+    0x02, 0x01, 0x00,
+    0x30, 0x0d, 0x06, 0x09, 0x2a, 0x86, 0x48, 0x86, 0xf7, 0x0d, 0x01, 0x01, 0x01, 0x05, 0x00,
+  ]
+  const keyHeader = [0x04, ...derLength(pkcs1.length)]
+  const bodyLength = versionAndAlgorithm.length + keyHeader.length + pkcs1.length
+  return Uint8Array.from([0x30, ...derLength(bodyLength), ...versionAndAlgorithm, ...keyHeader, ...pkcs1])
+}
+
+function getAppSigningKey(): Promise<CryptoKey> {
+  if (!appKeyPromise) {
+    // Secrets set from a single-line value keep the PEM's newlines as "\n"
+    const pem = (Deno.env.get('GITHUB_APP_PRIVATE_KEY') ?? '').replace(/\\n/g, '\n')
+    if (!pem || !Deno.env.get('GITHUB_APP_ID')) {
+      throw new Error('GitHub App not configured. Please add GITHUB_APP_ID and GITHUB_APP_PRIVATE_KEY to your environment variables.')
+    }
+
+    const der = fromBase64(pem.replace(/-----(BEGIN|END) [A-Z ]+-----/g, '').replace(/\s/g, ''))
+    const pkcs8 = pem.includes('BEGIN RSA PRIVATE KEY') ? wrapPkcs1Key(der) : der
+    appKeyPromise = crypto.subtle.importKey(
+      'pkcs8',
+      pkcs8,
+      { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+      false,
+      ['sign']
+    )
+  }
+  return appKeyPromise
+}
+
+// The short-lived JWT that authenticates as the App itself
+export async function createAppJwt(): Promise<string> {
+  const key = await getAppSigningKey()
+  const now = Math.floor(Date.now() / 1000)
+  const encode = (value: unknown) => toBase64Url(new TextEncoder().encode(JSON.stringify(value)))
+  const unsigned = `${encode({ alg: 'RS256', typ: 'JWT' })}.${encode({
+    iat: now - APP_JWT_CLOCK_DRIFT_SECONDS,
+    exp: now + APP_JWT_LIFETIME_SECONDS,
+    iss: Deno.env.get('GITHUB_APP_ID'),
+  })}`
+  const signature = await crypto.subtle.sign('RSASSA-PKCS1-v1_5', key, new TextEncoder().encode(unsigned))
+  return `${unsigned}.${toBase64Url(new Uint8Array(signature))}`
+}
+
+// A token scoped to the repositories and permissions the installation was granted
+export async function getInstallationToken(installationId: number, log?: GitHubTokenLogger): Promise<string> {
+  const cached = installationTokens.get(installationId)
+  if (cached && cached.expiresAt - Date.now() > INSTALLATION_TOKEN_REFRESH_MS) {
+    return cached.token
+  }
+
+  log?.('GITHUB', `🔑 Requesting installation token for installation ${installationId}`)
+  let response: Response
+  try {
+    response = await githubRequest(
+      `/app/installations/${installationId}/access_tokens`,
+      await createAppJwt(),
+      'application/vnd.github.v3+json',
+      { method: 'POST', body: {} }
+    )
+  } catch (error) {
+    if (error instanceof GitHubAPIError && error.status === 404) {
+      throw new Error('The GitHub App is no longer installed. Please reconnect GitHub.')
+    }
+    throw error
+  }
+
+  const { token, expires_at: expiresAt } = await response.json()
+  installationTokens.set(installationId, { token, expiresAt: new Date(expiresAt).getTime() })
+  return token
+}
+
+export function isSealedToken(stored: string): boolean {
+  return stored.startsWith(SEALED_TOKEN_PREFIX)
+}
+
+export async function sealToken(token: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES))
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    await getEncryptionKey(),
+    new TextEncoder().encode(token)
+  )
+  return `${SEALED_TOKEN_PREFIX}${toBase64(iv)}:${toBase64(new Uint8Array(ciphertext))}`
+}
+
+export async function openToken(stored: string): Promise<string> {
+  const [iv, ciphertext] = stored.slice(SEALED_TOKEN_PREFIX.length).split(':')
+  if (!iv || !ciphertext) {
+    throw new Error('Stored GitHub token is malformed')
+  }
+
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(iv) },
+      await getEncryptionKey(),
+      fromBase64(ciphertext)
+    )
+    return new TextDecoder().decode(plaintext)
+  } catch {
+    // AES-GCM fails authentication when the key changed or the row was tampered with
+    throw new Error('Stored GitHub token could not be decrypted. Reconnect GitHub to store a new one.')
+  }
+}
+
+export async function saveGitHubToken(supabaseClient: SupabaseClient, userId: string, token: string) {
+  const { error } = await supabaseClient
+    .from('github_credentials')
+    .upsert({ user_id: userId, access_token: await sealToken(token), installation_id: null }, { onConflict: 'user_id' })
+
+  if (error) {
+    throw new Error(`Failed to store GitHub token: ${error.message}`)
+  }
+}
+
+// Only call with an installation the user's own GitHub token was shown to have access to
+export async function saveGitHubInstallation(supabaseClient: SupabaseClient, userId: string, installationId: number) {
+  const { error } = await supabaseClient
+    .from('github_credentials')
+    .upsert({ user_id: userId, access_token: null, installation_id: installationId }, { onConflict: 'user_id' })
+
+  if (error) {
+    throw new Error(`Failed to store GitHub App installation: ${error.message}`)
+  }
+}
+
+// The token to act for the user with, or null when GitHub isn't connected. A
+// connected App installation takes precedence over an OAuth token.
+export async function loadGitHubCredential(
+  supabaseClient: SupabaseClient,
+  userId: string,
+  log?: GitHubTokenLogger
+): Promise<GitHubCredential | null> {
+  const { data, error } = await supabaseClient
+    .from('github_credentials')
+    .select('access_token, installation_id')
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load GitHub connection: ${error.message}`)
+  }
+
+  const installationId: number | null = data?.installation_id ?? null
+  if (installationId) {
+    return { token: await getInstallationToken(installationId, log), installationId }
+  }
+  if (!data?.access_token) return null
+
+  return { token: await openOAuthToken(supabaseClient, userId, data.access_token, log), installationId: null }
+}
+
+export async function loadGitHubToken(
+  supabaseClient: SupabaseClient,
+  userId: string,
+  log?: GitHubTokenLogger
+): Promise<string | null> {
+  return (await loadGitHubCredential(supabaseClient, userId, log))?.token ?? null
+}
+
+// The user's OAuth token in plaintext. Tokens moved over from
+// profiles.github_access_token are still plaintext; they're sealed the first
+// time they're read.
+async function openOAuthToken(
+  supabaseClient: SupabaseClient,
+  userId: string,
+  stored: string,
+  log?: GitHubTokenLogger
+): Promise<string> {
+  if (isSealedToken(stored)) {
+    return openToken(stored)
+  }
+
+  log?.('SECURITY', '🔐 Encrypting a GitHub token stored before encryption was enabled')
+  await saveGitHubToken(supabaseClient, userId, stored)
+  return stored
+}
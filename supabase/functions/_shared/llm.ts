@@ -0,0 +1,335 @@
+// Shared LLM access for edge functions. Every provider takes the same request
+// and returns plain text; generateText picks the model for the user's tier,
+// retries rate limits and server errors with backoff, and falls back to the
+// next configured provider when one keeps failing.
+
+export type LLMProviderName = 'local' | 'gemini' | 'openai' | 'anthropic'
+
+export type LLMTier = 'free' | 'professional' | 'enterprise'
+
+export interface LLMRequest {
+  prompt: string
+  system?: string
+  maxTokens: number
+  temperature?: number
+  // Ask for a JSON object where the provider supports it
+  json?: boolean
+  tier?: LLMTier
+}
+
+export interface LLMResult {
+  text: string
+  provider: LLMProviderName
+  model: string
+}
+
+export type LLMLogger = (step: string, message: string, data?: unknown) => void
+
+// Thrown for non-OK provider responses so callers can tell rate limits and outages from bad requests
+export class LLMProviderError extends Error {
+  status: number
+  retryAfterSeconds: number | null
+
+  constructor(message: string, status: number, retryAfterSeconds: number | null = null) {
+    super(message)
+    this.name = 'LLMProviderError'
+    this.status = status
+    this.retryAfterSeconds = retryAfterSeconds
+  }
+}
+
+interface LLMProvider {
+  name: LLMProviderName
+  label: string
+  isConfigured(): boolean
+  getModel(tier: LLMTier): string
+  complete(request: LLMRequest, model: string): Promise<string>
+}
+
+// A local endpoint wins when configured, then Gemini because its free tier covers most demos
+const DEFAULT_PROVIDER_ORDER: LLMProviderName[] = ['local', 'gemini', 'openai', 'anthropic']
+
+// Retries per provider before failing over (LLM_MAX_RETRIES), and the backoff bounds between them
+const DEFAULT_MAX_RETRIES = 2
+const RETRY_BASE_DELAY_MS = 1000
+const RETRY_MAX_DELAY_MS = 30000
+
+const PROVIDER_MODELS: Record<Exclude<LLMProviderName, 'local'>, Record<LLMTier, string>> = {
+  gemini: {
+    free: 'gemini-1.5-flash',
+    professional: 'gemini-1.5-pro',
+    enterprise: 'gemini-1.5-pro'
+  },
+  openai: {
+    free: 'gpt-4o-mini',
+    professional: 'gpt-4o',
+    enterprise: 'gpt-4o'
+  },
+  anthropic: {
+    free: 'claude-3-haiku-20240307',
+    professional: 'claude-3-5-sonnet-20240620',
+    enterprise: 'claude-3-5-sonnet-20240620'
+  }
+}
+
+const PROVIDERS: Record<LLMProviderName, LLMProvider> = {
+  local: {
+    name: 'local',
+    label: 'Local OpenAI-compatible endpoint',
+    isConfigured: () => !!Deno.env.get('LLM_LOCAL_BASE_URL'),
+    getModel: () => Deno.env.get('LLM_LOCAL_MODEL') || 'llama3.1',
+    complete: (request, model) => completeWithOpenAICompatible(
+      Deno.env.get('LLM_LOCAL_BASE_URL')!.replace(/\/$/, ''),
+      Deno.env.get('LLM_LOCAL_API_KEY'),
+      'Local LLM',
+      request,
+      model
+    )
+  },
+  gemini: {
+    name: 'gemini',
+    label: 'Google Gemini',
+    isConfigured: () => !!Deno.env.get('GOOGLE_GEMINI_API_KEY'),
+    getModel: (tier) => PROVIDER_MODELS.gemini[tier],
+    complete: completeWithGemini
+  },
+  openai: {
+    name: 'openai',
+    label: 'OpenAI',
+    isConfigured: () => !!Deno.env.get('OPENAI_API_KEY'),
+    getModel: (tier) => PROVIDER_MODELS.openai[tier],
+    complete: (request, model) => completeWithOpenAICompatible(
+      'https://api.openai.com/v1',
+      Deno.env.get('OPENAI_API_KEY'),
+      'OpenAI',
+      request,
+      model
+    )
+  },
+  anthropic: {
+    name: 'anthropic',
+    label: 'Anthropic Claude',
+    isConfigured: () => !!Deno.env.get('ANTHROPIC_API_KEY'),
+    getModel: (tier) => PROVIDER_MODELS.anthropic[tier],
+    complete: completeWithClaude
+  }
+}
+
+export async function generateText(request: LLMRequest, log: LLMLogger): Promise<LLMResult> {
+  const tier = request.tier || 'free'
+  const providers = getProviderOrder().filter(provider => provider.isConfigured())
+
+  log('LLM', '🔑 Configured AI providers', {
+    providers: providers.map(provider => provider.name),
+    tier
+  })
+
+  if (providers.length === 0) {
+    log('ERROR', '❌ No AI API keys configured!')
+    throw new Error('No AI API keys configured. Please add GOOGLE_GEMINI_API_KEY (free), OPENAI_API_KEY, ANTHROPIC_API_KEY or LLM_LOCAL_BASE_URL to your environment variables.')
+  }
+
+  // LLM_FALLBACK=false pins requests to the first configured provider
+  const candidates = Deno.env.get('LLM_FALLBACK') === 'false' ? providers.slice(0, 1) : providers
+  const failures: string[] = []
+
+  for (const provider of candidates) {
+    const model = provider.getModel(tier)
+    log('LLM', `🚀 Using ${provider.label}`, { model, promptLength: request.prompt.length })
+
+    try {
+      const text = await completeWithRetries(provider, request, model, log)
+      log('LLM', '🎯 Response received', { provider: provider.name, model, length: text.length })
+      return { text, provider: provider.name, model }
+    } catch (error) {
+      log('WARNING', `⚠️ ${provider.label} failed, trying the next provider`, { model, error: error.message })
+      failures.push(error.message)
+    }
+  }
+
+  throw new Error(`All AI providers failed: ${failures.join('; ')}`)
+}
+
+async function completeWithRetries(provider: LLMProvider, request: LLMRequest, model: string, log: LLMLogger): Promise<string> {
+  const maxRetries = getMaxRetries()
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await provider.complete(request, model)
+    } catch (error) {
+      if (attempt >= maxRetries || !isRetryable(error)) {
+        throw error
+      }
+
+      const delayMs = getRetryDelay(error, attempt)
+      log('LLM', `🔁 ${provider.label} unavailable, retrying in ${Math.round(delayMs / 1000)}s`, {
+        model,
+        attempt: attempt + 1,
+        maxRetries,
+        error: error.message
+      })
+      await new Promise(resolve => setTimeout(resolve, delayMs))
+    }
+  }
+}
+
+// Rate limits, server errors and dropped connections are worth another try; bad requests are not
+function isRetryable(error: unknown): boolean {
+  if (error instanceof LLMProviderError) {
+    return error.status === 429 || error.status >= 500
+  }
+  return error instanceof TypeError
+}
+
+// LLM_MAX_RETRIES when it's a whole number of at least 0; anything else would retry forever or never
+function getMaxRetries(): number {
+  const configured = Deno.env.get('LLM_MAX_RETRIES')?.trim()
+  const maxRetries = configured ? Number(configured) : NaN
+  return Number.isInteger(maxRetries) && maxRetries >= 0 ? maxRetries : DEFAULT_MAX_RETRIES
+}
+
+function getRetryDelay(error: unknown, attempt: number): number {
+  if (error instanceof LLMProviderError && error.retryAfterSeconds !== null) {
+    return Math.min(error.retryAfterSeconds * 1000, RETRY_MAX_DELAY_MS)
+  }
+  const backoff = RETRY_BASE_DELAY_MS * 2 ** attempt
+  return Math.min(backoff + Math.random() * backoff / 2, RETRY_MAX_DELAY_MS)
+}
+
+async function toProviderError(label: string, response: Response): Promise<LLMProviderError> {
+  const errorText = await response.text()
+  const retryAfter = Number(response.headers.get('retry-after'))
+  return new LLMProviderError(
+    `${label} API error: ${response.status} - ${errorText}`,
+    response.status,
+    Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter : null
+  )
+}
+
+// LLM_PROVIDER_ORDER is a comma-separated list such as "openai,gemini". A typo is an error
+// rather than an empty list, which would be reported as no API keys being configured
+function getProviderOrder(): LLMProvider[] {
+  const configured = Deno.env.get('LLM_PROVIDER_ORDER')
+  if (!configured) {
+    return DEFAULT_PROVIDER_ORDER.map(name => PROVIDERS[name])
+  }
+
+  const names = configured.split(',').map(name => name.trim().toLowerCase()).filter(Boolean)
+  const unknown = names.filter(name => !Object.hasOwn(PROVIDERS, name))
+  if (names.length === 0 || unknown.length > 0) {
+    throw new Error(`LLM_PROVIDER_ORDER must list providers from ${Object.keys(PROVIDERS).join(', ')}; got "${configured}"`)
+  }
+
+  return (names as LLMProviderName[]).map(name => PROVIDERS[name])
+}
+
+async function completeWithGemini(request: LLMRequest, model: string): Promise<string> {
+  const apiKey = Deno.env.get('GOOGLE_GEMINI_API_KEY')
+  const prompt = request.system ? `${request.system}\n\n${request.prompt}` : request.prompt
+
+  const response = await fetch(`https://generativelanguage.googleapis.com/v1/models/${model}:generateContent?key=${apiKey}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      contents: [{
+        parts: [{
+          text: prompt
+        }]
+      }],
+      generationConfig: {
+        temperature: request.temperature ?? 0.7,
+        topK: 40,
+        topP: 0.95,
+        maxOutputTokens: request.maxTokens,
+      }
+    }),
+  })
+
+  if (!response.ok) {
+    throw await toProviderError('Gemini', response)
+  }
+
+  const data = await response.json()
+  const text = data.candidates?.[0]?.content?.parts?.[0]?.text
+  if (!text) {
+    throw new Error('No content received from Gemini')
+  }
+
+  return text
+}
+
+// Covers OpenAI itself and local servers that speak its chat completions API (Ollama, LM Studio, vLLM, llama.cpp)
+async function completeWithOpenAICompatible(
+  baseUrl: string,
+  apiKey: string | undefined,
+  label: string,
+  request: LLMRequest,
+  model: string
+): Promise<string> {
+  const messages = [
+    ...(request.system ? [{ role: 'system', content: request.system }] : []),
+    { role: 'user', content: request.prompt }
+  ]
+
+  const response = await fetch(`${baseUrl}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      model,
+      messages,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature ?? 0.7,
+      ...(request.json ? { response_format: { type: 'json_object' } } : {}),
+    }),
+  })
+
+  if (!response.ok) {
+    throw await toProviderError(label, response)
+  }
+
+  const data = await response.json()
+  const text = data.choices?.[0]?.message?.content
+  if (!text) {
+    throw new Error(`No content received from ${label}`)
+  }
+
+  return text
+}
+
+async function completeWithClaude(request: LLMRequest, model: string): Promise<string> {
+  const response = await fetch('https://api.anthropic.com/v1/messages', {
+    method: 'POST',
+    headers: {
+      'x-api-key': Deno.env.get('ANTHROPIC_API_KEY') ?? '',
+      'Content-Type': 'application/json',
+      'anthropic-version': '2023-06-01'
+    },
+    body: JSON.stringify({
+      model,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature ?? 0.7,
+      ...(request.system ? { system: request.system } : {}),
+      messages: [{
+        role: 'user',
+        content: request.prompt
+      }]
+    }),
+  })
+
+  if (!response.ok) {
+    throw await toProviderError('Claude', response)
+  }
+
+  const data = await response.json()
+  const text = data.content?.[0]?.text
+  if (!text) {
+    throw new Error('No content received from Claude')
+  }
+
+  return text
+}
@@ -0,0 +1,126 @@
+// Masks secrets in code before it's sent to an LLM or shown in a video: private
+// keys, tokens with a recognisable prefix, passwords in connection strings, and
+// values assigned to secret-looking names, .env style or in code. Masks keep
+// the line count, since scripts point at code by line number. The client
+// imports this file too, to show what will be masked before generating, so it
+// must stay free of Deno and npm imports.
+
+export type SecretKind =
+  | 'private_key'
+  | 'aws_access_key'
+  | 'github_token'
+  | 'slack_token'
+  | 'stripe_key'
+  | 'google_api_key'
+  | 'llm_api_key'
+  | 'jwt'
+  | 'connection_string'
+  | 'assignment'
+
+export interface Redaction {
+  kind: SecretKind
+  label: string
+  // 1-based line of the text the secret was on
+  line: number
+  // For assignments, the name the secret was assigned to
+  name?: string
+}
+
+export interface RedactionResult {
+  text: string
+  redactions: Redaction[]
+}
+
+export const REDACTED = '[REDACTED]'
+
+const PRIVATE_KEY_BLOCK = /(-----BEGIN ([A-Z0-9 ]*)PRIVATE KEY-----)([\s\S]*?)(-----END \2PRIVATE KEY-----)/g
+
+// Checked in order; each is specific enough to mask wherever it appears
+const TOKEN_PATTERNS: { kind: SecretKind, label: string, pattern: RegExp }[] = [
+  { kind: 'aws_access_key', label: 'AWS access key', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { kind: 'github_token', label: 'GitHub token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,255}|github_pat_[A-Za-z0-9_]{22,255})\b/g },
+  { kind: 'slack_token', label: 'Slack token', pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g },
+  { kind: 'stripe_key', label: 'Stripe key', pattern: /\b[rs]k_(?:live|test)_[A-Za-z0-9]{16,}\b/g },
+  { kind: 'google_api_key', label: 'Google API key', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+  { kind: 'llm_api_key', label: 'API key', pattern: /\bsk-(?:ant-|proj-)?[A-Za-z0-9_-]{20,}/g },
+  { kind: 'jwt', label: 'JSON Web Token', pattern: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g },
+]
+
+// user:password@ in a URL; only the password is masked
+const CONNECTION_STRING = /\b([a-z][a-z0-9+.-]*:\/\/[^\s:@/'"`]+:)([^\s@/'"`]+)(@)/gi
+
+const SECRET_WORDS = 'secret|token|passw(?:or)?d|pwd|api[_-]?key|access[_-]?key|private[_-]?key|credentials?|auth[_-]?key'
+// NAME=value at the start of a line, as in .env files and shell scripts; env names are upper case
+const ENV_ASSIGNMENT = new RegExp(`^(\\s*(?:export\\s+)?([A-Z0-9_]*(?:${SECRET_WORDS.toUpperCase()})[A-Z0-9_]*)\\s*=\\s*)(['"]?)([^'"\\s#]+)\\3`)
+// name: "value" or name = 'value', as in code and config files
+const CODE_ASSIGNMENT = new RegExp(`(([A-Za-z0-9_.-]*(?:${SECRET_WORDS})[A-Za-z0-9_]*)['"]?\\s*[:=]\\s*)(['"\`])([^'"\`\\n]+)\\3`, 'gi')
+// Unquoted values that are code rather than a literal: calls, indexing, a.b.c references
+const CODE_EXPRESSION = /[()[\]{}]|^[A-Za-z_$][\w$]*(?:\.[\w$]+)+$/
+
+// Example values that aren't secrets
+const PLACEHOLDER_VALUE = /^(?:x+|\*+|\.+|<.*>|\$\{.*\}|\{\{.*\}\}|%.*%|.*(?:example|placeholder|changeme|change_me|your[_-]|my[_-]|dummy|sample|redacted|todo|xxxx).*)$/i
+
+export function redactSecrets(text: string): RedactionResult {
+  const redactions: Redaction[] = []
+
+  // Key blocks can span lines; the body becomes one mask followed by empty lines
+  const unblocked = text.replace(PRIVATE_KEY_BLOCK, (block, header: string, _type: string, body: string, footer: string, offset: number) => {
+    // Documentation like "-----BEGIN ... KEY-----\n...\n-----END ... KEY-----" has no key in it
+    if (body.replace(/\\n|\s/g, '').length < 16) return block
+
+    redactions.push({ kind: 'private_key', label: 'Private key', line: text.slice(0, offset).split('\n').length })
+    const newlines = body.split('\n').length - 1
+    return `${header}${newlines > 0 ? `\n${REDACTED}${'\n'.repeat(newlines - 1)}` : REDACTED}${footer}`
+  })
+
+  const lines = unblocked.split('\n').map((line, index) => {
+    const record = (kind: SecretKind, label: string, name?: string) =>
+      redactions.push({ kind, label, line: index + 1, ...(name ? { name } : {}) })
+
+    let redacted = line
+    for (const { kind, label, pattern } of TOKEN_PATTERNS) {
+      redacted = redacted.replace(pattern, match => {
+        if (PLACEHOLDER_VALUE.test(match)) return match
+        record(kind, label)
+        return REDACTED
+      })
+    }
+
+    redacted = redacted.replace(CONNECTION_STRING, (_match, prefix: string, password: string, at: string) => {
+      if (!looksLikeSecret(password, 1)) return `${prefix}${password}${at}`
+      record('connection_string', 'Password in a connection string')
+      return `${prefix}${REDACTED}${at}`
+    })
+
+    redacted = redacted.replace(ENV_ASSIGNMENT, (match, prefix: string, name: string, quote: string, value: string) => {
+      if (!looksLikeSecret(value) || (!quote && CODE_EXPRESSION.test(value))) return match
+      record('assignment', 'Secret value', name)
+      return `${prefix}${quote}${REDACTED}${quote}`
+    })
+
+    return redacted.replace(CODE_ASSIGNMENT, (match, prefix: string, name: string, quote: string, value: string) => {
+      if (!looksLikeSecret(value)) return match
+      record('assignment', 'Secret value', name)
+      return `${prefix}${quote}${REDACTED}${quote}`
+    })
+  })
+
+  return { text: lines.join('\n'), redactions }
+}
+
+// Rules out what's assigned to secret-looking names but isn't one: numbers,
+// booleans, placeholders, prose, and words like "x-api-key" or CONSTANT_NAMES.
+// Generated secrets mix at least two of lower case, upper case and digits.
+function looksLikeSecret(value: string, minLength = 8): boolean {
+  if (value.length < minLength || /\s/.test(value) || value.includes(REDACTED)) return false
+  if (/^(?:\d+(?:\.\d+)?|true|false|null|undefined|none)$/i.test(value)) return false
+  if (PLACEHOLDER_VALUE.test(value)) return false
+  if (minLength <= 1) return true
+
+  return [/[a-z]/, /[A-Z]/, /\d/].filter(pattern => pattern.test(value)).length >= 2
+}
+
+// One line per redaction, for logs and the pre-generation report
+export function describeRedaction(redaction: Redaction): string {
+  return `Line ${redaction.line}: ${redaction.name ? `${redaction.label.toLowerCase()} of ${redaction.name}` : redaction.label}`
+}
@@ -0,0 +1,225 @@
+// Shared text-to-speech for edge functions. Each engine turns narration into
+// audio with a known duration; synthesizeSpeech uses the engine the chosen
+// voice belongs to and falls back to another configured engine, with a voice
+// of the same gender, when that one is unavailable.
+
+export type TTSEngineName = 'elevenlabs' | 'local'
+
+export type VoiceGender = 'female' | 'male' | 'neutral'
+
+// A voice from the catalog, or one of the built-in defaults
+export interface TTSVoice {
+  engine: TTSEngineName
+  voiceId: string
+  gender: VoiceGender
+  name?: string
+}
+
+export interface SpeechResult {
+  audio: ArrayBuffer
+  contentType: string
+  extension: string
+  durationSeconds: number
+  engine: TTSEngineName
+  voiceId: string
+}
+
+export type TTSLogger = (step: string, message: string, data?: unknown) => void
+
+interface TTSEngine {
+  name: TTSEngineName
+  label: string
+  isConfigured(): boolean
+  synthesize(text: string, voiceId: string, voiceStyle: string, locale: string): Promise<Omit<SpeechResult, 'engine' | 'voiceId'>>
+}
+
+const ENGINE_ORDER: TTSEngineName[] = ['elevenlabs', 'local']
+
+// Constant bitrate MP3, so the duration follows directly from the size
+const ELEVENLABS_OUTPUT_FORMAT = 'mp3_44100_128'
+const ELEVENLABS_BITRATE = 128000
+
+// The original ElevenLabs voices, still used when no catalog voice is chosen
+const DEFAULT_STYLE_VOICES: Record<string, TTSVoice> = {
+  professional: { engine: 'elevenlabs', voiceId: 'EXAVITQu4vr4xnSDxMaL', gender: 'female', name: 'Bella' },
+  casual: { engine: 'elevenlabs', voiceId: '21m00Tcm4TlvDq8ikWAM', gender: 'female', name: 'Rachel' },
+  enthusiastic: { engine: 'elevenlabs', voiceId: 'jsCqWAovK2LkecY7zXl4', gender: 'female', name: 'Freya' }
+}
+
+// Stand-ins when a voice's own engine is unavailable
+const FALLBACK_VOICES: Record<TTSEngineName, Record<VoiceGender, string>> = {
+  elevenlabs: {
+    female: 'EXAVITQu4vr4xnSDxMaL', // Bella
+    male: 'pNInz6obpgDQGcFmaJgB',   // Adam
+    neutral: 'SAz9YHcvj6GT2YYXdXww' // River
+  },
+  local: {
+    female: 'nova',
+    male: 'onyx',
+    neutral: 'alloy'
+  }
+}
+
+const LOCAL_STYLE_SPEED: Record<string, number> = {
+  professional: 1.0,
+  casual: 1.0,
+  enthusiastic: 1.1
+}
+
+const ENGINES: Record<TTSEngineName, TTSEngine> = {
+  elevenlabs: {
+    name: 'elevenlabs',
+    label: 'ElevenLabs',
+    isConfigured: () => !!Deno.env.get('ELEVENLABS_API_KEY'),
+    synthesize: synthesizeWithElevenLabs
+  },
+  local: {
+    name: 'local',
+    label: 'Local TTS endpoint',
+    isConfigured: () => !!Deno.env.get('TTS_LOCAL_BASE_URL'),
+    synthesize: synthesizeWithLocalEngine
+  }
+}
+
+export function getDefaultVoice(voiceStyle: string): TTSVoice {
+  return DEFAULT_STYLE_VOICES[voiceStyle] || DEFAULT_STYLE_VOICES.professional
+}
+
+export async function synthesizeSpeech(
+  text: string,
+  voice: TTSVoice,
+  voiceStyle: string,
+  locale: string,
+  log: TTSLogger
+): Promise<SpeechResult> {
+  const candidates = [
+    voice,
+    ...ENGINE_ORDER
+      .filter(engine => engine !== voice.engine)
+      .map(engine => ({ engine, voiceId: FALLBACK_VOICES[engine][voice.gender], gender: voice.gender }))
+  ].filter(candidate => ENGINES[candidate.engine].isConfigured())
+
+  if (candidates.length === 0) {
+    log('ERROR', '❌ No text-to-speech engine configured')
+    throw new Error('No text-to-speech engine configured. Please add ELEVENLABS_API_KEY or TTS_LOCAL_BASE_URL to your environment variables.')
+  }
+
+  const failures: string[] = []
+  for (const candidate of candidates) {
+    const engine = ENGINES[candidate.engine]
+    log('TTS', `🎤 Using ${engine.label}`, { voiceId: candidate.voiceId, gender: candidate.gender, voiceStyle, locale })
+
+    try {
+      const result = await engine.synthesize(text, candidate.voiceId, voiceStyle, locale)
+      return { ...result, engine: candidate.engine, voiceId: candidate.voiceId }
+    } catch (error) {
+      log('WARNING', `⚠️ ${engine.label} failed`, { voiceId: candidate.voiceId, error: error.message })
+      failures.push(error.message)
+    }
+  }
+
+  throw new Error(`All text-to-speech engines failed: ${failures.join('; ')}`)
+}
+
+async function synthesizeWithElevenLabs(text: string, voiceId: string, _voiceStyle: string, locale: string) {
+  const response = await fetch(`https://api.elevenlabs.io/v1/text-to-speech/${voiceId}?output_format=${ELEVENLABS_OUTPUT_FORMAT}`, {
+    method: 'POST',
+    headers: {
+      'Accept': 'audio/mpeg',
+      'Content-Type': 'application/json',
+      'xi-api-key': Deno.env.get('ELEVENLABS_API_KEY') ?? '',
+    },
+    body: JSON.stringify({
+      text,
+      // Every premade voice speaks the multilingual model's languages
+      model_id: locale === 'en' ? 'eleven_monolingual_v1' : 'eleven_multilingual_v2',
+      voice_settings: {
+        stability: 0.5,
+        similarity_boost: 0.5,
+        style: 0.0,
+        use_speaker_boost: true
+      }
+    }),
+  })
+
+  if (!response.ok) {
+    const errorText = await response.text()
+    throw new Error(`ElevenLabs API error: ${response.status} - ${errorText}`)
+  }
+
+  const audio = await response.arrayBuffer()
+  return {
+    audio,
+    contentType: 'audio/mpeg',
+    extension: 'mp3',
+    durationSeconds: (audio.byteLength * 8) / ELEVENLABS_BITRATE
+  }
+}
+
+// Any server with OpenAI's /audio/speech API (Kokoro-FastAPI, openedai-speech, LocalAI)
+async function synthesizeWithLocalEngine(text: string, voiceId: string, voiceStyle: string) {
+  const baseUrl = (Deno.env.get('TTS_LOCAL_BASE_URL') ?? '').replace(/\/$/, '')
+  const apiKey = Deno.env.get('TTS_LOCAL_API_KEY')
+
+  const response = await fetch(`${baseUrl}/audio/speech`, {
+    method: 'POST',
+    headers: {
+      ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      model: Deno.env.get('TTS_LOCAL_MODEL') || 'tts-1',
+      input: text,
+      voice: voiceId,
+      response_format: 'wav',
+      speed: LOCAL_STYLE_SPEED[voiceStyle] || 1.0
+    }),
+  })
+
+  if (!response.ok) {
+    const errorText = await response.text()
+    throw new Error(`Local TTS API error: ${response.status} - ${errorText}`)
+  }
+
+  const audio = await response.arrayBuffer()
+  return {
+    audio,
+    contentType: 'audio/wav',
+    extension: 'wav',
+    durationSeconds: getWavDuration(audio)
+  }
+}
+
+// Reads the byte rate from the fmt chunk and the length of the data chunk.
+// Streaming servers write a placeholder data size (0 or 0xFFFFFFFF), so fall
+// back to the bytes left in the file.
+function getWavDuration(audio: ArrayBuffer): number {
+  const view = new DataView(audio)
+  const chunkId = (offset: number) => String.fromCharCode(
+    view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3)
+  )
+
+  if (audio.byteLength < 44 || chunkId(0) !== 'RIFF' || chunkId(8) !== 'WAVE') {
+    throw new Error('Local TTS engine did not return WAV audio')
+  }
+
+  let byteRate = 0
+  let offset = 12
+  while (offset + 8 <= audio.byteLength) {
+    const id = chunkId(offset)
+    const size = view.getUint32(offset + 4, true)
+
+    if (id === 'fmt ') {
+      byteRate = view.getUint32(offset + 16, true)
+    } else if (id === 'data') {
+      const remaining = audio.byteLength - offset - 8
+      const dataSize = size === 0 ? remaining : Math.min(size, remaining)
+      if (!byteRate) break
+      return dataSize / byteRate
+    }
+
+    offset += 8 + size + (size % 2)
+  }
+
+  throw new Error('Could not read the duration of the local TTS audio')
+}
@@ -75,12 +75,30 @@ Deno.serve(async (req) => {
       }
     }
 
+    // Pick models by the project owner's subscription tier
+    let tier: LLMTier = 'free'
+    if (projectContext) {
+      const { data: profile } = await supabaseClient
+        .from('profiles')
+        .select('subscription_tier')
+        .eq('id', projectContext.user_id)
+        .single()
+      tier = profile?.subscription_tier || 'free'
+    }
+
+    // Projects from before redaction, or code passed in directly, may still hold secrets
+    const { text: redactedCodeSnippet, redactions } = redactSecrets(actualCodeSnippet)
+    if (redactions.length > 0) {
+      log('SECURITY', `🔒 Masked ${redactions.length} secret(s) in the code context`, redactions.map(describeRedaction))
+    }
+
     // Generate AI response with the ACTUAL code snippet
     const response = await generateAIResponse(
       message, 
-      actualCodeSnippet,  // Use actual code from database
+      redactedCodeSnippet,  // Use actual code from database
       title, 
-      projectContext
+      projectContext,
+      tier
     )
     
     log('SUCCESS', '✅ AI response generated with actual code context', {
@@ -122,168 +140,22 @@ async function generateAIResponse(
   userMessage: string, 
   codeSnippet: string, 
   title: string, 
-  projectContext: any = null
+  projectContext: any = null,
+  tier: LLMTier = 'free'
 ): Promise<string> {
   log('AI', '🤖 Generating AI response with ACTUAL code context', {
     codeLength: codeSnippet.length,
     hasProjectContext: !!projectContext
   })
-  
-  const geminiKey = Deno.env.get('GOOGLE_GEMINI_API_KEY')
-  const openaiKey = Deno.env.get('OPENAI_API_KEY')
-  const claudeKey = Deno.env.get('ANTHROPIC_API_KEY')
-  
-  // Try Google Gemini first (free and excellent)
-  if (geminiKey) {
-    log('AI', '🟢 Using Google Gemini for conversation')
-    return await generateResponseWithGemini(userMessage, codeSnippet, title, projectContext, geminiKey)
-  }
-  
-  // Fallback to OpenAI
-  if (openaiKey) {
-    log('AI', '🟡 Using OpenAI for conversation')
-    return await generateResponseWithOpenAI(userMessage, codeSnippet, title, projectContext, openaiKey)
-  }
-  
-  // Fallback to Claude
-  if (claudeKey) {
-    log('AI', '🟣 Using Claude for conversation')
-    return await generateResponseWithClaude(userMessage, codeSnippet, title, projectContext, claudeKey)
-  }
-  
-  throw new Error('No AI API keys configured for conversation')
-}
-
-async function generateResponseWithGemini(
-  userMessage: string, 
-  codeSnippet: string, 
-  title: string, 
-  projectContext: any,
-  apiKey: string
-): Promise<string> {
-  const prompt = createCodeFocusedPrompt(userMessage, codeSnippet, title, projectContext)
-  
-  const response = await fetch(`https://generativelanguage.googleapis.com/v1/models/gemini-1.5-flash:generateContent?key=${apiKey}`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      contents: [{
-        parts: [{
-          text: prompt
-        }]
-      }],
-      generationConfig: {
-        temperature: 0.7,
-        topK: 40,
-        topP: 0.95,
-        maxOutputTokens: 1024,
-      }
-    }),
-  })
-
-  if (!response.ok) {
-    const errorText = await response.text()
-    throw new Error(`Gemini API error: ${response.status} - ${errorText}`)
-  }
-
-  const data = await response.json()
-  const aiResponse = data.candidates?.[0]?.content?.parts?.[0]?.text
-  
-  if (!aiResponse) {
-    throw new Error('No response content received from Gemini')
-  }
-  
-  return aiResponse
-}
-
-async function generateResponseWithOpenAI(
-  userMessage: string, 
-  codeSnippet: string, 
-  title: string, 
-  projectContext: any,
-  apiKey: string
-): Promise<string> {
-  const prompt = createCodeFocusedPrompt(userMessage, codeSnippet, title, projectContext)
-  
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${apiKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: 'gpt-4',
-      messages: [
-        {
-          role: 'system',
-          content: 'You are an expert software engineer and code analyst. You have deep knowledge of programming patterns, best practices, and can provide detailed insights about code implementation, architecture, and improvements. Always reference specific parts of the code when answering questions.'
-        },
-        {
-          role: 'user',
-          content: prompt
-        }
-      ],
-      max_tokens: 1024,
-      temperature: 0.7,
-    }),
-  })
 
-  if (!response.ok) {
-    const errorText = await response.text()
-    throw new Error(`OpenAI API error: ${response.status} - ${errorText}`)
-  }
+  const result = await generateText({
+    system: 'You are an expert software engineer and code analyst. You have deep knowledge of programming patterns, best practices, and can provide detailed insights about code implementation, architecture, and improvements. Always reference specific parts of the code when answering questions.',
+    prompt: createCodeFocusedPrompt(userMessage, codeSnippet, title, projectContext),
+    maxTokens: 1024,
+    tier
+  }, log)
 
-  const data = await response.json()
-  const aiResponse = data.choices?.[0]?.message?.content
-  
-  if (!aiResponse) {
-    throw new Error('No response content received from OpenAI')
-  }
-  
-  return aiResponse
-}
-
-async function generateResponseWithClaude(
-  userMessage: string, 
-  codeSnippet: string, 
-  title: string, 
-  projectContext: any,
-  apiKey: string
-): Promise<string> {
-  const prompt = createCodeFocusedPrompt(userMessage, codeSnippet, title, projectContext)
-  
-  const response = await fetch('https://api.anthropic.com/v1/messages', {
-    method: 'POST',
-    headers: {
-      'x-api-key': apiKey,
-      'Content-Type': 'application/json',
-      'anthropic-version': '2023-06-01'
-    },
-    body: JSON.stringify({
-      model: 'claude-3-sonnet-20240229',
-      max_tokens: 1024,
-      messages: [{
-        role: 'user',
-        content: prompt
-      }]
-    }),
-  })
-
-  if (!response.ok) {
-    const errorText = await response.text()
-    throw new Error(`Claude API error: ${response.status} - ${errorText}`)
-  }
-
-  const data = await response.json()
-  const aiResponse = data.content?.[0]?.text
-  
-  if (!aiResponse) {
-    throw new Error('No response content received from Claude')
-  }
-  
-  return aiResponse
+  return result.text
 }
 
 function createCodeFocusedPrompt(
@@ -428,4 +300,6 @@ function analyzeCodeFeatures(code: string): string[] {
 }
 
 // Import createClient function
-import { createClient } from 'npm:@supabase/supabase-js@2'
\ No newline at end of file
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import { generateText, type LLMTier } from '../_shared/llm.ts'
+import { redactSecrets, describeRedaction } from '../_shared/redaction.ts'
\ No newline at end of file
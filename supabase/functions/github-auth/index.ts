@@ -6,6 +6,16 @@ const corsHeaders = {
 interface GitHubAuthRequest {
   code: string
   state?: string
+  // 'app' when the code comes from the GitHub App's user authorization, on install or later
+  mode?: 'oauth' | 'app'
+  // Passed back by GitHub after an installation; verified against the user's installations
+  installationId?: number
+}
+
+interface GitHubInstallation {
+  id: number
+  account: { login: string }
+  repository_selection: 'all' | 'selected'
 }
 
 // Logging utility
@@ -26,17 +36,20 @@ Deno.serve(async (req) => {
     log('INIT', '🚀 Starting GitHub OAuth flow')
     
     const requestData: GitHubAuthRequest = await req.json()
-    const { code } = requestData
+    const { code, installationId } = requestData
+    const mode = requestData.mode ?? 'oauth'
     
-    log('REQUEST', 'Received GitHub auth code', { codeLength: code.length })
+    log('REQUEST', 'Received GitHub auth code', { codeLength: code.length, mode, installationId })
 
-    // Get GitHub OAuth credentials from environment
-    const clientId = Deno.env.get('GITHUB_CLIENT_ID')
-    const clientSecret = Deno.env.get('GITHUB_CLIENT_SECRET')
+    // Get GitHub OAuth credentials from environment; a GitHub App has its own client ID and secret
+    const clientId = Deno.env.get(mode === 'app' ? 'GITHUB_APP_CLIENT_ID' : 'GITHUB_CLIENT_ID')
+    const clientSecret = Deno.env.get(mode === 'app' ? 'GITHUB_APP_CLIENT_SECRET' : 'GITHUB_CLIENT_SECRET')
     
     if (!clientId || !clientSecret) {
-      log('ERROR', '❌ GitHub OAuth credentials not configured')
-      throw new Error('GitHub OAuth not configured. Please add GITHUB_CLIENT_ID and GITHUB_CLIENT_SECRET to your environment variables.')
+      log('ERROR', '❌ GitHub OAuth credentials not configured', { mode })
+      throw new Error(mode === 'app'
+        ? 'GitHub App not configured. Please add GITHUB_APP_CLIENT_ID and GITHUB_APP_CLIENT_SECRET to your environment variables.'
+        : 'GitHub OAuth not configured. Please add GITHUB_CLIENT_ID and GITHUB_CLIENT_SECRET to your environment variables.')
     }
 
     // Exchange code for access token
@@ -112,13 +125,28 @@ Deno.serve(async (req) => {
       throw new Error('Invalid authentication token')
     }
 
+    let installation: GitHubInstallation | null = null
+    if (mode === 'app') {
+      // The user token only proves which installations the user can access; it isn't kept
+      installation = await findUserInstallation(accessToken, installationId)
+
+      // Stored where only edge functions can write it, replacing any OAuth token
+      log('DATABASE', '🔐 Storing the verified GitHub App installation', { installationId: installation.id })
+      await saveGitHubInstallation(supabaseClient, user.id, installation.id)
+    } else {
+      // Store the token encrypted, out of the client-readable profile
+      log('DATABASE', '🔐 Storing encrypted GitHub access token')
+      await saveGitHubToken(supabaseClient, user.id, accessToken)
+    }
+
     // Update user profile with GitHub info
     log('DATABASE', '💾 Updating user profile with GitHub info')
     const { error: updateError } = await supabaseClient
       .from('profiles')
       .update({
         github_username: userData.login,
-        github_access_token: accessToken,
+        // A copy for display; the server only trusts github_credentials
+        github_installation_id: installation?.id ?? null,
         updated_at: new Date().toISOString()
       })
       .eq('id', user.id)
@@ -138,7 +166,14 @@ Deno.serve(async (req) => {
           github_id: userData.id,
           avatar_url: userData.avatar_url,
         },
-        message: 'GitHub account connected successfully!'
+        installation: installation && {
+          id: installation.id,
+          account: installation.account.login,
+          repository_selection: installation.repository_selection,
+        },
+        message: installation
+          ? `GitHub App connected for ${installation.account.login}!`
+          : 'GitHub account connected successfully!'
       }),
       {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -165,5 +200,41 @@ Deno.serve(async (req) => {
   }
 })
 
+// The requested installation if the user can access it, otherwise the first one they can
+async function findUserInstallation(userToken: string, installationId?: number): Promise<GitHubInstallation> {
+  log('GITHUB', '🔍 Fetching installations the user can access')
+  const response = await fetch('https://api.github.com/user/installations?per_page=100', {
+    headers: {
+      'Authorization': `Bearer ${userToken}`,
+      'Accept': 'application/vnd.github.v3+json',
+      'User-Agent': 'ExplainMyTool-App',
+    },
+  })
+
+  if (!response.ok) {
+    log('ERROR', '❌ Failed to fetch installations', { status: response.status })
+    throw new Error('Failed to fetch GitHub App installations')
+  }
+
+  const { installations } = await response.json() as { installations: GitHubInstallation[] }
+  log('GITHUB', `✅ Found ${installations.length} installation(s)`, {
+    installations: installations.map(item => ({ id: item.id, account: item.account.login }))
+  })
+
+  if (installationId) {
+    const requested = installations.find(item => item.id === Number(installationId))
+    if (!requested) {
+      throw new Error('That GitHub App installation is not accessible to your GitHub account')
+    }
+    return requested
+  }
+
+  if (installations.length === 0) {
+    throw new Error('The GitHub App is not installed on any account you have access to. Install it first, or ask an organization admin to.')
+  }
+  return installations[0]
+}
+
 // Import createClient function
-import { createClient } from 'npm:@supabase/supabase-js@2'
\ No newline at end of file
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import { saveGitHubToken, saveGitHubInstallation } from '../_shared/githubTokens.ts'
\ No newline at end of file
@@ -9,6 +9,20 @@ interface GitHubReposRequest {
   per_page?: number
 }
 
+// The fields of GitHub's repository objects that are synced
+interface GitHubRepository {
+  id: number
+  name: string
+  full_name: string
+  description: string | null
+  html_url: string
+  clone_url: string
+  language: string | null
+  stargazers_count: number
+  forks_count: number
+  private: boolean
+}
+
 // Logging utility
 function log(step: string, message: string, data?: any) {
   const timestamp = new Date().toISOString()
@@ -55,11 +69,11 @@ Deno.serve(async (req) => {
       throw new Error('Invalid authentication token')
     }
 
-    // Get user profile with GitHub token
+    // Get user profile
     log('DATABASE', '🔍 Fetching user profile')
     const { data: profile, error: profileError } = await supabaseClient
       .from('profiles')
-      .select('github_username, github_access_token')
+      .select('github_username')
       .eq('id', user.id)
       .single()
 
@@ -68,15 +82,26 @@ Deno.serve(async (req) => {
       throw new Error('User profile not found')
     }
 
-    if (!profile.github_access_token) {
+    const credential = await loadGitHubCredential(supabaseClient, user.id, log)
+    if (!credential) {
       log('ERROR', '❌ GitHub not connected')
       throw new Error('GitHub account not connected. Please connect your GitHub account first.')
     }
 
+    let rateLimit: GitHubRateLimit | null = null
     if (sync) {
       // Fetch repositories from GitHub and sync to database
       log('GITHUB', '🔄 Syncing repositories from GitHub')
-      await syncRepositoriesFromGitHub(supabaseClient, user.id, profile.github_access_token, page, per_page)
+      const github: GitHubCacheScope = { supabaseClient, userId: user.id, accessToken: credential.token, log }
+      try {
+        if (credential.installationId) {
+          await syncInstallationRepositories(github)
+        } else {
+          await syncRepositoriesFromGitHub(github, page, per_page)
+        }
+      } finally {
+        rateLimit = await saveRateLimit(github)
+      }
     }
 
     // Fetch repositories from database
@@ -102,7 +127,8 @@ Deno.serve(async (req) => {
         success: true,
         repositories: repositories || [],
         total: repositories?.length || 0,
-        synced: sync
+        synced: sync,
+        rateLimit
       }),
       {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -130,33 +156,81 @@ Deno.serve(async (req) => {
 })
 
 async function syncRepositoriesFromGitHub(
-  supabaseClient: any, 
-  userId: string, 
-  accessToken: string, 
+  github: GitHubCacheScope,
   page: number = 1, 
   per_page: number = 30
 ) {
   log('SYNC', '🔄 Starting GitHub repositories sync')
   
-  // Fetch repositories from GitHub
-  const response = await fetch(`https://api.github.com/user/repos?page=${page}&per_page=${per_page}&sort=updated&affiliation=owner,collaborator`, {
-    headers: {
-      'Authorization': `Bearer ${accessToken}`,
-      'Accept': 'application/vnd.github.v3+json',
-      'User-Agent': 'ExplainMyTool-App',
-    },
-  })
-
-  if (!response.ok) {
-    log('ERROR', '❌ Failed to fetch repositories from GitHub', { status: response.status })
-    throw new Error(`Failed to fetch repositories from GitHub: ${response.status}`)
+  // An unchanged list comes from the cache; it's still upserted, since rows may have been
+  // removed since (an installation sync, or switching between OAuth and the GitHub App)
+  const response = await fetchRepositoryPage(github, `/user/repos?page=${page}&per_page=${per_page}&sort=updated&affiliation=owner,collaborator`)
+
+  const githubRepos: GitHubRepository[] = JSON.parse(response.body)
+  log('SYNC', response.cached
+    ? `💾 ${githubRepos.length} repositories unchanged on GitHub since the last sync`
+    : `📥 Fetched ${githubRepos.length} repositories from GitHub`)
+
+  await upsertRepositories(github.supabaseClient, github.userId, githubRepos)
+
+  log('SYNC', '✅ Repositories synced successfully')
+}
+
+// An installation only sees the repositories it was granted, so sync all of them
+// and drop any the installation no longer has access to. Unchanged pages come
+// from the cache but are synced all the same, as the table may have drifted.
+async function syncInstallationRepositories(github: GitHubCacheScope) {
+  log('SYNC', '🔄 Starting GitHub App installation repositories sync')
+  const { supabaseClient, userId } = github
+
+  const githubRepos: GitHubRepository[] = []
+  let changed = false
+  for (let page = 1; ; page++) {
+    const response = await fetchRepositoryPage(github, `/installation/repositories?page=${page}&per_page=100`)
+    changed ||= !response.cached
+
+    const data = JSON.parse(response.body)
+    githubRepos.push(...data.repositories)
+    if (githubRepos.length >= data.total_count || data.repositories.length === 0) break
   }
 
-  const githubRepos = await response.json()
-  log('SYNC', `📥 Fetched ${githubRepos.length} repositories from GitHub`)
+  log('SYNC', changed
+    ? `📥 Fetched ${githubRepos.length} repositories granted to the installation`
+    : `💾 ${githubRepos.length} installation repositories unchanged on GitHub since the last sync`)
 
+  await upsertRepositories(supabaseClient, userId, githubRepos)
+
+  const grantedIds = githubRepos.map(repo => repo.id)
+  let removal = supabaseClient
+    .from('repositories')
+    .delete()
+    .eq('user_id', userId)
+  if (grantedIds.length > 0) {
+    removal = removal.not('github_id', 'in', `(${grantedIds.join(',')})`)
+  }
+  const { error: deleteError } = await removal
+
+  if (deleteError) {
+    log('ERROR', '❌ Failed to remove repositories no longer granted', deleteError)
+    throw new Error(`Failed to sync repositories: ${deleteError.message}`)
+  }
+
+  log('SYNC', '✅ Installation repositories synced successfully')
+}
+
+// Revalidated with the ETag of the last sync, so an unchanged page costs no rate limit
+async function fetchRepositoryPage(github: GitHubCacheScope, path: string): Promise<CachedResponse> {
+  try {
+    return await cachedGitHubGet(github, path)
+  } catch (error) {
+    log('ERROR', '❌ Failed to fetch repositories from GitHub', { path, status: error.status })
+    throw new Error(`Failed to fetch repositories from GitHub: ${error.message}`)
+  }
+}
+
+async function upsertRepositories(supabaseClient: SupabaseClient, userId: string, githubRepos: GitHubRepository[]) {
   // Prepare repository data for database
-  const repoData = githubRepos.map((repo: any) => ({
+  const repoData = githubRepos.map(repo => ({
     user_id: userId,
     github_id: repo.id,
     name: repo.name,
@@ -184,9 +258,10 @@ async function syncRepositoriesFromGitHub(
     log('ERROR', '❌ Failed to upsert repositories', upsertError)
     throw new Error(`Failed to sync repositories: ${upsertError.message}`)
   }
-
-  log('SYNC', '✅ Repositories synced successfully')
 }
 
 // Import createClient function
-import { createClient } from 'npm:@supabase/supabase-js@2'
\ No newline at end of file
+import { createClient, type SupabaseClient } from 'npm:@supabase/supabase-js@2'
+import { loadGitHubCredential } from '../_shared/githubTokens.ts'
+import { cachedGitHubGet, saveRateLimit, type CachedResponse, type GitHubCacheScope } from '../_shared/githubCache.ts'
+import type { GitHubRateLimit } from '../_shared/github.ts'
\ No newline at end of file
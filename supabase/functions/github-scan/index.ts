@@ -5,9 +5,114 @@ const corsHeaders = {
 
 interface GitHubScanRequest {
   repositoryId: string
+  // 'refs' lists the repository's branches and tags; 'workspaces' lists the packages of a
+  // monorepo; 'diff' loads a pull request or commit range
+  action?: 'scan' | 'refs' | 'workspaces' | 'diff'
+  // Branch, tag or commit SHA to scan; the default branch when omitted
+  ref?: string
+  // For 'diff': a pull request number, or the two ends of a commit range
+  pullNumber?: number
+  base?: string
+  head?: string
   maxFiles?: number
+  // Glob patterns relative to the repository root, e.g. "src/**" or "**/*.test.ts"
+  includePaths?: string[]
+  excludePaths?: string[]
+  // Directory of a workspace package to scan instead of the whole repository
+  workspace?: string
+  // Cap on the file content returned, in estimated LLM tokens
+  tokenBudget?: number
 }
 
+interface ScanOptions {
+  ref?: string
+  maxFiles: number
+  includePaths: string[]
+  excludePaths: string[]
+  workspace?: string
+  tokenBudget: number
+}
+
+interface TreeEntry {
+  path: string
+  type: 'blob' | 'tree' | 'commit'
+  sha: string
+  size?: number
+}
+
+interface ScannedFile {
+  path: string
+  content: string
+  language: string
+  size: number
+  lines: number
+  symbols?: CodeSymbol[]
+  imports?: string[]
+  importedBy?: string[]
+  entryPoint?: boolean
+}
+
+// README, CHANGELOG and docs/ content, kept apart from the code as what the project is
+// for, condensed to fit the intent budget
+interface IntentDocument {
+  path: string
+  kind: 'readme' | 'changelog' | 'docs'
+  content: string
+  truncated: boolean
+}
+
+// A package of a monorepo: an npm/pnpm workspace, a Cargo workspace member or a Go module
+interface Workspace {
+  // Directory relative to the repository root
+  path: string
+  name: string
+  kind: 'npm' | 'pnpm' | 'cargo' | 'go'
+  manifest: string
+  readme: string | null
+  description: string | null
+}
+
+// One line of a .gitignore, compiled; base is the directory the .gitignore lives in
+interface IgnoreRule {
+  base: string
+  pattern: RegExp
+  negate: boolean
+  directoryOnly: boolean
+}
+
+const DEFAULT_TOKEN_BUDGET = 24000
+// A diff is narrated line by line, so it gets less room than a whole-repository scan
+const DEFAULT_DIFF_TOKEN_BUDGET = 6000
+const CHARS_PER_TOKEN = 4
+const MAX_FILE_BYTES = 50000
+// Nested .gitignore files fetched per scan, shallowest first
+const MAX_GITIGNORE_FILES = 10
+// Package manifests read when listing a monorepo's workspaces
+const MAX_WORKSPACES = 50
+const README_FILE = /^readme(\.(md|markdown|rst|txt))?$/i
+const CHANGELOG_FILE = /^(changelog|changes|history|releases)(\.(md|markdown|rst|txt))?$/i
+const DOCS_FILE = /^docs?\/.*\.(md|mdx|markdown|rst|txt)$/i
+// Intent documents get their own budget on top of the code's, split by kind
+const INTENT_TOKEN_BUDGET = 3000
+const INTENT_TOKEN_LIMITS: Record<IntentDocument['kind'], number> = { readme: 1500, changelog: 750, docs: 500 }
+const MAX_INTENT_DOCS_FILES = 3
+
+// Never worth sending to the LLM, whether or not the repository ignores them
+const DEFAULT_IGNORE_PATTERNS = [
+  'node_modules/', 'vendor/', 'dist/', 'build/', 'out/', 'coverage/', 'target/',
+  '.next/', '.nuxt/', '.cache/', '__pycache__/', '.venv/', 'venv/',
+  '*.min.js', '*.min.css', '*.map', '*.lock', 'package-lock.json', 'pnpm-lock.yaml',
+  '*.generated.*', '*.pb.go', '*_pb2.py'
+]
+
+// Directories that usually hold the code a demo should talk about, and ones that usually don't
+const SOURCE_DIRECTORIES = new Set(['src', 'lib', 'app', 'packages', 'apps', 'cmd', 'pkg', 'server', 'api', 'core', 'internal'])
+const SUPPORT_DIRECTORIES = new Set([
+  'test', 'tests', '__tests__', 'spec', 'e2e', 'examples', 'example', 'docs', 'doc',
+  'fixtures', '__mocks__', 'mocks', 'scripts', 'migrations', '.github', 'benchmarks'
+])
+const DATA_EXTENSIONS = new Set(['json', 'yaml', 'yml', 'xml', 'md', 'sql', 'css', 'scss', 'sass', 'less'])
+
 // Logging utility
 function log(step: string, message: string, data?: any) {
   const timestamp = new Date().toISOString()
@@ -22,13 +127,23 @@ Deno.serve(async (req) => {
     return new Response('ok', { headers: corsHeaders })
   }
 
+  let github: GitHubCacheScope | null = null
   try {
     log('INIT', '🚀 Starting repository code scanning')
     
     const requestData: GitHubScanRequest = await req.json()
-    const { repositoryId, maxFiles = 10 } = requestData
+    const {
+      repositoryId,
+      action = 'scan',
+      ref,
+      maxFiles = 10,
+      includePaths = [],
+      excludePaths = [],
+      workspace,
+      tokenBudget = DEFAULT_TOKEN_BUDGET
+    } = requestData
     
-    log('REQUEST', 'Repository scan parameters', { repositoryId, maxFiles })
+    log('REQUEST', 'Repository scan parameters', { repositoryId, action, ref, maxFiles, includePaths, excludePaths, workspace, tokenBudget })
 
     // Get the current user from Supabase
     const authHeader = req.headers.get('Authorization')
@@ -56,7 +171,7 @@ Deno.serve(async (req) => {
     log('DATABASE', '🔍 Fetching repository details')
     const { data: repository, error: repoError } = await supabaseClient
       .from('repositories')
-      .select('*, profiles!inner(github_access_token)')
+      .select('*')
       .eq('id', repositoryId)
       .eq('user_id', user.id)
       .single()
@@ -66,18 +181,97 @@ Deno.serve(async (req) => {
       throw new Error('Repository not found or access denied')
     }
 
-    const accessToken = repository.profiles.github_access_token
+    const accessToken = await loadGitHubToken(supabaseClient, user.id, log)
     if (!accessToken) {
       log('ERROR', '❌ No GitHub access token')
       throw new Error('GitHub access token not found')
     }
+    github = { supabaseClient, userId: user.id, accessToken, repositoryId: repository.id, log }
+
+    if (action === 'refs') {
+      log('GITHUB', '🌿 Listing branches and tags')
+      const refs = await listRepositoryRefs(github, repository.full_name)
+
+      return new Response(
+        JSON.stringify({ success: true, refs }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 200,
+        },
+      )
+    }
+
+    if (action === 'workspaces') {
+      log('GITHUB', '📦 Listing workspace packages')
+      const workspaces = await listWorkspaces(github, repository.full_name, ref?.trim() || undefined)
+
+      log('SUCCESS', `✅ Found ${workspaces.length} workspace packages`)
+
+      return new Response(
+        JSON.stringify({ success: true, workspaces }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 200,
+        },
+      )
+    }
+
+    if (action === 'diff') {
+      const { pullNumber, base, head } = requestData
+      if (!pullNumber && !(base?.trim() && head?.trim())) {
+        throw new Error('A pull request number or a base and head ref are required')
+      }
+
+      const changeSet = await fetchChangeSet(
+        repository.full_name,
+        accessToken,
+        pullNumber ? { pullNumber } : { base: base!.trim(), head: head!.trim() },
+        log
+      )
+      const formatted = formatChangeSetSnippet(changeSet, requestData.tokenBudget ?? DEFAULT_DIFF_TOKEN_BUDGET)
+
+      log('SUCCESS', '✅ Changes loaded', {
+        ref: changeSet.ref,
+        files: changeSet.files.length,
+        included: formatted.files.length,
+        skipped: formatted.skipped.length,
+        tokens: formatted.tokens
+      })
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          changes: {
+            ...changeSet,
+            // Patches are only needed in the snippet
+            files: changeSet.files.map(file => ({
+              path: file.path,
+              previousPath: file.previousPath,
+              status: file.status,
+              additions: file.additions,
+              deletions: file.deletions
+            })),
+            snippet: formatted.snippet,
+            includedFiles: formatted.files,
+            skippedFiles: formatted.skipped,
+            additions: formatted.additions,
+            deletions: formatted.deletions,
+            tokens: formatted.tokens
+          }
+        }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 200,
+        },
+      )
+    }
 
     // Scan repository files
     log('GITHUB', '📁 Scanning repository files')
     const codeAnalysis = await scanRepositoryCode(
+      github,
       repository.full_name,
-      accessToken,
-      maxFiles
+      { ref: ref?.trim() || undefined, maxFiles, includePaths, excludePaths, workspace: workspace?.trim() || undefined, tokenBudget }
     )
 
     log('SUCCESS', '✅ Repository scan completed', {
@@ -121,97 +315,127 @@ Deno.serve(async (req) => {
         status: 500,
       },
     )
+  } finally {
+    // Cached responses and 304s don't count, so this is what the scan actually spent
+    if (github) await saveRateLimit(github)
   }
 })
 
 async function scanRepositoryCode(
+  github: GitHubCacheScope,
   fullName: string,
-  accessToken: string,
-  maxFiles: number
+  options: ScanOptions
 ): Promise<{
-  files: Array<{
-    path: string
-    content: string
-    language: string
-    size: number
-    lines: number
-  }>
+  files: ScannedFile[]
   summary: string
   totalLines: number
   primaryLanguage: string
   keyFeatures: string[]
+  structure: Omit<CodeStructure, 'files'>
+  intent: IntentDocument[]
+  scan: {
+    ref: string
+    sha: string
+    workspace: string | null
+    treeFiles: number
+    candidates: number
+    ignored: number
+    tokens: number
+    tokenBudget: number
+    truncated: boolean
+  }
 }> {
-  log('SCAN', '🔍 Starting repository code scan', { fullName, maxFiles })
-
-  // Get repository contents
-  const contentsResponse = await fetch(`https://api.github.com/repos/${fullName}/contents`, {
-    headers: {
-      'Authorization': `Bearer ${accessToken}`,
-      'Accept': 'application/vnd.github.v3+json',
-      'User-Agent': 'ExplainMyTool-App',
-    },
-  })
+  log('SCAN', '🔍 Starting repository code scan', { fullName, ...options })
+
+  const ref = options.ref || await getDefaultBranch(github, fullName)
+
+  // Pin the scan to one commit, so a branch moving mid-scan can't mix revisions
+  const sha = await resolveRef(github, fullName, ref)
+  log('SCAN', `📌 Resolved ${ref} to ${sha}`)
 
-  if (!contentsResponse.ok) {
-    throw new Error(`Failed to fetch repository contents: ${contentsResponse.status}`)
+  const { blobs, truncated } = await fetchTree(github, fullName, sha)
+
+  // A workspace scan only considers files under the package's directory, ranked as if it were the root
+  const workspace = options.workspace?.replace(/^\/+|\/+$/g, '') || null
+  const scope = workspace ? `${workspace}/` : ''
+  const treeFiles = blobs.filter(entry => entry.path.startsWith(scope)).length
+  if (workspace && treeFiles === 0) {
+    throw new Error(`No files found under ${workspace} at ${ref}`)
   }
 
-  const contents = await contentsResponse.json()
-  
-  // Filter for code files and prioritize important ones
-  const codeFiles = contents
-    .filter((item: any) => item.type === 'file')
-    .filter((file: any) => isCodeFile(file.name))
-    .sort((a: any, b: any) => getFilePriority(b.name) - getFilePriority(a.name))
-    .slice(0, maxFiles)
+  const ignoreRules = [
+    ...DEFAULT_IGNORE_PATTERNS.map(pattern => parseIgnoreLine(pattern, '')).filter((rule): rule is IgnoreRule => !!rule),
+    ...await loadGitignoreRules(github, fullName, blobs)
+  ]
+  const includePatterns = options.includePaths.map(globToRegExp)
+  const excludePatterns = options.excludePaths.map(globToRegExp)
 
-  log('SCAN', `📄 Found ${codeFiles.length} code files to analyze`)
+  // Read for intent instead of being shown as code
+  const intentEntries = selectIntentDocuments(blobs, scope, ignoreRules)
+  const intentPaths = new Set(intentEntries.map(({ entry }) => entry.path))
 
-  const files = []
+  let ignored = 0
+  const candidates = blobs.filter(entry => {
+    const fileName = entry.path.split('/').pop() || entry.path
+    if (!entry.path.startsWith(scope) || intentPaths.has(entry.path)) return false
+    if (!isCodeFile(fileName) || (entry.size ?? 0) > MAX_FILE_BYTES) return false
+
+    if (isIgnored(entry.path, ignoreRules)
+      || (includePatterns.length > 0 && !includePatterns.some(pattern => matchesGlob(pattern, entry.path)))
+      || excludePatterns.some(pattern => matchesGlob(pattern, entry.path))) {
+      ignored++
+      return false
+    }
+    return true
+  })
+
+  const ranked = candidates
+    .map(entry => ({ entry, score: rankFile({ ...entry, path: entry.path.slice(scope.length) }) }))
+    .sort((a, b) => b.score - a.score)
+
+  log('SCAN', `📄 Found ${candidates.length} candidate files in ${treeFiles} (${ignored} ignored or filtered out)`)
+
+  const files: ScannedFile[] = []
   let totalLines = 0
+  let tokens = 0
   const languageCount: { [key: string]: number } = {}
 
-  // Fetch and analyze each file
-  for (const file of codeFiles) {
-    try {
-      log('SCAN', `📖 Analyzing file: ${file.name}`)
-      
-      const fileResponse = await fetch(file.download_url, {
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-          'User-Agent': 'ExplainMyTool-App',
-        },
-      })
+  // Take files in rank order while they fit the token budget; a big file is skipped in favour of smaller ones after it
+  for (const { entry, score } of ranked) {
+    if (files.length >= options.maxFiles) break
 
-      if (!fileResponse.ok) {
-        log('WARNING', `⚠️ Failed to fetch file: ${file.name}`)
-        continue
-      }
+    const estimatedTokens = Math.ceil((entry.size ?? 0) / CHARS_PER_TOKEN)
+    if (tokens + estimatedTokens > options.tokenBudget) {
+      log('SCAN', `⏭️ Skipping ${entry.path}, it would exceed the token budget`, { estimatedTokens, tokens })
+      continue
+    }
 
-      const content = await fileResponse.text()
-      
-      // Skip binary files or very large files
-      if (content.length > 50000 || isBinaryContent(content)) {
-        log('SCAN', `⏭️ Skipping large/binary file: ${file.name}`)
+    try {
+      log('SCAN', `📖 Analyzing file: ${entry.path}`, { score })
+      const content = await fetchCachedBlob(github, fullName, entry.sha)
+
+      if (isBinaryContent(content)) {
+        log('SCAN', `⏭️ Skipping binary file: ${entry.path}`)
         continue
       }
 
-      const language = getFileLanguage(file.name)
+      const language = getFileLanguage(entry.path)
       const lines = content.split('\n').length
-      
+
       files.push({
-        path: file.path,
+        path: entry.path,
         content: content,
         language: language,
         size: content.length,
         lines: lines
       })
 
+      tokens += Math.ceil(content.length / CHARS_PER_TOKEN)
       totalLines += lines
       languageCount[language] = (languageCount[language] || 0) + lines
 
     } catch (error) {
-      log('WARNING', `⚠️ Error processing file ${file.name}:`, error)
+      log('WARNING', `⚠️ Error processing file ${entry.path}:`, error)
     }
   }
 
@@ -219,15 +443,29 @@ async function scanRepositoryCode(
   const primaryLanguage = Object.entries(languageCount)
     .sort(([,a], [,b]) => b - a)[0]?.[0] || 'Unknown'
 
+  // Parse symbols and imports, and attach them to each file
+  const { files: fileStructures, ...structure } = analyzeCodeStructure(files, blobs.map(entry => entry.path))
+  fileStructures.forEach((fileStructure, index) => {
+    files[index].symbols = fileStructure.symbols
+    files[index].imports = fileStructure.imports
+    files[index].importedBy = fileStructure.importedBy
+    files[index].entryPoint = fileStructure.entryPoint
+  })
+
   // Generate summary and key features
-  const summary = generateCodeSummary(files, primaryLanguage)
-  const keyFeatures = extractKeyFeatures(files)
+  const summary = generateCodeSummary(files, primaryLanguage, structure)
+  const keyFeatures = extractKeyFeatures(structure)
+  const intent = await loadIntentDocuments(github, fullName, intentEntries)
 
   log('SCAN', '✅ Code analysis completed', {
     filesAnalyzed: files.length,
     totalLines,
+    tokens,
     primaryLanguage,
-    keyFeatures: keyFeatures.length
+    keyFeatures: keyFeatures.length,
+    entryPoints: structure.entryPoints,
+    symbols: structure.counts,
+    intent: intent.map(document => document.path)
   })
 
   return {
@@ -235,10 +473,442 @@ async function scanRepositoryCode(
     summary,
     totalLines,
     primaryLanguage,
-    keyFeatures
+    keyFeatures,
+    structure,
+    intent,
+    scan: {
+      ref,
+      sha,
+      workspace,
+      treeFiles,
+      candidates: candidates.length,
+      ignored,
+      tokens,
+      tokenBudget: options.tokenBudget,
+      truncated
+    }
+  }
+}
+
+async function getDefaultBranch(github: GitHubCacheScope, fullName: string): Promise<string> {
+  const { body } = await cachedGitHubGet(github, `/repos/${fullName}`)
+  return JSON.parse(body).default_branch
+}
+
+// A full commit SHA resolves to itself for good, so only branches and tags are revalidated
+async function resolveRef(github: GitHubCacheScope, fullName: string, ref: string): Promise<string> {
+  try {
+    const { body, cached } = await cachedGitHubGet(github, `/repos/${fullName}/commits/${encodeURIComponent(ref)}`, {
+      accept: 'application/vnd.github.sha',
+      immutable: FULL_SHA_PATTERN.test(ref)
+    })
+    if (cached) log('SCAN', `💾 ${ref} hasn't moved since it was last resolved`)
+    return body.trim()
+  } catch (error) {
+    if (error instanceof GitHubAPIError && (error.status === 404 || error.status === 422)) {
+      log('ERROR', `❌ Could not resolve ref ${ref}`, error.message)
+      throw new Error(`Branch, tag or commit "${ref}" not found in ${fullName}`)
+    }
+    throw error
+  }
+}
+
+async function listRepositoryRefs(github: GitHubCacheScope, fullName: string): Promise<{
+  defaultBranch: string
+  branches: string[]
+  tags: string[]
+}> {
+  const [defaultBranch, branchesResponse, tagsResponse] = await Promise.all([
+    getDefaultBranch(github, fullName),
+    cachedGitHubGet(github, `/repos/${fullName}/branches?per_page=100`),
+    cachedGitHubGet(github, `/repos/${fullName}/tags?per_page=100`)
+  ])
+
+  const branches: { name: string }[] = JSON.parse(branchesResponse.body)
+  const tags: { name: string }[] = JSON.parse(tagsResponse.body)
+
+  return {
+    defaultBranch,
+    branches: branches.map(branch => branch.name),
+    tags: tags.map(tag => tag.name)
+  }
+}
+
+// One request for every path in the repository, instead of walking directories. A
+// commit's tree never changes, so it's only requested the first time.
+async function fetchTree(github: GitHubCacheScope, fullName: string, sha: string): Promise<{ blobs: TreeEntry[], truncated: boolean }> {
+  const { body } = await cachedGitHubGet(github, `/repos/${fullName}/git/trees/${sha}?recursive=1`, { immutable: true })
+  const tree = JSON.parse(body)
+  if (tree.truncated) {
+    log('WARNING', '⚠️ Repository tree was truncated by GitHub; using the part that was returned')
+  }
+
+  return {
+    blobs: (tree.tree as TreeEntry[]).filter(entry => entry.type === 'blob'),
+    truncated: !!tree.truncated
   }
 }
 
+// The packages a monorepo declares: npm/Yarn "workspaces", pnpm-workspace.yaml, Cargo
+// [workspace] members, and Go modules (go.work, or every go.mod once there's more than one).
+// The repository root itself is left out; scanning it is the whole-repository scan.
+async function listWorkspaces(github: GitHubCacheScope, fullName: string, ref?: string): Promise<Workspace[]> {
+  const sha = await resolveRef(github, fullName, ref || await getDefaultBranch(github, fullName))
+  const { blobs } = await fetchTree(github, fullName, sha)
+  const entries = new Map(blobs.map(entry => [entry.path, entry]))
+  const defaultIgnores = DEFAULT_IGNORE_PATTERNS
+    .map(pattern => parseIgnoreLine(pattern, ''))
+    .filter((rule): rule is IgnoreRule => !!rule)
+
+  const readFile = async (path: string): Promise<string | null> => {
+    const entry = entries.get(path)
+    return entry ? fetchCachedBlob(github, fullName, entry.sha) : null
+  }
+
+  // Directories holding a manifest, outside dependencies and build output
+  const manifestDirectories = (manifest: string) => blobs
+    .filter(entry => entry.path === manifest || entry.path.endsWith(`/${manifest}`))
+    .filter(entry => !isIgnored(entry.path, defaultIgnores))
+    .map(entry => entry.path.slice(0, -manifest.length).replace(/\/$/, ''))
+
+  const found = new Map<string, Pick<Workspace, 'kind' | 'manifest'>>()
+  const add = (directories: string[], kind: Workspace['kind'], manifest: string) => {
+    for (const directory of directories) {
+      if (directory && !found.has(directory)) {
+        found.set(directory, { kind, manifest: `${directory}/${manifest}` })
+      }
+    }
+  }
+
+  const pnpmWorkspace = await readFile('pnpm-workspace.yaml')
+  if (pnpmWorkspace) {
+    add(matchWorkspacePatterns(parsePnpmWorkspace(pnpmWorkspace), manifestDirectories('package.json')), 'pnpm', 'package.json')
+  } else {
+    // An array, or Yarn's { packages: [...] }
+    const workspaces = parseJson(await readFile('package.json'))?.workspaces
+    const patterns = Array.isArray(workspaces) ? workspaces : (workspaces as { packages?: unknown } | undefined)?.packages
+    if (Array.isArray(patterns)) {
+      const globs = patterns.filter((pattern): pattern is string => typeof pattern === 'string')
+      add(matchWorkspacePatterns(globs, manifestDirectories('package.json')), 'npm', 'package.json')
+    }
+  }
+
+  const cargoWorkspace = readTomlSection(await readFile('Cargo.toml') ?? '', 'workspace')
+  if (cargoWorkspace !== null) {
+    const patterns = [
+      ...readTomlArray(cargoWorkspace, 'members'),
+      ...readTomlArray(cargoWorkspace, 'exclude').map(pattern => `!${pattern}`)
+    ]
+    add(matchWorkspacePatterns(patterns, manifestDirectories('Cargo.toml')), 'cargo', 'Cargo.toml')
+  }
+
+  const goWork = await readFile('go.work')
+  const goModules = manifestDirectories('go.mod')
+  if (goWork) {
+    const used = parseGoWorkUses(goWork)
+    add(goModules.filter(directory => used.includes(directory)), 'go', 'go.mod')
+  } else if (goModules.length > 1) {
+    add(goModules, 'go', 'go.mod')
+  }
+
+  const directories = [...found.keys()].sort().slice(0, MAX_WORKSPACES)
+  if (found.size > MAX_WORKSPACES) {
+    log('WARNING', `⚠️ Listing the first ${MAX_WORKSPACES} of ${found.size} workspace packages`)
+  }
+
+  return Promise.all(directories.map(async path => {
+    const { kind, manifest } = found.get(path)!
+    const readme = blobs.find(entry =>
+      entry.path.startsWith(`${path}/`)
+      && !entry.path.slice(path.length + 1).includes('/')
+      && README_FILE.test(entry.path.slice(path.length + 1))
+    )?.path ?? null
+
+    let name: string | null = null
+    let description: string | null = null
+    try {
+      const content = await readFile(manifest) ?? ''
+      if (kind === 'cargo') {
+        const cargoPackage = readTomlSection(content, 'package') ?? ''
+        name = readTomlString(cargoPackage, 'name')
+        description = readTomlString(cargoPackage, 'description')
+      } else if (kind === 'go') {
+        name = content.match(/^module\s+(\S+)/m)?.[1] ?? null
+      } else {
+        const manifestJson = parseJson(content)
+        name = typeof manifestJson?.name === 'string' ? manifestJson.name : null
+        description = typeof manifestJson?.description === 'string' ? manifestJson.description : null
+      }
+    } catch (error) {
+      log('WARNING', `⚠️ Could not read ${manifest}`, error)
+    }
+
+    return { path, name: name || path.split('/').pop() || path, kind, manifest, readme, description: description || null }
+  }))
+}
+
+// Workspace globs are relative to the root and match directories; "!" patterns exclude
+function matchWorkspacePatterns(patterns: string[], directories: string[]): string[] {
+  const compile = (pattern: string) =>
+    new RegExp(`^${globToRegExpSource(pattern.trim().replace(/^\.\//, '').replace(/\/+$/, ''))}$`)
+  const includes = patterns.filter(pattern => !pattern.startsWith('!')).map(compile)
+  const excludes = patterns.filter(pattern => pattern.startsWith('!')).map(pattern => compile(pattern.slice(1)))
+
+  return directories.filter(directory =>
+    includes.some(pattern => pattern.test(directory)) && !excludes.some(pattern => pattern.test(directory))
+  )
+}
+
+function parseJson(content: string | null): Record<string, unknown> | null {
+  if (!content) return null
+  try {
+    return JSON.parse(content)
+  } catch {
+    return null
+  }
+}
+
+// The "packages" list of a pnpm-workspace.yaml, in block or flow style
+function parsePnpmWorkspace(content: string): string[] {
+  const flow = content.match(/^packages\s*:\s*\[([^\]]*)\]/m)
+  if (flow) return readQuotedStrings(flow[1])
+
+  const patterns: string[] = []
+  let inPackages = false
+  for (const line of content.split('\n')) {
+    if (/^packages\s*:/.test(line)) {
+      inPackages = true
+      continue
+    }
+    if (inPackages && /^\S/.test(line) && !line.startsWith('#')) break
+
+    const item = inPackages && line.match(/^\s*-\s*(['"]?)([^'"#]+)\1\s*(#.*)?$/)
+    if (item) patterns.push(item[2].trim())
+  }
+  return patterns
+}
+
+// The "use" directives of a go.work, as directories relative to the root
+function parseGoWorkUses(content: string): string[] {
+  const block = content.match(/^use\s*\(([^)]*)\)/m)?.[1]
+  const uses = block
+    ? block.split('\n').map(line => line.replace(/\/\/.*$/, '').trim())
+    : [...content.matchAll(/^use\s+(\S+)/gm)].map(match => match[1])
+
+  return uses
+    .filter(Boolean)
+    .map(use => use.replace(/^\.\/?/, '').replace(/\/+$/, ''))
+}
+
+// Just enough TOML for Cargo manifests: a table's body, and string or string-array keys in it
+function readTomlSection(content: string, table: string): string | null {
+  const lines = content.split('\n')
+  const start = lines.findIndex(line => line.trim() === `[${table}]`)
+  if (start === -1) return null
+
+  const end = lines.findIndex((line, index) => index > start && /^\s*\[/.test(line))
+  return lines.slice(start + 1, end === -1 ? undefined : end).join('\n')
+}
+
+function readTomlString(section: string, key: string): string | null {
+  return section.match(new RegExp(`^\\s*${key}\\s*=\\s*(["'])(.*?)\\1`, 'm'))?.[2] ?? null
+}
+
+function readTomlArray(section: string, key: string): string[] {
+  const array = section.match(new RegExp(`^\\s*${key}\\s*=\\s*\\[([^\\]]*)\\]`, 'm'))?.[1]
+  return array ? readQuotedStrings(array.replace(/#.*$/gm, '')) : []
+}
+
+function readQuotedStrings(list: string): string[] {
+  return [...list.matchAll(/(["'])(.*?)\1/g)].map(match => match[2])
+}
+
+// The README and CHANGELOG at the top of the scanned directory (the repository's README
+// when a package has none), and the most introductory files under its docs/
+function selectIntentDocuments(
+  blobs: TreeEntry[],
+  scope: string,
+  ignoreRules: IgnoreRule[]
+): { entry: TreeEntry, kind: IntentDocument['kind'] }[] {
+  const findAt = (directory: string, pattern: RegExp) => blobs.find(entry =>
+    entry.path.startsWith(directory)
+    && !entry.path.slice(directory.length).includes('/')
+    && pattern.test(entry.path.slice(directory.length))
+  )
+
+  const readme = findAt(scope, README_FILE) ?? (scope ? findAt('', README_FILE) : undefined)
+  const changelog = findAt(scope, CHANGELOG_FILE)
+  const docs = blobs
+    .filter(entry => entry.path.startsWith(scope)
+      && DOCS_FILE.test(entry.path.slice(scope.length))
+      && (entry.size ?? 0) <= MAX_FILE_BYTES
+      && !isIgnored(entry.path, ignoreRules))
+    .sort((a, b) => rankDocsFile(a.path) - rankDocsFile(b.path) || a.path.localeCompare(b.path))
+    .slice(0, MAX_INTENT_DOCS_FILES)
+
+  return [
+    ...(readme ? [{ entry: readme, kind: 'readme' as const }] : []),
+    ...(changelog ? [{ entry: changelog, kind: 'changelog' as const }] : []),
+    ...docs.map(entry => ({ entry, kind: 'docs' as const }))
+  ]
+}
+
+// Overviews and getting-started guides first, then shallow pages before deep ones
+function rankDocsFile(path: string): number {
+  const fileName = path.split('/').pop() || path
+  const introductory = /^(index|readme|overview|intro|introduction|getting[-_]?started|quick[-_]?start|guide)\./i.test(fileName)
+  return (introductory ? 0 : 10) + path.split('/').length
+}
+
+async function loadIntentDocuments(
+  github: GitHubCacheScope,
+  fullName: string,
+  entries: { entry: TreeEntry, kind: IntentDocument['kind'] }[]
+): Promise<IntentDocument[]> {
+  const documents: IntentDocument[] = []
+  let tokens = 0
+
+  for (const { entry, kind } of entries) {
+    const limit = Math.min(INTENT_TOKEN_LIMITS[kind], INTENT_TOKEN_BUDGET - tokens) * CHARS_PER_TOKEN
+    if (limit <= 0) break
+
+    try {
+      const condensed = condenseDocument(await fetchCachedBlob(github, fullName, entry.sha), kind)
+      if (!condensed) continue
+
+      const content = truncateDocument(condensed, limit)
+      documents.push({ path: entry.path, kind, content, truncated: condensed.length > limit })
+      tokens += Math.ceil(content.length / CHARS_PER_TOKEN)
+    } catch (error) {
+      log('WARNING', `⚠️ Could not read ${entry.path}`, error)
+    }
+  }
+
+  log('SCAN', `📘 Loaded ${documents.length} intent document(s), ~${tokens} tokens`)
+  return documents
+}
+
+// Drops what doesn't say anything in a prompt (HTML comments, badges, logos) and, for a
+// changelog, every release but the latest two
+function condenseDocument(content: string, kind: IntentDocument['kind']): string {
+  let text = content
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .split('\n')
+    .filter(line => !/^\s*(\[!\[|!\[|<img\b|<\/?p\b|<\/?div\b|<a\b[^>]*>\s*<img\b)/i.test(line))
+    .join('\n')
+
+  if (kind === 'changelog') {
+    const releases = [...text.matchAll(/^#{1,3}\s.*(\d+\.\d+|unreleased).*$/gim)]
+    if (releases.length > 2) text = text.slice(0, releases[2].index)
+  }
+
+  return text.replace(/\n{3,}/g, '\n\n').trim()
+}
+
+// Cuts at a paragraph break where there's one in the second half of the limit
+function truncateDocument(text: string, maxChars: number): string {
+  if (text.length <= maxChars) return text
+
+  const paragraphEnd = text.lastIndexOf('\n\n', maxChars)
+  return `${text.slice(0, paragraphEnd > maxChars / 2 ? paragraphEnd : maxChars).trimEnd()}\n…`
+}
+
+async function loadGitignoreRules(github: GitHubCacheScope, fullName: string, blobs: TreeEntry[]): Promise<IgnoreRule[]> {
+  const gitignores = blobs
+    .filter(entry => entry.path === '.gitignore' || entry.path.endsWith('/.gitignore'))
+    .sort((a, b) => a.path.split('/').length - b.path.split('/').length)
+    .slice(0, MAX_GITIGNORE_FILES)
+
+  const rules: IgnoreRule[] = []
+  for (const gitignore of gitignores) {
+    try {
+      const base = gitignore.path.slice(0, -'.gitignore'.length)
+      const content = await fetchCachedBlob(github, fullName, gitignore.sha)
+      rules.push(...content.split('\n')
+        .map(line => parseIgnoreLine(line, base))
+        .filter((rule): rule is IgnoreRule => !!rule))
+    } catch (error) {
+      log('WARNING', `⚠️ Could not read ${gitignore.path}`, error)
+    }
+  }
+
+  log('SCAN', `🙈 Loaded ${rules.length} ignore rules from ${gitignores.length} .gitignore file(s)`)
+  return rules
+}
+
+// Follows gitignore syntax: "!" negates, a trailing "/" only matches directories, and a
+// pattern with a "/" anywhere but the end is anchored to the .gitignore's directory.
+function parseIgnoreLine(line: string, base: string): IgnoreRule | null {
+  let pattern = line.trim()
+  if (!pattern || pattern.startsWith('#')) return null
+
+  const negate = pattern.startsWith('!')
+  if (negate) pattern = pattern.slice(1)
+
+  const directoryOnly = pattern.endsWith('/')
+  if (directoryOnly) pattern = pattern.slice(0, -1)
+
+  const anchored = pattern.includes('/')
+  pattern = pattern.replace(/^\//, '')
+  if (!pattern) return null
+
+  return {
+    base,
+    pattern: new RegExp(`^${anchored ? '' : '(?:.*/)?'}${globToRegExpSource(pattern)}$`),
+    negate,
+    directoryOnly
+  }
+}
+
+// The last matching rule wins. A rule matches the file itself or any directory above it.
+function isIgnored(path: string, rules: IgnoreRule[]): boolean {
+  let ignored = false
+
+  for (const rule of rules) {
+    if (!path.startsWith(rule.base)) continue
+
+    const segments = path.slice(rule.base.length).split('/')
+    const matches = segments.some((_, index) => {
+      const isFile = index === segments.length - 1
+      if (isFile && rule.directoryOnly) return false
+      return rule.pattern.test(segments.slice(0, index + 1).join('/'))
+    })
+
+    if (matches) ignored = !rule.negate
+  }
+
+  return ignored
+}
+
+function matchesGlob(pattern: RegExp, path: string): boolean {
+  return pattern.test(path)
+}
+
+// Name priority, plus where the file lives and how big it is: source directories and
+// mid-sized files win; tests, docs, deep paths, data files and tiny stubs lose.
+function rankFile(entry: TreeEntry): number {
+  const segments = entry.path.split('/')
+  const fileName = segments[segments.length - 1]
+  const directories = segments.slice(0, -1).map(segment => segment.toLowerCase())
+  const extension = fileName.split('.').pop()?.toLowerCase() || ''
+  const size = entry.size ?? 0
+
+  let score = getFilePriority(fileName)
+
+  if (directories.some(directory => SOURCE_DIRECTORIES.has(directory))) score += 20
+  if (directories.some(directory => SUPPORT_DIRECTORIES.has(directory))) score -= 40
+  if (/\.(test|spec|stories)\.[^.]+$/i.test(fileName)) score -= 40
+  score -= Math.max(0, directories.length - 3) * 5
+
+  if (DATA_EXTENSIONS.has(extension) && !/^(readme|package)\./i.test(fileName)) score -= 25
+
+  if (size < 300) score -= 20
+  else if (size > 30000) score -= 15
+  else if (size >= 1000 && size <= 15000) score += 10
+
+  return score
+}
+
 function isCodeFile(filename: string): boolean {
   const codeExtensions = [
     '.js', '.jsx', '.ts', '.tsx', '.py', '.java', '.cpp', '.c', '.h',
@@ -331,72 +1001,45 @@ function isBinaryContent(content: string): boolean {
   return content.includes('\0')
 }
 
-function generateCodeSummary(files: any[], primaryLanguage: string): string {
-  const fileTypes = files.reduce((acc, file) => {
-    acc[file.language] = (acc[file.language] || 0) + 1
-    return acc
-  }, {} as { [key: string]: number })
-
-  const totalFiles = files.length
+function generateCodeSummary(files: ScannedFile[], primaryLanguage: string, structure: Omit<CodeStructure, 'files'>): string {
   const totalLines = files.reduce((sum, file) => sum + file.lines, 0)
-  
-  let summary = `This ${primaryLanguage} project contains ${totalFiles} code files with ${totalLines} total lines of code. `
-  
-  if (fileTypes.JavaScript || fileTypes.TypeScript) {
-    summary += "It appears to be a web application with frontend components. "
-  }
-  
-  if (files.some(f => f.path.includes('api') || f.path.includes('server'))) {
-    summary += "The project includes backend/API functionality. "
+  const { counts, entryPoints, frameworks } = structure
+
+  let summary = `This ${primaryLanguage} project contains ${files.length} code files with ${totalLines} total lines of code`
+  summary += frameworks.length > 0 ? `, built with ${frameworks.slice(0, 3).join(', ')}. ` : '. '
+
+  const parts = [
+    counts.route > 0 && `${counts.route} HTTP route${counts.route === 1 ? '' : 's'}`,
+    counts.component > 0 && `${counts.component} component${counts.component === 1 ? '' : 's'}`,
+    counts.function > 0 && `${counts.function} function${counts.function === 1 ? '' : 's'}`,
+    counts.class > 0 && `${counts.class} class${counts.class === 1 ? '' : 'es'}`,
+  ].filter(Boolean)
+  if (parts.length > 0) {
+    summary += `It defines ${parts.join(', ')}. `
   }
-  
-  if (files.some(f => f.path.includes('component') || f.path.includes('Component'))) {
-    summary += "It uses a component-based architecture. "
+
+  if (entryPoints.length > 0) {
+    summary += `Execution starts in ${entryPoints.slice(0, 2).join(' and ')}. `
   }
-  
+
   return summary.trim()
 }
 
-function extractKeyFeatures(files: any[]): string[] {
-  const features = new Set<string>()
-  
-  files.forEach(file => {
-    const content = file.content.toLowerCase()
-    const path = file.path.toLowerCase()
-    
-    // Framework detection
-    if (content.includes('react') || content.includes('jsx')) features.add('React Framework')
-    if (content.includes('vue') || path.includes('vue')) features.add('Vue.js Framework')
-    if (content.includes('angular') || content.includes('@angular')) features.add('Angular Framework')
-    if (content.includes('express') || content.includes('app.listen')) features.add('Express.js Server')
-    if (content.includes('fastapi') || content.includes('flask')) features.add('Python Web Framework')
-    
-    // Database detection
-    if (content.includes('mongoose') || content.includes('mongodb')) features.add('MongoDB Database')
-    if (content.includes('sequelize') || content.includes('prisma')) features.add('SQL Database ORM')
-    if (content.includes('supabase')) features.add('Supabase Backend')
-    
-    // Authentication
-    if (content.includes('auth') || content.includes('login') || content.includes('jwt')) features.add('Authentication System')
-    
-    // API patterns
-    if (content.includes('api') || content.includes('endpoint')) features.add('REST API')
-    if (content.includes('graphql')) features.add('GraphQL API')
-    
-    // Frontend features
-    if (content.includes('router') || content.includes('routing')) features.add('Client-side Routing')
-    if (content.includes('state') || content.includes('redux') || content.includes('zustand')) features.add('State Management')
-    
-    // Testing
-    if (content.includes('test') || content.includes('jest') || content.includes('cypress')) features.add('Testing Framework')
-    
-    // Deployment
-    if (path.includes('dockerfile') || content.includes('docker')) features.add('Docker Containerization')
-    if (path.includes('vercel') || path.includes('netlify')) features.add('Cloud Deployment')
-  })
-  
-  return Array.from(features).slice(0, 8) // Limit to top 8 features
+// What the project is built on, read from its imports, and what its code defines
+function extractKeyFeatures(structure: Omit<CodeStructure, 'files'>): string[] {
+  const features = [...structure.frameworks]
+  const { counts } = structure
+
+  if (counts.route > 0) features.push(`${counts.route} HTTP route${counts.route === 1 ? '' : 's'}`)
+  if (counts.component > 0) features.push(`${counts.component} UI component${counts.component === 1 ? '' : 's'}`)
+  if (structure.entryPoints.length > 1) features.push(`${structure.entryPoints.length} entry points`)
+
+  return features.slice(0, 8) // Limit to top 8 features
 }
 
 // Import createClient function
-import { createClient } from 'npm:@supabase/supabase-js@2'
\ No newline at end of file
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import { loadGitHubToken } from '../_shared/githubTokens.ts'
+import { GitHubAPIError, fetchChangeSet, formatChangeSetSnippet, globToRegExp, globToRegExpSource } from '../_shared/github.ts'
+import { cachedGitHubGet, fetchCachedBlob, saveRateLimit, FULL_SHA_PATTERN, type GitHubCacheScope } from '../_shared/githubCache.ts'
+import { analyzeCodeStructure, type CodeStructure, type CodeSymbol } from '../_shared/codeStructure.ts'
\ No newline at end of file
@@ -0,0 +1,429 @@
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'content-type, x-github-event, x-github-delivery, x-hub-signature-256',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+type AutomationEvent = 'release' | 'pull_request'
+
+// Demo settings a repository's automation can override
+interface AutomationFormData {
+  voiceStyle?: string
+  voiceId?: string | null
+  locale?: string
+  additionalLocales?: string[]
+  includeCode?: boolean
+  includeFace?: boolean
+  reviewScript?: boolean
+}
+
+interface RepositoryAutomation {
+  id: string
+  repository_id: string
+  user_id: string
+  enabled: boolean
+  events: AutomationEvent[]
+  paths: string[]
+  form_data: AutomationFormData
+  repositories: {
+    id: string
+    name: string
+    full_name: string
+    language: string | null
+  }
+}
+
+// The parts of GitHub's event payloads this function reads
+interface WebhookPayload {
+  action?: string
+  zen?: string
+  repository?: { id: number, full_name: string }
+  installation?: { id: number, account?: { login: string } }
+  pull_request?: { number: number, title: string, body: string | null, html_url: string, merged: boolean }
+  release?: { tag_name: string, name: string | null, body: string | null, html_url: string, draft: boolean, published_at: string }
+}
+
+// What a delivery asks for, once it's known to be one we act on
+type WebhookTrigger =
+  | { event: 'pull_request', pullNumber: number, title: string, body: string, url: string }
+  | { event: 'release', tag: string, title: string, body: string, url: string, publishedAt: string }
+
+interface AutomationResult {
+  repository: string
+  projectId?: string
+  skipped?: string
+  error?: string
+}
+
+// A diff is narrated line by line, so keep it to what fits a short video
+const DIFF_TOKEN_BUDGET = 6000
+
+// Unattended demos skip the avatar and script review unless the repository's automation asks for them
+const DEFAULT_AUTOMATION_FORM_DATA: Required<Omit<AutomationFormData, 'voiceId'>> = {
+  voiceStyle: 'professional',
+  locale: 'en',
+  additionalLocales: [],
+  includeCode: true,
+  includeFace: false,
+  reviewScript: false
+}
+
+// Logging utility
+function log(step: string, message: string, data?: unknown) {
+  const timestamp = new Date().toISOString()
+  const logMessage = `[${timestamp}] [GITHUB-WEBHOOK] [${step}] ${message}`
+
+  if (data) {
+    console.log(logMessage, JSON.stringify(data, null, 2))
+  } else {
+    console.log(logMessage)
+  }
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  const deliveryId = req.headers.get('X-GitHub-Delivery') ?? crypto.randomUUID()
+  const event = req.headers.get('X-GitHub-Event') ?? ''
+
+  try {
+    log('INIT', '🪝 Received GitHub webhook', { deliveryId, event })
+
+    const secret = Deno.env.get('GITHUB_WEBHOOK_SECRET')
+    if (!secret) {
+      log('ERROR', '❌ GITHUB_WEBHOOK_SECRET not configured')
+      throw new Error('GITHUB_WEBHOOK_SECRET is required to receive GitHub webhooks. Please add it to your environment variables.')
+    }
+
+    // The signature covers the exact bytes GitHub sent, so verify before parsing
+    const body = await req.text()
+    if (!await verifySignature(body, req.headers.get('X-Hub-Signature-256'), secret)) {
+      log('ERROR', '❌ Invalid webhook signature', { deliveryId })
+      return jsonResponse({ error: 'Invalid signature' }, 401)
+    }
+
+    const payload: WebhookPayload = JSON.parse(body)
+
+    if (event === 'ping') {
+      log('SUCCESS', '🏓 Webhook ping', { zen: payload.zen, repository: payload.repository?.full_name })
+      return jsonResponse({ success: true, message: 'pong' })
+    }
+
+    // Uninstalling the GitHub App revokes its tokens; disconnect everyone who connected through it
+    if (event === 'installation' && payload.action === 'deleted' && payload.installation) {
+      const supabaseClient = createClient(
+        Deno.env.get('SUPABASE_URL') ?? '',
+        Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+      )
+      const disconnected = await disconnectInstallation(supabaseClient, payload.installation.id)
+      log('SUCCESS', '🔌 GitHub App uninstalled', { installationId: payload.installation.id, disconnected })
+      return jsonResponse({ success: true, disconnected })
+    }
+
+    const trigger = getTrigger(event, payload)
+    if (!trigger) {
+      log('SKIP', `⏭️ Ignoring ${event}${payload.action ? `.${payload.action}` : ''}`)
+      return jsonResponse({ success: true, ignored: true })
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    // GitHub redelivers on timeouts and from its UI; the delivery ID makes that harmless
+    const { error: deliveryError } = await supabaseClient
+      .from('github_webhook_deliveries')
+      .insert({
+        id: deliveryId,
+        event,
+        action: payload.action ?? null,
+        github_repository_id: payload.repository?.id ?? null
+      })
+
+    if (deliveryError) {
+      if (deliveryError.code === '23505') {
+        log('SKIP', '⏭️ Delivery already handled', { deliveryId })
+        return jsonResponse({ success: true, duplicate: true })
+      }
+      throw new Error(`Failed to record delivery: ${deliveryError.message}`)
+    }
+
+    try {
+      const results = await runAutomations(supabaseClient, payload.repository!.id, trigger)
+      const projectIds = results.flatMap(result => result.projectId ? [result.projectId] : [])
+      const failed = results.filter(result => result.error)
+
+      await supabaseClient
+        .from('github_webhook_deliveries')
+        .update({
+          status: failed.length > 0 ? 'failed' : projectIds.length > 0 ? 'processed' : 'skipped',
+          message: results.map(result => `${result.repository}: ${result.error || result.skipped || 'demo queued'}`).join('\n') || 'No automation for this repository',
+          project_ids: projectIds
+        })
+        .eq('id', deliveryId)
+
+      log('SUCCESS', '✅ Webhook handled', { deliveryId, projects: projectIds.length, failed: failed.length })
+      return jsonResponse({ success: true, results })
+    } catch (error) {
+      await supabaseClient
+        .from('github_webhook_deliveries')
+        .update({ status: 'failed', message: error.message })
+        .eq('id', deliveryId)
+      throw error
+    }
+
+  } catch (error) {
+    log('ERROR', '💥 Fatal error handling webhook', {
+      deliveryId,
+      error: error.message,
+      stack: error.stack
+    })
+
+    return jsonResponse({
+      error: error.message,
+      details: 'Check the function logs for detailed error information'
+    }, 500)
+  }
+})
+
+function jsonResponse(body: Record<string, unknown>, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  })
+}
+
+// X-Hub-Signature-256 is "sha256=" and the hex HMAC of the body; subtle.verify compares in constant time
+async function verifySignature(body: string, signature: string | null, secret: string): Promise<boolean> {
+  const hex = signature?.match(/^sha256=([0-9a-f]{64})$/i)?.[1]
+  if (!hex) return false
+
+  const encoder = new TextEncoder()
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['verify']
+  )
+  const expected = new Uint8Array(hex.match(/../g)!.map(byte => parseInt(byte, 16)))
+
+  return crypto.subtle.verify('HMAC', key, expected, encoder.encode(body))
+}
+
+// Found through github_credentials, where github-auth stored the verified installation;
+// clearing the username deletes the credentials row (see its trigger)
+async function disconnectInstallation(supabaseClient: SupabaseClient, installationId: number): Promise<number> {
+  const { data: credentials, error: credentialsError } = await supabaseClient
+    .from('github_credentials')
+    .select('user_id')
+    .eq('installation_id', installationId)
+
+  if (credentialsError) {
+    throw new Error(`Failed to find installation users: ${credentialsError.message}`)
+  }
+  if (!credentials?.length) return 0
+
+  const { data, error } = await supabaseClient
+    .from('profiles')
+    .update({ github_username: null, github_installation_id: null })
+    .in('id', credentials.map(credential => credential.user_id))
+    .select('id')
+
+  if (error) {
+    throw new Error(`Failed to disconnect installation: ${error.message}`)
+  }
+  return data?.length ?? 0
+}
+
+function getTrigger(event: string, payload: WebhookPayload): WebhookTrigger | null {
+  if (event === 'pull_request' && payload.action === 'closed' && payload.pull_request?.merged) {
+    return {
+      event: 'pull_request',
+      pullNumber: payload.pull_request.number,
+      title: payload.pull_request.title,
+      body: payload.pull_request.body || '',
+      url: payload.pull_request.html_url
+    }
+  }
+
+  if (event === 'release' && payload.action === 'published' && payload.release && !payload.release.draft) {
+    return {
+      event: 'release',
+      tag: payload.release.tag_name,
+      title: payload.release.name || payload.release.tag_name,
+      body: payload.release.body || '',
+      url: payload.release.html_url,
+      publishedAt: payload.release.published_at
+    }
+  }
+
+  return null
+}
+
+// Several users can have the same GitHub repository connected; each of their automations runs on its own
+async function runAutomations(
+  supabaseClient: SupabaseClient,
+  githubRepositoryId: number,
+  trigger: WebhookTrigger
+): Promise<AutomationResult[]> {
+  const { data: automations, error } = await supabaseClient
+    .from('repository_automations')
+    .select('*, repositories!inner(id, name, full_name, language, github_id)')
+    .eq('repositories.github_id', githubRepositoryId)
+    .eq('enabled', true)
+    .contains('events', [trigger.event])
+
+  if (error) {
+    throw new Error(`Failed to load repository automations: ${error.message}`)
+  }
+
+  log('DATABASE', `🔍 Found ${automations?.length || 0} automation(s) for ${trigger.event}`)
+
+  const results: AutomationResult[] = []
+  for (const automation of (automations || []) as RepositoryAutomation[]) {
+    const repository = automation.repositories.full_name
+    try {
+      results.push({ repository, ...await runAutomation(supabaseClient, automation, trigger) })
+    } catch (automationError) {
+      log('ERROR', `❌ Automation failed for ${repository}`, { error: automationError.message })
+      results.push({ repository, error: automationError.message })
+    }
+  }
+
+  return results
+}
+
+async function runAutomation(
+  supabaseClient: SupabaseClient,
+  automation: RepositoryAutomation,
+  trigger: WebhookTrigger
+): Promise<{ projectId?: string, skipped?: string }> {
+  const { full_name: fullName, name, language } = automation.repositories
+  const accessToken = await loadGitHubToken(supabaseClient, automation.user_id, log)
+  if (!accessToken) {
+    return { skipped: 'GitHub account is not connected' }
+  }
+
+  let source: ChangeSource
+  if (trigger.event === 'pull_request') {
+    source = { pullNumber: trigger.pullNumber }
+  } else {
+    // A release demo covers everything since the release before it
+    const previousTag = await findPreviousReleaseTag(fullName, accessToken, trigger)
+    if (!previousTag) {
+      return { skipped: 'No earlier release to compare against' }
+    }
+    source = { base: previousTag, head: trigger.tag }
+  }
+
+  const changeSet = await fetchChangeSet(fullName, accessToken, source, log)
+
+  if (automation.paths.length > 0) {
+    const patterns = automation.paths.map(globToRegExp)
+    const matched = changeSet.files.some(file => patterns.some(pattern => pattern.test(file.path)))
+    if (!matched) {
+      log('SKIP', `⏭️ No changed file in ${fullName} matches the automation's paths`, { paths: automation.paths })
+      return { skipped: 'No changed files match the configured paths' }
+    }
+  }
+
+  const formatted = formatChangeSetSnippet(changeSet, DIFF_TOKEN_BUDGET)
+  if (!formatted.snippet) {
+    return { skipped: 'Every changed file is binary, generated or too large' }
+  }
+
+  // Nobody reviews an automatic demo before it's generated, so secrets in the diff are masked here
+  const { text: codeSnippet, redactions } = redactSecrets(formatted.snippet)
+  if (redactions.length > 0) {
+    log('SECURITY', `🔒 Masked ${redactions.length} secret(s) in the changes`, redactions.map(describeRedaction))
+  }
+
+  const title = trigger.event === 'release' ? `${name} ${trigger.title}` : trigger.title
+  const description = (trigger.body || changeSet.commits.join('; ')).slice(0, 500)
+  const settings = { ...DEFAULT_AUTOMATION_FORM_DATA, ...automation.form_data }
+
+  const { data: project, error: projectError } = await supabaseClient
+    .from('projects')
+    .insert({
+      user_id: automation.user_id,
+      title,
+      description,
+      code_snippet: codeSnippet,
+      locale: settings.locale,
+      repository_id: automation.repository_id,
+      source_ref: changeSet.ref,
+      source_sha: changeSet.headSha,
+      source_base_sha: changeSet.baseSha,
+      source_url: trigger.url,
+      status: 'processing'
+    })
+    .select('id')
+    .single()
+
+  if (projectError || !project) {
+    throw new Error(`Failed to create project: ${projectError?.message}`)
+  }
+
+  log('DATABASE', '📝 Created project for change demo', { projectId: project.id, ref: changeSet.ref })
+
+  try {
+    await enqueueDemo(project.id, {
+      title,
+      description,
+      codeSnippet,
+      language: (language || 'code').toLowerCase(),
+      demoType: 'changes',
+      voiceId: null,
+      ...settings
+    })
+  } catch (error) {
+    await supabaseClient
+      .from('projects')
+      .update({ status: 'failed' })
+      .eq('id', project.id)
+    throw error
+  }
+
+  return { projectId: project.id }
+}
+
+// The most recent published release before this one, by publish date
+async function findPreviousReleaseTag(fullName: string, accessToken: string, trigger: Extract<WebhookTrigger, { event: 'release' }>): Promise<string | null> {
+  const response = await githubRequest(`/repos/${fullName}/releases?per_page=50`, accessToken)
+  const releases: { tag_name: string, draft: boolean, published_at: string | null }[] = await response.json()
+
+  const previous = releases
+    .filter(release => !release.draft && release.published_at && release.tag_name !== trigger.tag && release.published_at < trigger.publishedAt)
+    .sort((a, b) => b.published_at!.localeCompare(a.published_at!))[0]
+
+  return previous?.tag_name ?? null
+}
+
+// Hands the project to process-demo the same way the scheduled worker calls it
+async function enqueueDemo(projectId: string, formData: Record<string, unknown>) {
+  const response = await fetch(`${Deno.env.get('SUPABASE_URL')}/functions/v1/process-demo`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ projectId, formData })
+  })
+
+  if (!response.ok) {
+    const errorText = await response.text()
+    throw new Error(`Failed to queue demo generation: ${response.status} - ${errorText}`)
+  }
+
+  log('SUCCESS', '🎬 Demo generation queued', { projectId })
+}
+
+// Import createClient function
+import { createClient, type SupabaseClient } from 'npm:@supabase/supabase-js@2'
+import { loadGitHubToken } from '../_shared/githubTokens.ts'
+import { githubRequest, fetchChangeSet, formatChangeSetSnippet, globToRegExp, type ChangeSource } from '../_shared/github.ts'
+import { redactSecrets, describeRedaction } from '../_shared/redaction.ts'
@@ -4,20 +4,270 @@ const corsHeaders = {
   'Access-Control-Allow-Methods': 'POST, OPTIONS',
 }
 
+interface DemoFormData {
+  title: string
+  description: string
+  // A unified diff when demoType is 'changes'
+  codeSnippet: string
+  // What the project is for, from its README, CHANGELOG and docs/, as scanned by github-scan
+  intentContext?: string
+  language: string
+  // walkthrough, pitch, tutorial, or changes for a pull request or commit range
+  demoType: string
+  voiceStyle: string
+  // Row in the voices catalog; falls back to the default voice for voiceStyle
+  voiceId?: string | null
+  // Primary narration language, plus any extra renditions to generate alongside it
+  locale?: string
+  additionalLocales?: string[]
+  includeCode: boolean
+  includeFace: boolean
+  // Pause after the script step until the user approves it, before any voice or face credits are spent
+  reviewScript?: boolean
+}
+
 interface ProcessDemoRequest {
   projectId: string
-  formData: {
-    title: string
-    description: string
-    codeSnippet: string
-    language: string
-    demoType: string
-    voiceStyle: string
-    includeCode: boolean
-    includeFace: boolean
+  formData: DemoFormData
+}
+
+// Sent by the scheduled worker to pick up queued, waiting and abandoned jobs
+interface ResumeJobsRequest {
+  action: 'resume'
+}
+
+// Sent by the script review screen with the user's session token; the script carries any edits made so far
+interface RegenerateSegmentRequest {
+  action: 'regenerate_segment'
+  projectId: string
+  script: DemoScript
+  segmentIndex: number
+  instructions?: string
+}
+
+interface ApproveScriptRequest {
+  action: 'approve_script'
+  projectId: string
+  script: DemoScript
+}
+
+type ScriptReviewRequest = RegenerateSegmentRequest | ApproveScriptRequest
+
+// Re-runs a finished or failed project, optionally with changed settings; unchanged steps come from the artifact cache
+interface RerenderRequest {
+  action: 'rerender'
+  projectId: string
+  changes?: Partial<Pick<DemoFormData, RerenderSetting>>
+}
+
+// The settings a re-render may change; anything else in `changes` is ignored
+const RERENDER_SETTINGS = ['voiceStyle', 'voiceId', 'locale', 'additionalLocales', 'includeCode', 'includeFace'] as const
+type RerenderSetting = typeof RERENDER_SETTINGS[number]
+
+type GenerationStep = 'script' | 'voice' | 'face' | 'combine'
+
+// Everything a finished step hands to the steps after it, persisted on the job
+interface StepOutputs {
+  script?: DemoScript
+  voice?: { audioUrl: string, durationSeconds: number, engine: TTSEngineName, voiceId: string, captions?: CaptionFiles }
+  face?: { videoId: string | null, videoUrl: string | null, submittedAt?: string }
+  combine?: { renderId: string | null, videoUrl: string | null, thumbnailUrl?: string | null, submittedAt?: string }
+}
+
+// What the UI shows for each step, streamed to CreateProject over realtime
+interface StepProgress {
+  status: 'pending' | 'processing' | 'completed' | 'error'
+  message?: string
+  updatedAt: string
+}
+
+type JobProgress = Partial<Record<GenerationStep, StepProgress>>
+
+interface GenerationJob {
+  id: string
+  project_id: string
+  user_id: string
+  locale: string
+  // The project_versions row this generation fills in
+  version_id: string | null
+  status: 'queued' | 'running' | 'waiting' | 'review' | 'completed' | 'failed'
+  current_step: GenerationStep | 'done'
+  form_data: DemoFormData
+  step_outputs: StepOutputs
+  progress: JobProgress
+  attempts: number
+  max_attempts: number
+  last_error: string | null
+}
+
+// A step either finishes or hands off to an external service and asks to be polled later
+type StepResult =
+  | { status: 'done', outputs: StepOutputs, message?: string }
+  | { status: 'waiting', outputs: StepOutputs, retryAfterSeconds: number, message: string }
+
+// Thrown before anything is changed when the project already has an unfinished job
+class GenerationInProgressError extends Error {
+  constructor() {
+    super('A demo is already being generated for this project')
+    this.name = 'GenerationInProgressError'
   }
 }
 
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void }
+
+const GENERATION_STEPS: GenerationStep[] = ['script', 'voice', 'face', 'combine']
+
+const STEP_PROGRESS_MESSAGES: Record<GenerationStep, { processing: string, completed: string }> = {
+  script: { processing: 'Analyzing your code with AI...', completed: 'AI script generated' },
+  voice: { processing: 'Creating voice narration...', completed: 'Voice narration created' },
+  face: { processing: 'Generating face video with Tavus...', completed: 'Face video generated' },
+  combine: { processing: 'Rendering the final video...', completed: 'Video elements combined' }
+}
+
+// Jobs claimed per worker run, and the base delay before retrying a failed step (doubles per attempt)
+const JOB_BATCH_SIZE = 5
+const JOB_RETRY_BASE_SECONDS = 30
+
+// How often to poll Tavus and Shotstack, and how long to wait before giving up on them.
+// pg_cron resumes waiting jobs once a minute, so a shorter poll interval wouldn't be honoured
+const FACE_POLL_SECONDS = 60
+const FACE_TIMEOUT_MINUTES = 30
+const COMBINE_POLL_SECONDS = 60
+const COMBINE_TIMEOUT_MINUTES = 10
+const THUMBNAIL_CAPTURE_SECONDS = 2
+
+// A cached step output; the script step also remembers which model wrote it
+interface GenerationArtifact {
+  outputs: StepOutputs
+  message?: string
+  provider?: string
+  model?: string
+}
+
+type ScriptSceneType = 'intro' | 'code' | 'summary'
+
+// One narrated beat of the demo and the code it talks about
+interface ScriptSegment {
+  text: string
+  sceneType: ScriptSceneType
+  lines: { start: number, end: number } | null
+  durationSeconds: number
+}
+
+interface DemoScript {
+  segments: ScriptSegment[]
+}
+
+const SCRIPT_SCENE_TYPES: ScriptSceneType[] = ['intro', 'code', 'summary']
+
+// Contract the LLM is asked to follow; parseScript enforces it on the way back
+const SCRIPT_JSON_SCHEMA = {
+  type: 'object',
+  required: ['segments'],
+  properties: {
+    segments: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        required: ['text', 'sceneType', 'lines', 'durationSeconds'],
+        properties: {
+          text: { type: 'string', description: 'Narration spoken during this segment' },
+          sceneType: { type: 'string', enum: SCRIPT_SCENE_TYPES },
+          lines: {
+            description: 'Line range of the code this segment talks about, or null',
+            oneOf: [
+              { type: 'null' },
+              {
+                type: 'object',
+                required: ['start', 'end'],
+                properties: {
+                  start: { type: 'integer', minimum: 1 },
+                  end: { type: 'integer', minimum: 1 }
+                }
+              }
+            ]
+          },
+          durationSeconds: { type: 'number', exclusiveMinimum: 0 }
+        }
+      }
+    }
+  }
+}
+
+// Languages scripts and voices can be produced in
+const LOCALE_NAMES: Record<string, string> = {
+  en: 'English',
+  es: 'Spanish',
+  fr: 'French',
+  de: 'German',
+  it: 'Italian',
+  pt: 'Portuguese',
+  nl: 'Dutch',
+  pl: 'Polish',
+  hi: 'Hindi',
+  ja: 'Japanese',
+  ko: 'Korean',
+  zh: 'Chinese (Mandarin)'
+}
+
+// Average narration pace, used when a segment comes back without a duration
+const WORDS_PER_SECOND = 2.5
+
+// Subtitle layout: at most two lines of 42 characters per cue, the usual broadcast limit
+const CAPTION_LINE_MAX_CHARS = 42
+const CAPTION_CUE_MAX_CHARS = CAPTION_LINE_MAX_CHARS * 2
+
+interface CaptionCue {
+  start: number
+  end: number
+  text: string
+}
+
+interface CaptionFiles {
+  vttUrl: string
+  srtUrl: string
+}
+
+// Lines of code that fit in the 720p code view, and how many of them one scene highlights
+const CODE_VIEW_MAX_LINES = 18
+const CODE_FOCUS_MAX_LINES = 6
+
+// Form language values that highlight.js knows under another name
+const HIGHLIGHT_LANGUAGES: { [key: string]: string } = {
+  react: 'javascript',
+  nodejs: 'javascript',
+  angular: 'typescript',
+  vue: 'xml'
+}
+
+// Words too common in narration to locate anything in the code
+const SCENE_STOP_WORDS = new Set([
+  'the', 'and', 'this', 'that', 'with', 'for', 'from', 'into', 'then', 'when', 'will',
+  'you', 'your', 'are', 'can', 'our', 'its', 'here', 'each', 'all', 'how', 'what',
+  'code', 'function', 'method', 'class', 'file', 'line', 'lines', 'value', 'data',
+  'new', 'use', 'uses', 'using', 'call', 'calls', 'return', 'returns', 'let', 'const', 'var'
+])
+
+const CODE_SCENE_CSS = [
+  '.window { background: #1e293b; padding: 32px; }',
+  'h1 { color: #e2e8f0; font-family: Helvetica; font-size: 30px; margin-bottom: 24px; }',
+  '.lang { color: #a78bfa; font-size: 22px; }',
+  'p { color: #e2e8f0; font-family: "Courier New"; font-size: 22px; line-height: 1.4; white-space: pre; margin: 0; padding-left: 8px; }',
+  'p.focus { background: #334155; border-left: 4px solid #a78bfa; }',
+  'p.dim { color: #94a3b8; border-left: 4px solid #1e293b; }',
+  '.ln { color: #64748b; padding-right: 24px; }',
+  '.hljs-keyword, .hljs-selector-tag, .hljs-meta-keyword { color: #ff7b72; }',
+  '.hljs-string, .hljs-regexp { color: #a5d6ff; }',
+  '.hljs-comment, .hljs-quote { color: #8b949e; font-style: italic; }',
+  '.hljs-title, .hljs-section { color: #d2a8ff; }',
+  '.hljs-number, .hljs-literal, .hljs-meta { color: #79c0ff; }',
+  '.hljs-attr, .hljs-attribute, .hljs-variable, .hljs-built_in, .hljs-type, .hljs-params { color: #ffa657; }',
+  '.hljs-tag, .hljs-name { color: #7ee787; }',
+  '.hljs-addition { color: #7ee787; background: rgba(46, 160, 67, 0.15); }',
+  '.hljs-deletion { color: #ffa198; background: rgba(248, 81, 73, 0.15); }'
+].join(' ')
+
 // Logging utility
 function log(step: string, message: string, data?: any) {
   const timestamp = new Date().toISOString()
@@ -39,11 +289,55 @@ Deno.serve(async (req) => {
   let projectId = 'unknown'
   
   try {
+    const requestData: ProcessDemoRequest | ResumeJobsRequest | ScriptReviewRequest | RerenderRequest = await req.json()
+
+    // Initialize Supabase client
+    log('SUPABASE', '🔌 Initializing Supabase client')
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    if ('action' in requestData && requestData.action === 'resume') {
+      // Only the scheduled worker, which sends the service role key, may run jobs
+      const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+      if (!serviceRoleKey || req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+        log('ERROR', '❌ Unauthorized resume request')
+        return new Response(
+          JSON.stringify({ error: 'Unauthorized' }),
+          {
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            status: 401,
+          },
+        )
+      }
+
+      log('WORKER', '⏰ Resuming due generation jobs')
+      const claimed = await runDueGenerationJobs(supabaseClient)
+
+      return new Response(
+        JSON.stringify({ success: true, claimed }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 200,
+        },
+      )
+    }
+
+    if ('action' in requestData && requestData.action === 'rerender') {
+      return await handleRerender(req, supabaseClient, requestData)
+    }
+
+    // Review requests never fail the project; a bad edit or LLM hiccup just reports back to the editor
+    if ('action' in requestData && requestData.action !== 'resume') {
+      return await handleScriptReview(req, supabaseClient, requestData)
+    }
+
     log('INIT', '🚀 Starting demo generation process')
-    
-    const requestData: ProcessDemoRequest = await req.json()
-    projectId = requestData.projectId
-    const { formData } = requestData
+
+    // Backstop for the redaction CreateProject shows before generating: nothing secret reaches the LLM or the screen
+    const formData = redactFormData((requestData as ProcessDemoRequest).formData)
+    projectId = (requestData as ProcessDemoRequest).projectId
     
     log('REQUEST', 'Received demo generation request', {
       projectId,
@@ -56,45 +350,27 @@ Deno.serve(async (req) => {
       codeLength: formData.codeSnippet.length
     })
 
-    // Initialize Supabase client
-    log('SUPABASE', '🔌 Initializing Supabase client')
-    const supabaseClient = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
-    )
+    const { jobId, jobIds } = await enqueueGeneration(supabaseClient, projectId, formData)
 
-    // Update project status to processing
-    log('DATABASE', '📝 Updating project status to processing', { projectId })
-    const { error: statusError } = await supabaseClient
-      .from('projects')
-      .update({
-        status: 'processing',
-        updated_at: new Date().toISOString()
-      })
-      .eq('id', projectId)
-
-    if (statusError) {
-      log('ERROR', '❌ Failed to update project status', statusError)
-      throw new Error(`Database error: ${statusError.message}`)
-    }
-
-    // Return immediate response with proper time estimates
-    log('RESPONSE', '✅ Returning immediate success response')
-    
-    // Start background processing (don't await)
-    processVideoInBackground(supabaseClient, projectId, formData)
+    // Start on it right away; the scheduled resume covers us if this runtime goes away
+    log('RESPONSE', '✅ Returning immediate success response', { jobId })
+    EdgeRuntime.waitUntil(runDueGenerationJobs(supabaseClient))
 
     // Determine estimated time based on features
     const estimatedTime = formData.includeFace ? '10-15 minutes' : '2-5 minutes'
-    const message = formData.includeFace 
-      ? 'Demo video generation started! Face video generation with Tavus typically takes 10-15 minutes. You can check back later or we\'ll update the status automatically.'
-      : 'Demo video generation started! Processing will complete in 2-5 minutes.'
+    const message = formData.reviewScript
+      ? 'Script generation started! Review and approve the script to render the video.'
+      : formData.includeFace
+        ? 'Demo video generation started! Face video generation with Tavus typically takes 10-15 minutes. You can check back later or we\'ll update the status automatically.'
+        : 'Demo video generation started! Processing will complete in 2-5 minutes.'
 
     return new Response(
       JSON.stringify({ 
         success: true, 
         message: message,
         projectId: projectId,
+        jobId,
+        jobIds,
         estimatedTime: estimatedTime,
         includeFace: formData.includeFace
       }),
@@ -105,6 +381,18 @@ Deno.serve(async (req) => {
     )
 
   } catch (error) {
+    // The running generation is left alone; only this request is turned away
+    if (error instanceof GenerationInProgressError) {
+      log('QUEUE', '⏳ Project already has a generation running', { projectId })
+      return new Response(
+        JSON.stringify({ error: error.message, projectId }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 409,
+        },
+      )
+    }
+
     log('ERROR', '💥 Fatal error during demo generation', {
       error: error.message,
       stack: error.stack,
@@ -112,24 +400,26 @@ Deno.serve(async (req) => {
     })
     
     // Update project status to failed
-    try {
-      log('CLEANUP', '🧹 Updating project status to failed')
-      const supabaseClient = createClient(
-        Deno.env.get('SUPABASE_URL') ?? '',
-        Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
-      )
-      
-      await supabaseClient
-        .from('projects')
-        .update({
-          status: 'failed',
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', projectId)
-      
-      log('CLEANUP', '✅ Project status updated to failed')
-    } catch (updateError) {
-      log('ERROR', '❌ Failed to update project status to failed', updateError)
+    if (projectId !== 'unknown') {
+      try {
+        log('CLEANUP', '🧹 Updating project status to failed')
+        const supabaseClient = createClient(
+          Deno.env.get('SUPABASE_URL') ?? '',
+          Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+        )
+        
+        await supabaseClient
+          .from('projects')
+          .update({
+            status: 'failed',
+            updated_at: new Date().toISOString()
+          })
+          .eq('id', projectId)
+        
+        log('CLEANUP', '✅ Project status updated to failed')
+      } catch (updateError) {
+        log('ERROR', '❌ Failed to update project status to failed', updateError)
+      }
     }
 
     return new Response(
@@ -146,388 +436,1304 @@ Deno.serve(async (req) => {
   }
 })
 
-// Background processing function that doesn't block the response
-async function processVideoInBackground(supabaseClient: any, projectId: string, formData: any) {
-  try {
-    log('BACKGROUND', '🔄 Starting background video processing', { projectId })
-
-    // Step 1: Generate script using AI
-    log('SCRIPT', '🤖 Starting AI script generation')
-    const script = await generateScript(formData, projectId)
-    log('SCRIPT', '✅ Script generation completed', { 
-      scriptLength: script.length,
-      wordCount: script.split(' ').length 
-    })
-    
-    // Step 2: Generate voice using ElevenLabs
-    log('VOICE', '🎤 Starting voice generation with ElevenLabs')
-    const audioUrl = await generateVoice(script, formData.voiceStyle, projectId)
-    log('VOICE', '✅ Voice generation completed', { audioUrl })
-    
-    // Step 3: Generate face video using Tavus (if enabled)
-    let faceVideoUrl = null
-    let tavusVideoId = null
-    if (formData.includeFace) {
-      log('FACE', '👤 Starting face video generation with Tavus (10-15 minutes expected)')
-      const tavusResult = await generateFaceVideo(script, audioUrl, projectId)
-      faceVideoUrl = tavusResult.videoUrl
-      tavusVideoId = tavusResult.videoId
-      log('FACE', '✅ Face video generation completed', { faceVideoUrl, tavusVideoId })
-    } else {
-      log('FACE', '⏭️ Skipping face video generation (disabled by user)')
+// Opens a new version for the run, queues one job per language and marks the project as processing.
+// Shared by new demos and re-renders. Nothing is changed when a job is already running for the project.
+async function enqueueGeneration(
+  supabaseClient: SupabaseClient,
+  projectId: string,
+  formData: DemoFormData
+): Promise<{ jobId: string, jobIds: string[] }> {
+  const primaryLocale = formData.locale || 'en'
+  const locales = [...new Set([primaryLocale, ...(formData.additionalLocales || [])])]
+  const unsupported = locales.filter(locale => !LOCALE_NAMES[locale])
+  if (unsupported.length > 0) {
+    throw new Error(`Unsupported narration language: ${unsupported.join(', ')}`)
+  }
+
+  const { data: activeJob, error: activeError } = await supabaseClient
+    .from('generation_jobs')
+    .select('id')
+    .eq('project_id', projectId)
+    .in('status', ['queued', 'running', 'waiting', 'review'])
+    .limit(1)
+    .maybeSingle()
+
+  if (activeError) {
+    throw new Error(`Database error: ${activeError.message}`)
+  }
+  if (activeJob) {
+    throw new GenerationInProgressError()
+  }
+
+  const { data: project, error: projectError } = await supabaseClient
+    .from('projects')
+    .select('user_id')
+    .eq('id', projectId)
+    .single()
+
+  if (projectError || !project) {
+    log('ERROR', '❌ Failed to load project', projectError)
+    throw new Error(`Database error: ${projectError?.message || 'project not found'}`)
+  }
+
+  // Every run gets its own version, so a retry never overwrites an earlier render
+  const { data: latestVersion } = await supabaseClient
+    .from('project_versions')
+    .select('version_number')
+    .eq('project_id', projectId)
+    .order('version_number', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  const { data: version, error: versionError } = await supabaseClient
+    .from('project_versions')
+    .insert([{
+      project_id: projectId,
+      version_number: (latestVersion?.version_number || 0) + 1,
+      form_data: formData,
+      code_snippet: formData.codeSnippet
+    }])
+    .select('id, version_number')
+    .single()
+
+  if (versionError) {
+    log('ERROR', '❌ Failed to create project version', versionError)
+    throw new Error(`Database error: ${versionError.message}`)
+  }
+
+  // Persist one job per language before any work starts so a restart can pick them up again
+  log('QUEUE', '📥 Enqueuing generation jobs', { projectId, locales, version: version.version_number })
+  const { data: jobs, error: jobError } = await supabaseClient
+    .from('generation_jobs')
+    .insert(locales.map(locale => ({
+      project_id: projectId,
+      user_id: project.user_id,
+      locale,
+      version_id: version.id,
+      form_data: formData
+    })))
+    .select('id, locale')
+
+  if (jobError) {
+    log('ERROR', '❌ Failed to enqueue generation job', jobError)
+    // The version never ran; don't leave it behind as processing
+    await supabaseClient.from('project_versions').delete().eq('id', version.id)
+    if (jobError.code === '23505') {
+      throw new GenerationInProgressError()
     }
-    
-    // Step 4: Combine everything into final video
-    log('COMBINE', '🎞️ Starting video combination process')
-    const finalVideoUrl = await combineVideo({
-      script,
-      audioUrl,
-      faceVideoUrl,
-      codeSnippet: formData.codeSnippet,
-      language: formData.language,
-      includeCode: formData.includeCode,
-      demoType: formData.demoType
-    }, projectId)
-    log('COMBINE', '✅ Video combination completed', { finalVideoUrl })
+    throw new Error(`Failed to enqueue generation job: ${jobError.message}`)
+  }
 
-    // Update project with completed video and Tavus video ID for polling
-    log('DATABASE', '💾 Updating project with completed video')
-    const updateData: any = {
-      video_url: finalVideoUrl,
-      status: 'completed',
+  // Update project status to processing
+  log('DATABASE', '📝 Updating project status to processing', { projectId, locales })
+  const { error: statusError } = await supabaseClient
+    .from('projects')
+    .update({
+      status: 'processing',
+      locale: primaryLocale,
       updated_at: new Date().toISOString()
+    })
+    .eq('id', projectId)
+
+  if (statusError) {
+    log('ERROR', '❌ Failed to update project status', statusError)
+    throw new Error(`Database error: ${statusError.message}`)
+  }
+
+  // A rendition keeps its last video until the new one completes, so a failed re-render loses nothing
+  const { error: renditionError } = await supabaseClient
+    .from('project_renditions')
+    .upsert(locales.map(locale => ({
+      project_id: projectId,
+      locale,
+      status: 'processing'
+    })), { onConflict: 'project_id,locale' })
+
+  if (renditionError) {
+    log('ERROR', '❌ Failed to create project renditions', renditionError)
+    throw new Error(`Database error: ${renditionError.message}`)
+  }
+
+  const job = jobs.find(queued => queued.locale === primaryLocale)!
+  return { jobId: job.id, jobIds: jobs.map(queued => queued.id) }
+}
+
+// Claims every job that is due (queued, done waiting, or abandoned by a dead
+// worker) and advances each one as far as it can go in this invocation.
+async function runDueGenerationJobs(supabaseClient: SupabaseClient): Promise<number> {
+  const { data: jobs, error } = await supabaseClient
+    .rpc('claim_generation_jobs', { batch_size: JOB_BATCH_SIZE })
+
+  if (error) {
+    log('ERROR', '❌ Failed to claim generation jobs', error)
+    throw new Error(`Failed to claim generation jobs: ${error.message}`)
+  }
+
+  log('WORKER', `📋 Claimed ${jobs.length} generation job(s)`)
+  for (const job of jobs as GenerationJob[]) {
+    await runGenerationJob(supabaseClient, job)
+  }
+
+  return jobs.length
+}
+
+async function runGenerationJob(supabaseClient: SupabaseClient, job: GenerationJob) {
+  const outputs: StepOutputs = { ...job.step_outputs }
+  const progress: JobProgress = { ...job.progress }
+  let step = job.current_step
+  let attempts = job.attempts
+
+  // Each claim counts as an attempt, so a step that keeps killing the worker is
+  // reclaimed past max_attempts without ever reaching failGenerationStep
+  if (step !== 'done' && attempts > job.max_attempts) {
+    await failGenerationStep(supabaseClient, job, step, attempts, outputs, progress,
+      new Error(`The ${step} step stopped without finishing ${job.max_attempts} times`))
+    return
+  }
+
+  while (step !== 'done') {
+    log('WORKER', `▶️ Running ${step} step`, { jobId: job.id, projectId: job.project_id, attempt: attempts })
+
+    // Waking up to poll an external render is not worth another realtime event
+    if (progress[step]?.status !== 'processing') {
+      setStepProgress(progress, step, 'processing', STEP_PROGRESS_MESSAGES[step].processing)
+      await updateGenerationJob(supabaseClient, job.id, { progress })
     }
-    
-    // Store Tavus video ID for future polling if needed
-    if (tavusVideoId) {
-      updateData.tavus_video_id = tavusVideoId
+
+    let result: StepResult
+    try {
+      result = await runGenerationStep(supabaseClient, step, job, outputs)
+    } catch (error) {
+      await failGenerationStep(supabaseClient, job, step, attempts, outputs, progress, error)
+      return
     }
 
-    const { error: updateError } = await supabaseClient
-      .from('projects')
-      .update(updateData)
-      .eq('id', projectId)
-
-    if (updateError) {
-      log('ERROR', '❌ Failed to update project with video URL', updateError)
-      throw updateError
-    }
-
-    // Create analytics entry
-    log('ANALYTICS', '📊 Creating analytics entry')
-    const { error: analyticsError } = await supabaseClient
-      .from('analytics')
-      .insert([{
-        project_id: projectId,
-        views: 0,
-        shares: 0,
-        completion_rate: 0
-      }])
-
-    if (analyticsError) {
-      log('WARNING', '⚠️ Failed to create analytics entry (non-critical)', analyticsError)
-    } else {
-      log('ANALYTICS', '✅ Analytics entry created successfully')
+    Object.assign(outputs, result.outputs)
+
+    if (result.status === 'waiting') {
+      log('WORKER', `⏸️ Waiting on ${step} step`, { jobId: job.id, retryAfterSeconds: result.retryAfterSeconds })
+      setStepProgress(progress, step, 'processing', result.message)
+      await updateGenerationJob(supabaseClient, job.id, {
+        status: 'waiting',
+        current_step: step,
+        step_outputs: outputs,
+        progress,
+        run_after: new Date(Date.now() + result.retryAfterSeconds * 1000).toISOString(),
+        locked_at: null
+      })
+      return
     }
 
-    log('SUCCESS', '🎉 Background demo generation completed successfully!', {
-      projectId,
-      finalVideoUrl,
-      tavusVideoId
-    })
+    // Checkpoint after every step so a crash resumes from the next one
+    const nextStep = GENERATION_STEPS[GENERATION_STEPS.indexOf(step) + 1] || 'done'
+    log('WORKER', `✅ Finished ${step} step`, { jobId: job.id, nextStep })
+    setStepProgress(progress, step, 'completed', result.message || STEP_PROGRESS_MESSAGES[step].completed)
 
-  } catch (error) {
-    log('ERROR', '💥 Fatal error during background processing', {
-      error: error.message,
-      stack: error.stack,
-      projectId
+    if (step === 'script' && job.form_data.reviewScript && await isAwaitingScriptReview(supabaseClient, job)) {
+      await pauseForScriptReview(supabaseClient, job, outputs, progress)
+      return
+    }
+
+    step = nextStep
+    attempts = 1
+    await updateGenerationJob(supabaseClient, job.id, {
+      current_step: step,
+      step_outputs: outputs,
+      progress,
+      attempts,
+      last_error: null
     })
-    
-    // Update project status to failed
-    try {
-      await supabaseClient
-        .from('projects')
-        .update({
-          status: 'failed',
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', projectId)
-    } catch (updateError) {
-      log('ERROR', '❌ Failed to update project status to failed', updateError)
+  }
+
+  await completeGenerationJob(supabaseClient, job, outputs)
+}
+
+function setStepProgress(progress: JobProgress, step: GenerationStep, status: StepProgress['status'], message?: string) {
+  progress[step] = { status, message, updatedAt: new Date().toISOString() }
+}
+
+async function runGenerationStep(
+  supabaseClient: SupabaseClient,
+  step: GenerationStep,
+  job: GenerationJob,
+  outputs: StepOutputs
+): Promise<StepResult> {
+  // The script step records where its script came from, so it reads the cache itself
+  if (step === 'script') {
+    return runScriptStep(supabaseClient, job)
+  }
+
+  // A step already in flight keeps polling its own render instead of looking for a cached one
+  const cacheKey = outputs[step] ? null : await getArtifactCacheKey(step, job, outputs)
+  if (cacheKey) {
+    const cached = await findArtifact(supabaseClient, job, step, cacheKey)
+    if (cached) {
+      return { status: 'done', outputs: cached.outputs, message: `${cached.message || STEP_PROGRESS_MESSAGES[step].completed} (reused)` }
     }
   }
+
+  const result = await runUncachedStep(supabaseClient, step, job, outputs)
+  if (result.status === 'done') {
+    // The key is taken before the step runs; in-flight steps compute it from the same upstream outputs
+    const key = cacheKey || await getArtifactCacheKey(step, job, outputs)
+    await storeArtifact(supabaseClient, job, step, key, { outputs: result.outputs, message: result.message })
+  }
+  return result
 }
 
-async function generateScript(formData: any, projectId: string): Promise<string> {
-  log('SCRIPT_AI', '🔍 Checking available AI providers')
-  
-  const openaiKey = Deno.env.get('OPENAI_API_KEY')
-  const geminiKey = Deno.env.get('GOOGLE_GEMINI_API_KEY')
-  const claudeKey = Deno.env.get('ANTHROPIC_API_KEY')
-  
-  log('SCRIPT_AI', '🔑 API Key availability check', {
-    hasOpenAI: !!openaiKey,
-    hasGemini: !!geminiKey,
-    hasClaude: !!claudeKey
+function runUncachedStep(
+  supabaseClient: SupabaseClient,
+  step: Exclude<GenerationStep, 'script'>,
+  job: GenerationJob,
+  outputs: StepOutputs
+): Promise<StepResult> {
+  switch (step) {
+    case 'voice':
+      return runVoiceStep(supabaseClient, job, outputs)
+    case 'face':
+      return runFaceStep(supabaseClient, job, outputs)
+    case 'combine':
+      return runCombineStep(job, outputs)
+  }
+}
+
+async function runScriptStep(supabaseClient: SupabaseClient, job: GenerationJob): Promise<StepResult> {
+  log('SCRIPT', '🤖 Starting AI script generation')
+  const tier = await getUserTier(supabaseClient, job.user_id)
+
+  const cacheKey = await getArtifactCacheKey('script', job, {}, tier)
+  const cached = await findArtifact(supabaseClient, job, 'script', cacheKey)
+  const generated = cached
+    ? { script: cached.outputs.script!, provider: cached.provider || 'cache', model: cached.model || 'cache' }
+    : await generateScript(job.form_data, tier, job.locale)
+  const { script, provider, model } = generated
+
+  if (!cached) {
+    await storeArtifact(supabaseClient, job, 'script', cacheKey, { outputs: { script }, provider, model })
+  }
+
+  log('SCRIPT', '✅ Script generation completed', { 
+    segments: script.segments.length,
+    wordCount: getScriptNarration(script).split(' ').length,
+    provider,
+    model
   })
 
-  // Try Google Gemini first (free and excellent)
-  if (geminiKey) {
-    log('SCRIPT_AI', '🟢 Using Google Gemini (FREE option)')
-    return await generateScriptWithGemini(formData, geminiKey, projectId)
+  // The project row mirrors the primary language; every language keeps its own rendition
+  if (isPrimaryLocale(job)) {
+    const { error: scriptError } = await supabaseClient
+      .from('projects')
+      .update({ script, script_provider: provider, script_model: model })
+      .eq('id', job.project_id)
+
+    if (scriptError) {
+      log('WARNING', '⚠️ Failed to store script on project (non-critical)', scriptError)
+    }
+
+    await updateVersion(supabaseClient, job, { script, script_provider: provider, script_model: model })
   }
-  
-  // Fallback to OpenAI
-  if (openaiKey) {
-    log('SCRIPT_AI', '🟡 Using OpenAI GPT-4 (paid option)')
-    return await generateScriptWithOpenAI(formData, openaiKey, projectId)
+
+  await updateRendition(supabaseClient, job, { script })
+
+  return {
+    status: 'done',
+    outputs: { script },
+    message: cached ? `Reused the AI script written by ${model}` : `AI script generated with ${model}`
   }
-  
-  // Fallback to Claude
-  if (claudeKey) {
-    log('SCRIPT_AI', '🟣 Using Anthropic Claude')
-    return await generateScriptWithClaude(formData, claudeKey, projectId)
+}
+
+// Everything a step's output depends on, hashed. Upstream artifacts are part of the key
+// (script text, audio URL, face video URL), so a change invalidates every step after it.
+async function getArtifactCacheKey(
+  step: GenerationStep,
+  job: GenerationJob,
+  outputs: StepOutputs,
+  tier?: LLMTier
+): Promise<string> {
+  const formData = job.form_data
+  let inputs: unknown
+
+  switch (step) {
+    case 'script':
+      inputs = {
+        title: formData.title,
+        description: formData.description,
+        codeSnippet: formData.codeSnippet,
+        intentContext: formData.intentContext,
+        language: formData.language,
+        demoType: formData.demoType,
+        voiceStyle: formData.voiceStyle,
+        locale: job.locale,
+        tier
+      }
+      break
+    case 'voice':
+      inputs = {
+        narration: getScriptNarration(requireStepOutput(outputs, 'script')),
+        segments: requireStepOutput(outputs, 'script').segments.map(segment => segment.durationSeconds),
+        voiceId: formData.voiceId || null,
+        voiceStyle: formData.voiceStyle,
+        locale: job.locale
+      }
+      break
+    case 'face':
+      inputs = {
+        includeFace: formData.includeFace,
+        audioUrl: requireStepOutput(outputs, 'voice').audioUrl,
+        replicaId: Deno.env.get('TAVUS_REPLICA_ID') || null
+      }
+      break
+    case 'combine':
+      inputs = {
+        script: requireStepOutput(outputs, 'script'),
+        audioUrl: requireStepOutput(outputs, 'voice').audioUrl,
+        faceVideoUrl: outputs.face?.videoUrl || null,
+        title: formData.title,
+        codeSnippet: formData.codeSnippet,
+        language: formData.language,
+        // "What changed" demos highlight the diff's added and removed lines
+        demoType: formData.demoType,
+        includeCode: formData.includeCode,
+        shotstackEnv: Deno.env.get('SHOTSTACK_ENV') || 'stage'
+      }
+      break
   }
-  
-  log('ERROR', '❌ No AI API keys configured!')
-  throw new Error('No AI API keys configured. Please add GOOGLE_GEMINI_API_KEY (free), OPENAI_API_KEY, or ANTHROPIC_API_KEY to your environment variables.')
+
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify({ step, inputs })))
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
 }
 
-async function generateScriptWithGemini(formData: any, apiKey: string, projectId: string): Promise<string> {
-  log('GEMINI', '🚀 Starting Gemini API request')
-  
-  const prompt = createScriptPrompt(formData)
-  log('GEMINI', '📝 Generated prompt', { promptLength: prompt.length })
-  
-  const response = await fetch(`https://generativelanguage.googleapis.com/v1/models/gemini-1.5-flash:generateContent?key=${apiKey}`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
+async function findArtifact(
+  supabaseClient: SupabaseClient,
+  job: GenerationJob,
+  step: GenerationStep,
+  cacheKey: string
+): Promise<GenerationArtifact | null> {
+  const { data, error } = await supabaseClient
+    .from('generation_artifacts')
+    .update({ last_used_at: new Date().toISOString() })
+    .eq('user_id', job.user_id)
+    .eq('step', step)
+    .eq('cache_key', cacheKey)
+    .select('output')
+    .maybeSingle()
+
+  if (error) {
+    log('WARNING', '⚠️ Artifact cache lookup failed (non-critical)', { step, error })
+    return null
+  }
+
+  if (data) {
+    log('CACHE', `♻️ Reusing cached ${step} artifact`, { jobId: job.id, cacheKey })
+  }
+  return data ? data.output as GenerationArtifact : null
+}
+
+async function storeArtifact(
+  supabaseClient: SupabaseClient,
+  job: GenerationJob,
+  step: GenerationStep,
+  cacheKey: string,
+  artifact: GenerationArtifact
+) {
+  const { error } = await supabaseClient
+    .from('generation_artifacts')
+    .upsert({
+      user_id: job.user_id,
+      step,
+      cache_key: cacheKey,
+      output: artifact,
+      last_used_at: new Date().toISOString()
+    }, { onConflict: 'user_id,step,cache_key' })
+
+  if (error) {
+    log('WARNING', '⚠️ Failed to cache step artifact (non-critical)', { step, error })
+  }
+}
+
+async function getUserTier(supabaseClient: SupabaseClient, userId: string): Promise<LLMTier> {
+  const { data: profile } = await supabaseClient
+    .from('profiles')
+    .select('subscription_tier')
+    .eq('id', userId)
+    .single()
+
+  return profile?.subscription_tier || 'free'
+}
+
+// Other languages wait alongside the primary script, unless it was already approved while they were writing theirs
+async function isAwaitingScriptReview(supabaseClient: SupabaseClient, job: GenerationJob): Promise<boolean> {
+  if (isPrimaryLocale(job)) return true
+
+  const { data: primaryJob } = await supabaseClient
+    .from('generation_jobs')
+    .select('status, current_step')
+    .eq('project_id', job.project_id)
+    .eq('locale', job.form_data.locale || 'en')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  return !!primaryJob && (primaryJob.status === 'review' || (primaryJob.current_step === 'script' && primaryJob.status !== 'failed'))
+}
+
+// Parks the job with the voice step next; claim_generation_jobs skips jobs in review
+async function pauseForScriptReview(
+  supabaseClient: SupabaseClient,
+  job: GenerationJob,
+  outputs: StepOutputs,
+  progress: JobProgress
+) {
+  log('REVIEW', '📝 Script ready for review', { jobId: job.id, locale: job.locale })
+  setStepProgress(progress, 'voice', 'pending', 'Waiting for you to approve the script')
+  await updateGenerationJob(supabaseClient, job.id, {
+    status: 'review',
+    current_step: 'voice',
+    step_outputs: outputs,
+    progress,
+    attempts: 0,
+    locked_at: null
+  })
+
+  if (isPrimaryLocale(job)) {
+    const { error } = await supabaseClient
+      .from('projects')
+      .update({ status: 'review', updated_at: new Date().toISOString() })
+      .eq('id', job.project_id)
+
+    if (error) {
+      log('WARNING', '⚠️ Failed to mark project as in review (non-critical)', error)
+    }
+  }
+}
+
+async function handleScriptReview(
+  req: Request,
+  supabaseClient: SupabaseClient,
+  request: ScriptReviewRequest
+): Promise<Response> {
+  const respond = (body: Record<string, unknown>, status: number) => new Response(
+    JSON.stringify(body),
+    {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status,
     },
-    body: JSON.stringify({
-      contents: [{
-        parts: [{
-          text: prompt
-        }]
-      }],
-      generationConfig: {
-        temperature: 0.7,
-        topK: 40,
-        topP: 0.95,
-        maxOutputTokens: 1024,
+  )
+
+  try {
+    const job = await getReviewJob(req, supabaseClient, request.projectId)
+    // Round-trip through the validator so hand edits get the same checks as LLM output
+    const script = parseScript(JSON.stringify(request.script), job.form_data.codeSnippet)
+
+    if (request.action === 'regenerate_segment') {
+      if (!Number.isInteger(request.segmentIndex) || !script.segments[request.segmentIndex]) {
+        return respond({ error: 'Unknown script segment' }, 400)
       }
-    }),
-  })
 
-  log('GEMINI', '📡 Received API response', { 
-    status: response.status,
-    statusText: response.statusText 
+      const tier = await getUserTier(supabaseClient, job.user_id)
+      script.segments[request.segmentIndex] = await regenerateScriptSegment(
+        job.form_data, script, request.segmentIndex, request.instructions, tier, job.locale
+      )
+      await saveDraftScript(supabaseClient, job, script)
+
+      return respond({ success: true, script }, 200)
+    }
+
+    await saveDraftScript(supabaseClient, job, script)
+
+    // The approved script replaces the LLM draft in the cache, so re-renders keep the edits
+    const scriptKey = await getArtifactCacheKey('script', job, {}, await getUserTier(supabaseClient, job.user_id))
+    const draft = await findArtifact(supabaseClient, job, 'script', scriptKey)
+    await storeArtifact(supabaseClient, job, 'script', scriptKey, { ...draft, outputs: { script } })
+
+    // Every language was paused after its own script; approving releases them together
+    log('REVIEW', '✅ Script approved, resuming rendering', { projectId: request.projectId })
+    const { error: resumeError } = await supabaseClient
+      .from('generation_jobs')
+      .update({ status: 'queued', run_after: new Date().toISOString() })
+      .eq('project_id', request.projectId)
+      .eq('status', 'review')
+
+    if (resumeError) {
+      throw new Error(`Failed to resume generation jobs: ${resumeError.message}`)
+    }
+
+    await supabaseClient
+      .from('projects')
+      .update({ status: 'processing', updated_at: new Date().toISOString() })
+      .eq('id', request.projectId)
+
+    EdgeRuntime.waitUntil(runDueGenerationJobs(supabaseClient))
+    return respond({ success: true, jobId: job.id }, 200)
+  } catch (error) {
+    log('ERROR', `❌ Script review ${request.action} failed`, { error: error.message, projectId: request.projectId })
+    return respond({ error: error.message }, 400)
+  }
+}
+
+// Requests from the app carry the user's session token; returns the project if they own it
+async function getOwnedProject(
+  req: Request,
+  supabaseClient: SupabaseClient,
+  projectId: string
+): Promise<{ id: string, locale: string, status: string }> {
+  const authHeader = req.headers.get('Authorization')
+  if (!authHeader) {
+    throw new Error('Authorization required')
+  }
+
+  const jwt = authHeader.replace('Bearer ', '')
+  const { data: { user }, error: userError } = await supabaseClient.auth.getUser(jwt)
+  if (userError || !user) {
+    throw new Error('Invalid authentication token')
+  }
+
+  const { data: project, error: projectError } = await supabaseClient
+    .from('projects')
+    .select('id, locale, status')
+    .eq('id', projectId)
+    .eq('user_id', user.id)
+    .single()
+
+  if (projectError || !project) {
+    throw new Error('Project not found or access denied')
+  }
+
+  return project
+}
+
+// Checks the caller owns the project and returns its primary-language job waiting on review
+async function getReviewJob(req: Request, supabaseClient: SupabaseClient, projectId: string): Promise<GenerationJob> {
+  const project = await getOwnedProject(req, supabaseClient, projectId)
+
+  const { data: job, error: jobError } = await supabaseClient
+    .from('generation_jobs')
+    .select('*')
+    .eq('project_id', projectId)
+    .eq('locale', project.locale)
+    .eq('status', 'review')
+    .maybeSingle()
+
+  if (jobError || !job) {
+    throw new Error('This project has no script waiting for review')
+  }
+
+  return job as GenerationJob
+}
+
+// Queues the project again from its last job's settings. Every step whose inputs did not
+// change is served from generation_artifacts, so only the steps downstream of a change run.
+async function handleRerender(req: Request, supabaseClient: SupabaseClient, request: RerenderRequest): Promise<Response> {
+  const respond = (body: Record<string, unknown>, status: number) => new Response(
+    JSON.stringify(body),
+    {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status,
+    },
+  )
+
+  try {
+    const project = await getOwnedProject(req, supabaseClient, request.projectId)
+
+    const { data: lastJob, error: jobError } = await supabaseClient
+      .from('generation_jobs')
+      .select('form_data')
+      .eq('project_id', project.id)
+      .eq('locale', project.locale)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (jobError || !lastJob) {
+      throw new Error('This project has no earlier generation to re-render')
+    }
+
+    // The script was already reviewed the first time; an unchanged one comes straight from the cache
+    const changes = pickRerenderChanges(request.changes)
+    // Masked again like a new demo, in case the stored settings predate redaction
+    const formData = redactFormData({ ...lastJob.form_data, ...changes, reviewScript: false })
+    log('RERENDER', '🔁 Re-rendering project', { projectId: project.id, changes })
+
+    const { jobId, jobIds } = await enqueueGeneration(supabaseClient, project.id, formData)
+    EdgeRuntime.waitUntil(runDueGenerationJobs(supabaseClient))
+
+    return respond({ success: true, projectId: project.id, jobId, jobIds }, 200)
+  } catch (error) {
+    log('ERROR', '❌ Re-render failed to start', { error: error.message, projectId: request.projectId })
+    return respond({ error: error.message }, error instanceof GenerationInProgressError ? 409 : 400)
+  }
+}
+
+function pickRerenderChanges(changes: unknown): Partial<Pick<DemoFormData, RerenderSetting>> {
+  if (!changes || typeof changes !== 'object') return {}
+  return Object.fromEntries(
+    Object.entries(changes).filter(([key]) => (RERENDER_SETTINGS as readonly string[]).includes(key))
+  )
+}
+
+async function saveDraftScript(supabaseClient: SupabaseClient, job: GenerationJob, script: DemoScript) {
+  await updateGenerationJob(supabaseClient, job.id, {
+    step_outputs: { ...job.step_outputs, script }
   })
 
-  if (!response.ok) {
-    const errorText = await response.text()
-    log('ERROR', '❌ Gemini API error', { 
-      status: response.status,
-      error: errorText 
-    })
-    throw new Error(`Gemini API error: ${response.status} - ${errorText}`)
+  const { error } = await supabaseClient
+    .from('projects')
+    .update({ script, updated_at: new Date().toISOString() })
+    .eq('id', job.project_id)
+
+  if (error) {
+    log('WARNING', '⚠️ Failed to store edited script on project (non-critical)', error)
   }
 
-  const data = await response.json()
-  log('GEMINI', '✅ Successfully parsed response')
-  
-  const script = data.candidates?.[0]?.content?.parts?.[0]?.text
-  if (!script) {
-    log('ERROR', '❌ No script content in Gemini response', data)
-    throw new Error('No script content received from Gemini')
+  await updateVersion(supabaseClient, job, { script })
+  await updateRendition(supabaseClient, job, { script })
+}
+
+async function runVoiceStep(supabaseClient: SupabaseClient, job: GenerationJob, outputs: StepOutputs): Promise<StepResult> {
+  const script = requireStepOutput(outputs, 'script')
+  const selectedVoice = await resolveVoice(supabaseClient, job)
+
+  log('VOICE', '🎤 Starting voice generation', selectedVoice)
+  const voice = await generateVoice(getScriptNarration(script), selectedVoice, job.form_data.voiceStyle, job.locale, job.project_id)
+  log('VOICE', '✅ Voice generation completed', voice)
+
+  // Captions follow the same segment timing the code scenes use, so both line up with the narration
+  const captions = await storeCaptions(
+    buildCaptionCues(script.segments, voice.durationSeconds),
+    job.project_id,
+    job.locale
+  )
+
+  const fellBack = voice.engine !== selectedVoice.engine
+  return {
+    status: 'done',
+    outputs: { voice: { ...voice, captions } },
+    message: fellBack
+      ? `Voice narration created with the ${voice.engine} engine (${selectedVoice.engine} was unavailable)`
+      : `Voice narration created with ${selectedVoice.name || 'the selected voice'}`
   }
-  
-  log('GEMINI', '🎯 Script extracted successfully', { 
-    scriptLength: script.length,
-    wordCount: script.split(' ').length 
+}
+
+// Looks up the catalog voice picked in CreateProject; built-in voices have no owner.
+// A voice that cannot speak the job's language is swapped for a built-in one of the same gender that can.
+async function resolveVoice(supabaseClient: SupabaseClient, job: GenerationJob): Promise<TTSVoice> {
+  if (!job.form_data.voiceId) {
+    return getDefaultVoice(job.form_data.voiceStyle)
+  }
+
+  const { data: voice, error } = await supabaseClient
+    .from('voices')
+    .select('name, engine, voice_id, gender, locales')
+    .eq('id', job.form_data.voiceId)
+    .or(`user_id.is.null,user_id.eq.${job.user_id}`)
+    .maybeSingle()
+
+  if (error || !voice) {
+    log('WARNING', '⚠️ Selected voice not found, using the default voice', { voiceId: job.form_data.voiceId, error })
+    return getDefaultVoice(job.form_data.voiceStyle)
+  }
+
+  if (!voice.locales || voice.locales.includes(job.locale)) {
+    return { engine: voice.engine, voiceId: voice.voice_id, gender: voice.gender, name: voice.name }
+  }
+
+  const { data: multilingualVoice } = await supabaseClient
+    .from('voices')
+    .select('name, engine, voice_id, gender')
+    .is('user_id', null)
+    .eq('gender', voice.gender)
+    .or(`locales.is.null,locales.cs.{${job.locale}}`)
+    .limit(1)
+    .maybeSingle()
+
+  log('VOICE', `🌍 ${voice.name} does not speak ${job.locale}, switching voice`, { replacement: multilingualVoice?.name })
+  return multilingualVoice
+    ? { engine: multilingualVoice.engine, voiceId: multilingualVoice.voice_id, gender: multilingualVoice.gender, name: multilingualVoice.name }
+    : getDefaultVoice(job.form_data.voiceStyle)
+}
+
+async function runFaceStep(supabaseClient: SupabaseClient, job: GenerationJob, outputs: StepOutputs): Promise<StepResult> {
+  if (!job.form_data.includeFace) {
+    log('FACE', '⏭️ Skipping face video generation (disabled by user)')
+    return { status: 'done', outputs: { face: { videoId: null, videoUrl: null } }, message: 'Skipped' }
+  }
+
+  const face = outputs.face
+  if (!face?.videoId) {
+    const voice = requireStepOutput(outputs, 'voice')
+    log('FACE', '👤 Starting face video generation with Tavus (10-15 minutes expected)')
+    const videoId = await submitFaceVideo(voice.audioUrl)
+    if (!videoId) {
+      return {
+        status: 'done',
+        outputs: { face: { videoId: null, videoUrl: null } },
+        message: 'Skipped (Tavus is not configured)'
+      }
+    }
+
+    // Store Tavus video ID right away so the dashboard can poll it too; it only tracks the primary video
+    if (isPrimaryLocale(job)) {
+      const { error: tavusIdError } = await supabaseClient
+        .from('projects')
+        .update({ tavus_video_id: videoId })
+        .eq('id', job.project_id)
+
+      if (tavusIdError) {
+        log('WARNING', '⚠️ Failed to store Tavus video ID on project (non-critical)', tavusIdError)
+      }
+    }
+
+    return {
+      status: 'waiting',
+      outputs: { face: { videoId, videoUrl: null, submittedAt: new Date().toISOString() } },
+      retryAfterSeconds: FACE_POLL_SECONDS,
+      message: 'Tavus is generating the face video (typically takes 10-15 minutes)...'
+    }
+  }
+
+  const videoUrl = await checkFaceVideo(face.videoId)
+  if (videoUrl) {
+    log('FACE', '✅ Face video generation completed', { videoUrl, videoId: face.videoId })
+    return { status: 'done', outputs: { face: { ...face, videoUrl } } }
+  }
+
+  if (hasTimedOut(face.submittedAt, FACE_TIMEOUT_MINUTES)) {
+    log('ERROR', `⏰ Tavus video generation timed out after ${FACE_TIMEOUT_MINUTES} minutes`)
+    throw new Error(`Tavus video generation timed out after ${FACE_TIMEOUT_MINUTES} minutes`)
+  }
+
+  return {
+    status: 'waiting',
+    outputs: { face },
+    retryAfterSeconds: FACE_POLL_SECONDS,
+    message: `Generating face video... (${getElapsedMinutes(face.submittedAt)} minutes elapsed, typically takes 10-15 minutes)`
+  }
+}
+
+async function runCombineStep(job: GenerationJob, outputs: StepOutputs): Promise<StepResult> {
+  const combine = outputs.combine
+  if (combine?.renderId) {
+    const rendered = await checkComposition(combine.renderId)
+    if (rendered) {
+      const videoUrl = await storeRenderedVideo(rendered.url, job.project_id, job.locale)
+      const thumbnailUrl = rendered.thumbnail
+        ? await storeThumbnail(rendered.thumbnail, job.project_id, job.locale)
+        : null
+      log('COMBINE', '✅ Video combination completed', { videoUrl, thumbnailUrl })
+      return { status: 'done', outputs: { combine: { ...combine, videoUrl, thumbnailUrl } }, message: 'Video rendered and stored' }
+    }
+
+    if (hasTimedOut(combine.submittedAt, COMBINE_TIMEOUT_MINUTES)) {
+      log('ERROR', `⏰ Shotstack render timed out after ${COMBINE_TIMEOUT_MINUTES} minutes`)
+      throw new Error(`Shotstack render timed out after ${COMBINE_TIMEOUT_MINUTES} minutes`)
+    }
+
+    return {
+      status: 'waiting',
+      outputs: { combine },
+      retryAfterSeconds: COMBINE_POLL_SECONDS,
+      message: `Rendering the final video... (${getElapsedMinutes(combine.submittedAt)} minutes elapsed)`
+    }
+  }
+
+  const script = requireStepOutput(outputs, 'script')
+  const voice = requireStepOutput(outputs, 'voice')
+  const faceVideoUrl = outputs.face?.videoUrl || null
+  const formData = job.form_data
+
+  log('COMBINE', '🎞️ Starting video combination process', {
+    hasFaceVideo: !!faceVideoUrl,
+    includeCode: formData.includeCode,
+    demoType: formData.demoType,
+    language: formData.language,
+    audioDuration: voice.durationSeconds
   })
-  
-  return script
+
+  if (!Deno.env.get('SHOTSTACK_API_KEY')) {
+    // The Tavus render is already a real MP4 with the narration baked in
+    if (faceVideoUrl) {
+      log('WARNING', '⚠️ Shotstack API key not configured, using face video as final output')
+      return {
+        status: 'done',
+        outputs: { combine: { renderId: null, videoUrl: faceVideoUrl } },
+        message: 'Using the face video as the final video'
+      }
+    }
+
+    log('ERROR', '❌ Shotstack API key not configured')
+    throw new Error('SHOTSTACK_API_KEY is required to render demo videos without a face avatar. Please add it to your environment variables.')
+  }
+
+  const edit = buildCompositionEdit({
+    script,
+    audioUrl: voice.audioUrl,
+    audioDuration: voice.durationSeconds,
+    faceVideoUrl,
+    title: formData.title,
+    codeSnippet: formData.codeSnippet,
+    language: getCodeLanguage(formData),
+    includeCode: formData.includeCode,
+    focusChanges: formData.demoType === 'changes'
+  })
+  log('COMBINE', '🧩 Built composition timeline', {
+    tracks: edit.timeline.tracks.length,
+    length: voice.durationSeconds
+  })
+
+  const renderId = await submitComposition(edit)
+  return {
+    status: 'waiting',
+    outputs: { combine: { renderId, videoUrl: null, submittedAt: new Date().toISOString() } },
+    retryAfterSeconds: COMBINE_POLL_SECONDS,
+    message: 'Shotstack is rendering the final video...'
+  }
 }
 
-async function generateScriptWithOpenAI(formData: any, apiKey: string, projectId: string): Promise<string> {
-  log('OPENAI', '🚀 Starting OpenAI API request')
-  
-  const prompt = createScriptPrompt(formData)
-  log('OPENAI', '📝 Generated prompt', { promptLength: prompt.length })
-  
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${apiKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: 'gpt-4',
-      messages: [
-        {
-          role: 'system',
-          content: 'You are an expert technical presenter who creates engaging demo scripts for developers. Create clear, concise, and compelling scripts that explain code in an accessible way.'
-        },
-        {
-          role: 'user',
-          content: prompt
-        }
-      ],
-      max_tokens: 1000,
-      temperature: 0.7,
-    }),
+async function completeGenerationJob(supabaseClient: SupabaseClient, job: GenerationJob, outputs: StepOutputs) {
+  const finalVideoUrl = requireStepOutput(outputs, 'combine').videoUrl
+  const thumbnailUrl = outputs.combine?.thumbnailUrl ?? null
+  const captions = outputs.voice?.captions
+
+  await updateRendition(supabaseClient, job, {
+    status: 'completed',
+    video_url: finalVideoUrl,
+    captions_vtt_url: captions?.vttUrl ?? null,
+    captions_srt_url: captions?.srtUrl ?? null
   })
 
-  log('OPENAI', '📡 Received API response', { 
-    status: response.status,
-    statusText: response.statusText 
+  await updateGenerationJob(supabaseClient, job.id, {
+    status: 'completed',
+    current_step: 'done',
+    step_outputs: outputs,
+    locked_at: null,
+    completed_at: new Date().toISOString()
   })
 
-  if (!response.ok) {
-    const errorText = await response.text()
-    log('ERROR', '❌ OpenAI API error', { 
-      status: response.status,
-      error: errorText 
+  if (!isPrimaryLocale(job)) {
+    log('SUCCESS', '🌍 Localized rendition completed', {
+      projectId: job.project_id,
+      locale: job.locale,
+      finalVideoUrl
     })
-    throw new Error(`OpenAI API error: ${response.status} - ${errorText}`)
+    return
   }
 
-  const data = await response.json()
-  log('OPENAI', '✅ Successfully parsed response')
-  
-  const script = data.choices?.[0]?.message?.content
-  if (!script) {
-    log('ERROR', '❌ No script content in OpenAI response', data)
-    throw new Error('No script content received from OpenAI')
+  await updateVersion(supabaseClient, job, {
+    status: 'completed',
+    video_url: finalVideoUrl,
+    thumbnail_url: thumbnailUrl,
+    captions_vtt_url: captions?.vttUrl ?? null,
+    captions_srt_url: captions?.srtUrl ?? null
+  })
+
+  // Update project with completed video; a new render is published until the user rolls back
+  log('DATABASE', '💾 Updating project with completed video')
+  const { error: updateError } = await supabaseClient
+    .from('projects')
+    .update({
+      video_url: finalVideoUrl,
+      thumbnail_url: thumbnailUrl,
+      captions_vtt_url: captions?.vttUrl ?? null,
+      captions_srt_url: captions?.srtUrl ?? null,
+      published_version_id: job.version_id,
+      status: 'completed',
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', job.project_id)
+
+  if (updateError) {
+    log('ERROR', '❌ Failed to update project with video URL', updateError)
+    throw updateError
   }
-  
-  log('OPENAI', '🎯 Script extracted successfully', { 
-    scriptLength: script.length,
-    wordCount: script.split(' ').length 
+
+  // Create analytics entry
+  log('ANALYTICS', '📊 Creating analytics entry')
+  const { error: analyticsError } = await supabaseClient
+    .from('analytics')
+    .insert([{
+      project_id: job.project_id,
+      views: 0,
+      shares: 0,
+      completion_rate: 0
+    }])
+
+  if (analyticsError) {
+    log('WARNING', '⚠️ Failed to create analytics entry (non-critical)', analyticsError)
+  } else {
+    log('ANALYTICS', '✅ Analytics entry created successfully')
+  }
+
+  try {
+    await postDemoToGitHub(supabaseClient, job.project_id, finalVideoUrl, thumbnailUrl)
+  } catch (error) {
+    log('WARNING', '⚠️ Failed to post the demo to GitHub (non-critical)', { error: error.message })
+  }
+
+  log('SUCCESS', '🎉 Demo generation completed successfully!', {
+    projectId: job.project_id,
+    jobId: job.id,
+    finalVideoUrl
   })
-  
-  return script
 }
 
-async function generateScriptWithClaude(formData: any, apiKey: string, projectId: string): Promise<string> {
-  log('CLAUDE', '🚀 Starting Claude API request')
-  
-  const prompt = createScriptPrompt(formData)
-  log('CLAUDE', '📝 Generated prompt', { promptLength: prompt.length })
-  
-  const response = await fetch('https://api.anthropic.com/v1/messages', {
-    method: 'POST',
-    headers: {
-      'x-api-key': apiKey,
-      'Content-Type': 'application/json',
-      'anthropic-version': '2023-06-01'
-    },
-    body: JSON.stringify({
-      model: 'claude-3-sonnet-20240229',
-      max_tokens: 1000,
-      messages: [{
-        role: 'user',
-        content: prompt
-      }]
-    }),
+// When the project explains a pull request or release and its repository opted in, link the
+// finished demo from there. The section is marked with the project ID, so a re-render updates
+// the same comment or release notes instead of adding another.
+async function postDemoToGitHub(
+  supabaseClient: SupabaseClient,
+  projectId: string,
+  videoUrl: string | null,
+  thumbnailUrl: string | null
+) {
+  const { data: project } = await supabaseClient
+    .from('projects')
+    .select('title, repository_id, source_ref, source_url')
+    .eq('id', projectId)
+    .single()
+
+  const pullNumber = project?.source_ref?.match(/^pull\/(\d+)$/)?.[1]
+  const releaseTag = project?.source_url?.match(/\/releases\/tag\/([^/]+)$/)?.[1]
+  if (!videoUrl || !project?.repository_id || (!pullNumber && !releaseTag)) return
+
+  const { data: automation } = await supabaseClient
+    .from('repository_automations')
+    .select('user_id, post_to_github, repositories!inner(full_name)')
+    .eq('repository_id', project.repository_id)
+    .maybeSingle()
+
+  if (!automation?.post_to_github) return
+  const accessToken = await loadGitHubToken(supabaseClient, automation.user_id, log)
+  if (!accessToken) return
+
+  const fullName = automation.repositories.full_name
+  const marker = `<!-- explain-my-tool:demo:${projectId} -->`
+  const section = [
+    marker,
+    `### 🎬 ${project.title}`,
+    '',
+    ...(thumbnailUrl ? [`[![Watch the demo](${thumbnailUrl})](${videoUrl})`, ''] : []),
+    `▶️ [Watch the demo video](${videoUrl})`,
+    '<!-- /explain-my-tool:demo -->'
+  ].join('\n')
+
+  let postUrl: string
+  if (pullNumber) {
+    const existing = await findMarkedComment(fullName, pullNumber, marker, accessToken)
+
+    const response = existing
+      ? await githubRequest(`/repos/${fullName}/issues/comments/${existing.id}`, accessToken, undefined, { method: 'PATCH', body: { body: section } })
+      : await githubRequest(`/repos/${fullName}/issues/${pullNumber}/comments`, accessToken, undefined, { method: 'POST', body: { body: section } })
+    postUrl = (await response.json()).html_url
+  } else {
+    const releaseResponse = await githubRequest(`/repos/${fullName}/releases/tags/${releaseTag}`, accessToken)
+    const release: { id: number, body: string | null, html_url: string } = await releaseResponse.json()
+
+    const notes = (release.body || '').replace(
+      new RegExp(`\\s*(---\\s*)?${escapeRegExp(marker)}[\\s\\S]*?<!-- /explain-my-tool:demo -->`),
+      ''
+    ).trimEnd()
+    await githubRequest(`/repos/${fullName}/releases/${release.id}`, accessToken, undefined, {
+      method: 'PATCH',
+      body: { body: `${notes}${notes ? '\n\n---\n' : ''}${section}` }
+    })
+    postUrl = release.html_url
+  }
+
+  await supabaseClient
+    .from('projects')
+    .update({ github_post_url: postUrl })
+    .eq('id', projectId)
+
+  log('GITHUB', '💬 Posted the demo to GitHub', { postUrl })
+}
+
+// Pages through every comment on the pull request, so busy ones don't get a second demo comment
+async function findMarkedComment(
+  fullName: string,
+  pullNumber: string,
+  marker: string,
+  accessToken: string
+): Promise<{ id: number, body: string } | null> {
+  for (let page = 1; ; page++) {
+    const response = await githubRequest(`/repos/${fullName}/issues/${pullNumber}/comments?per_page=100&page=${page}`, accessToken)
+    const comments: { id: number, body: string }[] = await response.json()
+
+    const existing = comments.find(comment => comment.body?.includes(marker))
+    if (existing) return existing
+    if (comments.length < 100) return null
+  }
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+async function failGenerationStep(
+  supabaseClient: SupabaseClient,
+  job: GenerationJob,
+  step: GenerationStep,
+  attempts: number,
+  outputs: StepOutputs,
+  progress: JobProgress,
+  error: Error
+) {
+  log('ERROR', `💥 ${step} step failed`, {
+    error: error.message,
+    stack: error.stack,
+    jobId: job.id,
+    projectId: job.project_id,
+    attempt: attempts,
+    maxAttempts: job.max_attempts
   })
 
-  log('CLAUDE', '📡 Received API response', { 
-    status: response.status,
-    statusText: response.statusText 
+  // Drop anything half-done so the retry starts the step over
+  const remainingOutputs = { ...outputs }
+  delete remainingOutputs[step]
+
+  if (attempts < job.max_attempts) {
+    const retryAfterSeconds = JOB_RETRY_BASE_SECONDS * 2 ** (attempts - 1)
+    log('WORKER', `🔁 Retrying ${step} step in ${retryAfterSeconds}s`, { jobId: job.id })
+    setStepProgress(progress, step, 'processing',
+      `Attempt ${attempts} of ${job.max_attempts} failed: ${error.message}. Retrying in ${retryAfterSeconds} seconds...`)
+    await updateGenerationJob(supabaseClient, job.id, {
+      status: 'queued',
+      step_outputs: remainingOutputs,
+      progress,
+      last_error: error.message,
+      run_after: new Date(Date.now() + retryAfterSeconds * 1000).toISOString(),
+      locked_at: null
+    })
+    return
+  }
+
+  setStepProgress(progress, step, 'error', error.message)
+  await updateGenerationJob(supabaseClient, job.id, {
+    status: 'failed',
+    step_outputs: remainingOutputs,
+    progress,
+    last_error: error.message,
+    locked_at: null
   })
 
-  if (!response.ok) {
-    const errorText = await response.text()
-    log('ERROR', '❌ Claude API error', { 
-      status: response.status,
-      error: errorText 
+  await updateRendition(supabaseClient, job, { status: 'failed' })
+
+  // A failed translation leaves the primary video intact
+  if (!isPrimaryLocale(job)) return
+
+  await updateVersion(supabaseClient, job, { status: 'failed' })
+
+  // Update project status to failed
+  const { error: updateError } = await supabaseClient
+    .from('projects')
+    .update({
+      status: 'failed',
+      updated_at: new Date().toISOString()
     })
-    throw new Error(`Claude API error: ${response.status} - ${errorText}`)
+    .eq('id', job.project_id)
+
+  if (updateError) {
+    log('ERROR', '❌ Failed to update project status to failed', updateError)
+  }
+}
+
+async function updateGenerationJob(supabaseClient: SupabaseClient, jobId: string, changes: Record<string, unknown>) {
+  const { error } = await supabaseClient
+    .from('generation_jobs')
+    .update(changes)
+    .eq('id', jobId)
+
+  if (error) {
+    log('ERROR', '❌ Failed to update generation job', { jobId, error })
+    throw new Error(`Failed to update generation job: ${error.message}`)
+  }
+}
+
+function isPrimaryLocale(job: GenerationJob): boolean {
+  return job.locale === (job.form_data.locale || 'en')
+}
+
+async function updateRendition(supabaseClient: SupabaseClient, job: GenerationJob, changes: Record<string, unknown>) {
+  const { error } = await supabaseClient
+    .from('project_renditions')
+    .update(changes)
+    .eq('project_id', job.project_id)
+    .eq('locale', job.locale)
+
+  if (error) {
+    log('WARNING', '⚠️ Failed to update project rendition (non-critical)', { locale: job.locale, error })
+  }
+}
+
+async function updateVersion(supabaseClient: SupabaseClient, job: GenerationJob, changes: Record<string, unknown>) {
+  // Jobs queued before versioning have no version to update
+  if (!job.version_id) return
+
+  const { error } = await supabaseClient
+    .from('project_versions')
+    .update(changes)
+    .eq('id', job.version_id)
+
+  if (error) {
+    log('WARNING', '⚠️ Failed to update project version (non-critical)', { versionId: job.version_id, error })
+  }
+}
+
+function requireStepOutput<K extends keyof StepOutputs>(outputs: StepOutputs, step: K): NonNullable<StepOutputs[K]> {
+  const output = outputs[step]
+  if (!output) {
+    throw new Error(`Missing output from the ${step} step`)
+  }
+  return output as NonNullable<StepOutputs[K]>
+}
+
+function getElapsedMinutes(submittedAt: string | undefined): number {
+  return submittedAt ? Math.round((Date.now() - Date.parse(submittedAt)) / 60000) : 0
+}
+
+function hasTimedOut(submittedAt: string | undefined, timeoutMinutes: number): boolean {
+  return !!submittedAt && Date.now() - Date.parse(submittedAt) > timeoutMinutes * 60000
+}
+
+async function generateScript(
+  formData: DemoFormData,
+  tier: LLMTier,
+  locale: string
+): Promise<{ script: DemoScript, provider: string, model: string }> {
+  const prompt = createScriptPrompt(formData, locale)
+  log('SCRIPT_AI', '📝 Generated prompt', { promptLength: prompt.length, tier, locale })
+
+  const result = await generateText({
+    system: 'You are an expert technical presenter who creates engaging demo scripts for developers. Create clear, concise, and compelling scripts that explain code in an accessible way. Always answer with JSON only.',
+    prompt,
+    maxTokens: 2048,
+    json: true,
+    tier
+  }, log)
+
+  return {
+    script: parseScript(result.text, formData.codeSnippet),
+    provider: result.provider,
+    model: result.model
+  }
+}
+
+async function regenerateScriptSegment(
+  formData: DemoFormData,
+  script: DemoScript,
+  segmentIndex: number,
+  instructions: string | undefined,
+  tier: LLMTier,
+  locale: string
+): Promise<ScriptSegment> {
+  log('SCRIPT_AI', '🔄 Regenerating script segment', { segmentIndex, hasInstructions: !!instructions })
+
+  const result = await generateText({
+    system: 'You are an expert technical presenter who creates engaging demo scripts for developers. Create clear, concise, and compelling scripts that explain code in an accessible way. Always answer with JSON only.',
+    prompt: createSegmentPrompt(formData, script, segmentIndex, instructions, locale),
+    maxTokens: 512,
+    json: true,
+    tier
+  }, log)
+
+  const segment = parseJsonResponse(result.text, 'segment')
+  return parseScriptSegment(segment, segmentIndex, formData.codeSnippet.split('\n').length)
+}
+
+// Strips the code fences some models wrap JSON in
+function parseJsonResponse(rawText: string, what: string): unknown {
+  const json = rawText
+    .trim()
+    .replace(/^```(?:json)?\s*/i, '')
+    .replace(/\s*```$/, '')
+
+  try {
+    return JSON.parse(json)
+  } catch {
+    log('ERROR', `❌ ${what} is not valid JSON`, { rawText })
+    throw new Error(`Generated ${what} is not valid JSON`)
+  }
+}
+
+// Validates raw LLM output against SCRIPT_JSON_SCHEMA and normalizes line ranges
+// to the code that will actually be on screen.
+function parseScript(rawScript: string, codeSnippet: string): DemoScript {
+  const data = parseJsonResponse(rawScript, 'script')
+
+  const segments = (data as { segments?: unknown })?.segments
+  if (!Array.isArray(segments) || segments.length === 0) {
+    log('ERROR', '❌ Script has no segments', data)
+    throw new Error('Generated script has no segments')
   }
 
-  const data = await response.json()
-  log('CLAUDE', '✅ Successfully parsed response')
-  
-  const script = data.content?.[0]?.text
-  if (!script) {
-    log('ERROR', '❌ No script content in Claude response', data)
-    throw new Error('No script content received from Claude')
+  const lineCount = codeSnippet.split('\n').length
+  const script = {
+    segments: segments.map((segment, index) => parseScriptSegment(segment, index, lineCount))
   }
-  
-  log('CLAUDE', '🎯 Script extracted successfully', { 
-    scriptLength: script.length,
-    wordCount: script.split(' ').length 
+
+  log('SCRIPT_AI', '✅ Script validated', {
+    segments: script.segments.length,
+    totalSeconds: script.segments.reduce((sum, segment) => sum + segment.durationSeconds, 0)
   })
-  
+
   return script
 }
 
-async function generateVoice(script: string, voiceStyle: string, projectId: string): Promise<string> {
-  log('VOICE', '🔍 Checking ElevenLabs API key')
-  
-  const elevenlabsApiKey = Deno.env.get('ELEVENLABS_API_KEY')
-  if (!elevenlabsApiKey) {
-    log('ERROR', '❌ ElevenLabs API key not configured')
-    throw new Error('ELEVENLABS_API_KEY is required for voice generation')
+function parseScriptSegment(segment: unknown, index: number, lineCount: number): ScriptSegment {
+  const { text, sceneType, lines, durationSeconds } = (segment || {}) as Record<string, unknown>
+
+  if (typeof text !== 'string' || !text.trim()) {
+    throw new Error(`Script segment ${index + 1} has no narration text`)
   }
 
-  log('VOICE', '🎵 Mapping voice style to ElevenLabs female voice ID', { voiceStyle })
-  
-  // Map voice styles to ElevenLabs female voice IDs
-  const voiceMap = {
-    professional: 'EXAVITQu4vr4xnSDxMaL', // Bella - Professional female voice
-    casual: '21m00Tcm4TlvDq8ikWAM',      // Rachel - Casual female voice
-    enthusiastic: 'jsCqWAovK2LkecY7zXl4'  // Freya - Enthusiastic female voice
+  if (!SCRIPT_SCENE_TYPES.includes(sceneType as ScriptSceneType)) {
+    throw new Error(`Script segment ${index + 1} has an unknown scene type: ${sceneType}`)
   }
 
-  const voiceId = voiceMap[voiceStyle as keyof typeof voiceMap] || voiceMap.professional
-  log('VOICE', '🎤 Selected female voice ID', { voiceId, voiceStyle })
+  let lineRange: ScriptSegment['lines'] = null
+  if (lines !== null && lines !== undefined) {
+    const { start, end } = lines as Record<string, unknown>
+    if (!Number.isInteger(start) || !Number.isInteger(end)) {
+      throw new Error(`Script segment ${index + 1} has an invalid line range`)
+    }
+    const clamp = (line: number) => Math.min(Math.max(1, line), lineCount)
+    const [first, last] = [clamp(start as number), clamp(end as number)].sort((a, b) => a - b)
+    lineRange = { start: first, end: last }
+  }
 
-  log('VOICE', '📡 Making ElevenLabs API request')
-  const response = await fetch(`https://api.elevenlabs.io/v1/text-to-speech/${voiceId}`, {
-    method: 'POST',
-    headers: {
-      'Accept': 'audio/mpeg',
-      'Content-Type': 'application/json',
-      'xi-api-key': elevenlabsApiKey,
-    },
-    body: JSON.stringify({
-      text: script,
-      model_id: 'eleven_monolingual_v1',
-      voice_settings: {
-        stability: 0.5,
-        similarity_boost: 0.5,
-        style: 0.0,
-        use_speaker_boost: true
-      }
-    }),
-  })
+  const narration = text.trim()
+  return {
+    text: narration,
+    sceneType: sceneType as ScriptSceneType,
+    lines: lineRange,
+    durationSeconds: typeof durationSeconds === 'number' && durationSeconds > 0
+      ? durationSeconds
+      : narration.split(/\s+/).length / WORDS_PER_SECOND
+  }
+}
 
-  log('VOICE', '📡 Received ElevenLabs response', { 
-    status: response.status,
-    statusText: response.statusText,
-    contentType: response.headers.get('content-type')
-  })
+function getScriptNarration(script: DemoScript): string {
+  return script.segments.map(segment => segment.text).join(' ')
+}
 
-  if (!response.ok) {
-    const errorText = await response.text()
-    log('ERROR', '❌ ElevenLabs API error', { 
-      status: response.status,
-      error: errorText 
-    })
-    throw new Error(`ElevenLabs API error: ${response.status} - ${errorText}`)
-  }
+async function generateVoice(
+  script: string,
+  voice: TTSVoice,
+  voiceStyle: string,
+  locale: string,
+  projectId: string
+): Promise<{ audioUrl: string, durationSeconds: number, engine: TTSEngineName, voiceId: string }> {
+  const speech = await synthesizeSpeech(script, voice, voiceStyle, locale, log)
 
   // Upload audio to Supabase Storage
   log('VOICE', '💾 Uploading audio to Supabase Storage')
-  const audioBuffer = await response.arrayBuffer()
-  const audioFileName = `audio_${projectId}_${Date.now()}.mp3`
+  const audioBuffer = speech.audio
+  const audioFileName = `audio_${projectId}_${locale}_${Date.now()}.${speech.extension}`
+  const durationSeconds = speech.durationSeconds
   
   log('VOICE', '📤 Starting file upload', { 
     fileName: audioFileName,
-    fileSize: audioBuffer.byteLength 
+    fileSize: audioBuffer.byteLength,
+    durationSeconds
   })
   
   const supabaseClient = createClient(
@@ -538,7 +1744,7 @@ async function generateVoice(script: string, voiceStyle: string, projectId: stri
   const { data: uploadData, error: uploadError } = await supabaseClient.storage
     .from('demo-assets')
     .upload(audioFileName, audioBuffer, {
-      contentType: 'audio/mpeg'
+      contentType: speech.contentType
     })
 
   if (uploadError) {
@@ -553,10 +1759,11 @@ async function generateVoice(script: string, voiceStyle: string, projectId: stri
     .getPublicUrl(audioFileName)
 
   log('VOICE', '🔗 Generated public URL', { publicUrl })
-  return publicUrl
+  return { audioUrl: publicUrl, durationSeconds, engine: speech.engine, voiceId: speech.voiceId }
 }
 
-async function generateFaceVideo(script: string, audioUrl: string, projectId: string): Promise<{ videoUrl: string, videoId: string }> {
+// Returns the Tavus video ID, or null when face videos are not configured
+async function submitFaceVideo(audioUrl: string): Promise<string | null> {
   log('FACE', '🔍 Checking Tavus API configuration')
   
   const tavusApiKey = Deno.env.get('TAVUS_API_KEY')
@@ -564,7 +1771,7 @@ async function generateFaceVideo(script: string, audioUrl: string, projectId: st
   
   if (!tavusApiKey) {
     log('WARNING', '⚠️ Tavus API key not configured, skipping face video generation')
-    return { videoUrl: audioUrl, videoId: '' } // Return audio URL as fallback
+    return null
   }
 
   if (!tavusReplicaId) {
@@ -601,97 +1808,628 @@ async function generateFaceVideo(script: string, audioUrl: string, projectId: st
   }
 
   const data = await response.json()
-  const videoId = data.video_id
-  
-  log('FACE', '⏳ Starting extended video generation polling (10-15 minutes)', { videoId })
-  
-  // Extended polling for longer generation times
-  let attempts = 0
-  const maxAttempts = 60 // 15 minutes max (15 seconds * 60 = 15 minutes)
-  const pollInterval = 15000 // 15 seconds
+  log('FACE', '⏳ Tavus video submitted, polling from the worker', { videoId: data.video_id })
+  return data.video_id
+}
 
-  while (attempts < maxAttempts) {
-    log('FACE', `🔄 Polling attempt ${attempts + 1}/${maxAttempts} (${Math.round((attempts * pollInterval) / 60000)} minutes elapsed)`)
-    
-    await new Promise(resolve => setTimeout(resolve, pollInterval))
-    
-    const statusResponse = await fetch(`https://tavusapi.com/v2/videos/${videoId}`, {
-      headers: {
-        'x-api-key': tavusApiKey,
-      },
+// Returns the download URL once Tavus is done, null while it is still rendering
+async function checkFaceVideo(videoId: string): Promise<string | null> {
+  const statusResponse = await fetch(`https://tavusapi.com/v2/videos/${videoId}`, {
+    headers: {
+      'x-api-key': Deno.env.get('TAVUS_API_KEY') ?? '',
+    },
+  })
+
+  if (!statusResponse.ok) {
+    log('WARNING', '⚠️ Failed to check video status', { 
+      status: statusResponse.status 
     })
+    return null
+  }
 
-    if (statusResponse.ok) {
-      const statusData = await statusResponse.json()
-      log('FACE', '📊 Video status update', { 
-        status: statusData.status,
-        progress: statusData.progress || 'N/A',
-        timeElapsed: `${Math.round((attempts * pollInterval) / 60000)} minutes`
-      })
-      
-      if (statusData.status === 'completed') {
-        log('FACE', '✅ Tavus video generation completed!', { 
-          downloadUrl: statusData.download_url,
-          totalTime: `${Math.round((attempts * pollInterval) / 60000)} minutes`
-        })
-        return { videoUrl: statusData.download_url, videoId: videoId }
-      } else if (statusData.status === 'failed') {
-        log('ERROR', '❌ Tavus video generation failed', statusData)
-        throw new Error('Tavus video generation failed')
-      }
-    } else {
-      log('WARNING', '⚠️ Failed to check video status', { 
-        status: statusResponse.status 
-      })
+  const statusData = await statusResponse.json()
+  log('FACE', '📊 Video status update', { 
+    videoId,
+    status: statusData.status,
+    progress: statusData.progress || 'N/A'
+  })
+
+  if (statusData.status === 'failed') {
+    log('ERROR', '❌ Tavus video generation failed', statusData)
+    throw new Error('Tavus video generation failed')
+  }
+
+  return statusData.status === 'completed' ? statusData.download_url : null
+}
+
+// Copies a finished render into our own bucket; Shotstack only keeps outputs for 24 hours
+async function storeRenderedVideo(renderedUrl: string, projectId: string, locale: string): Promise<string> {
+  log('COMBINE', '📥 Downloading rendered video', { renderedUrl })
+  const videoResponse = await fetch(renderedUrl)
+  if (!videoResponse.ok) {
+    log('ERROR', '❌ Failed to download rendered video', { status: videoResponse.status })
+    throw new Error(`Failed to download rendered video: ${videoResponse.status}`)
+  }
+
+  const videoBuffer = await videoResponse.arrayBuffer()
+  const videoFileName = `video_${projectId}_${locale}_${Date.now()}.mp4`
+
+  log('COMBINE', '📤 Uploading final video', {
+    fileName: videoFileName,
+    fileSize: videoBuffer.byteLength
+  })
+
+  const supabaseClient = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  )
+
+  const { error: uploadError } = await supabaseClient.storage
+    .from('demo-assets')
+    .upload(videoFileName, videoBuffer, {
+      contentType: 'video/mp4'
+    })
+
+  if (uploadError) {
+    log('ERROR', '❌ Failed to upload video to storage', uploadError)
+    throw new Error(`Failed to upload video: ${uploadError.message}`)
+  }
+
+  const { data: { publicUrl } } = supabaseClient.storage
+    .from('demo-assets')
+    .getPublicUrl(videoFileName)
+
+  log('COMBINE', '✅ Final video stored', { publicUrl })
+  return publicUrl
+}
+
+// Shotstack only keeps renders for a day, so the still is copied like the video. A missing
+// thumbnail never fails the job.
+async function storeThumbnail(thumbnailUrl: string, projectId: string, locale: string): Promise<string | null> {
+  try {
+    const response = await fetch(thumbnailUrl)
+    if (!response.ok) {
+      throw new Error(`Failed to download thumbnail: ${response.status}`)
     }
-    
-    attempts++
+
+    const contentType = response.headers.get('Content-Type')?.split(';')[0] || 'image/jpeg'
+    const fileName = `thumbnail_${projectId}_${locale}_${Date.now()}.${contentType === 'image/png' ? 'png' : 'jpg'}`
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    const { error: uploadError } = await supabaseClient.storage
+      .from('demo-assets')
+      .upload(fileName, await response.arrayBuffer(), { contentType })
+
+    if (uploadError) {
+      throw new Error(`Failed to upload thumbnail: ${uploadError.message}`)
+    }
+
+    const { data: { publicUrl } } = supabaseClient.storage
+      .from('demo-assets')
+      .getPublicUrl(fileName)
+
+    return publicUrl
+  } catch (error) {
+    log('WARNING', '⚠️ Could not store thumbnail (non-critical)', { error: error.message })
+    return null
   }
+}
+
+interface ShotstackClip {
+  asset: Record<string, unknown>
+  start: number
+  length: number
+  position?: string
+  scale?: number
+  offset?: { x: number, y: number }
+  transition?: { in?: string, out?: string }
+}
 
-  log('ERROR', '⏰ Tavus video generation timed out after 15 minutes')
-  throw new Error('Tavus video generation timed out after 15 minutes')
+// One camera position on the code: the lines in view and the ones being talked about
+interface CodeScene {
+  start: number
+  length: number
+  focusStart: number
+  focusEnd: number
+}
+
+interface ShotstackEdit {
+  timeline: {
+    background: string
+    soundtrack?: { src: string, effect?: string }
+    tracks: Array<{ clips: ShotstackClip[] }>
+  }
+  output: {
+    format: 'mp4'
+    resolution: 'hd'
+    // A still of the frame at `capture` seconds, scaled down, returned with the render
+    thumbnail?: { capture: number, scale: number }
+  }
 }
 
-async function combineVideo(params: {
-  script: string
+function buildCompositionEdit(params: {
+  script: DemoScript
   audioUrl: string
+  audioDuration: number
   faceVideoUrl: string | null
+  title: string
   codeSnippet: string
   language: string
   includeCode: boolean
-  demoType: string
-}, projectId: string): Promise<string> {
-  log('COMBINE', '🎞️ Starting video combination process', {
-    hasFaceVideo: !!params.faceVideoUrl,
-    includeCode: params.includeCode,
-    demoType: params.demoType,
-    language: params.language
-  })
-  
-  // For now, return the face video or audio URL
-  // In a production environment, you would use FFmpeg or similar to combine:
-  // - Face video (if enabled)
-  // - Code visualization
-  // - Audio narration
-  // - Branding elements
-  
+  focusChanges: boolean
+}): ShotstackEdit {
+  const length = Math.max(1, Math.ceil(params.audioDuration))
+  // Shotstack lists tracks top layer first
+  const tracks: Array<{ clips: ShotstackClip[] }> = []
+
   if (params.faceVideoUrl) {
-    log('COMBINE', '✅ Using face video as final output', { 
-      finalUrl: params.faceVideoUrl 
+    tracks.push({
+      clips: [{
+        asset: { type: 'video', src: params.faceVideoUrl, volume: 1 },
+        start: 0,
+        length,
+        // Picture-in-picture over the code, full frame otherwise
+        ...(params.includeCode
+          ? { position: 'bottomRight', scale: 0.3, offset: { x: -0.02, y: 0.03 } }
+          : {})
+      }]
     })
-    return params.faceVideoUrl
   }
-  
-  // If no face video, create a simple video with code and audio
-  // This would typically involve video generation libraries
-  log('COMBINE', '✅ Using audio as final output (no face video)', { 
-    finalUrl: params.audioUrl 
+
+  if (params.includeCode) {
+    const highlightedLines = highlightCodeLines(params.codeSnippet, params.language)
+    const scenes = planCodeScenes(params.script.segments, params.codeSnippet, length, params.focusChanges)
+    log('COMBINE', '🖍️ Planned code scenes', {
+      scenes: scenes.map(scene => `${scene.start.toFixed(1)}s L${scene.focusStart}-${scene.focusEnd}`)
+    })
+
+    tracks.push({
+      clips: scenes.map((scene, index) => ({
+        asset: renderCodeSceneAsset(params.title, params.language, highlightedLines, scene),
+        start: scene.start,
+        length: scene.length,
+        ...(index > 0 ? { transition: { in: 'fadeFast' } } : {})
+      }))
+    })
+  } else if (!params.faceVideoUrl) {
+    tracks.push({
+      clips: [{
+        asset: renderTitleCardAsset(params.title),
+        start: 0,
+        length
+      }]
+    })
+  }
+
+  return {
+    timeline: {
+      background: '#0f172a',
+      // Tavus output already carries the narration, lip-synced
+      ...(params.faceVideoUrl ? {} : { soundtrack: { src: params.audioUrl } }),
+      tracks
+    },
+    output: {
+      format: 'mp4',
+      resolution: 'hd',
+      // Past the intro fade, so the still shows the title and code
+      thumbnail: { capture: Math.min(THUMBNAIL_CAPTURE_SECONDS, length / 2), scale: 0.5 }
+    }
+  }
+}
+
+// Lays the script segments over the narration, weighted by their estimated
+// durations, and points the code view at the lines each segment references.
+// Segments without a range fall back to the identifiers they mention, then
+// to the previous focus. With focusChanges the code is a diff, and every
+// focus is kept on added or removed lines.
+function planCodeScenes(segments: ScriptSegment[], codeSnippet: string, duration: number, focusChanges = false): CodeScene[] {
+  const codeLines = codeSnippet.split('\n')
+  const timings = getSegmentTimings(segments, duration)
+  const keepOnChanges = (range: { start: number, end: number }) =>
+    focusChanges ? snapToChangedLines(range, codeLines) : range
+
+  const scenes: CodeScene[] = []
+  let focus = keepOnChanges({ start: 1, end: Math.min(codeLines.length, CODE_FOCUS_MAX_LINES) })
+
+  segments.forEach((segment, index) => {
+    const { start, length } = timings[index]
+    focus = keepOnChanges(segment.lines || findReferencedLines(segment.text, codeLines) || focus)
+
+    const previous = scenes[scenes.length - 1]
+    if (previous && previous.focusStart === focus.start && previous.focusEnd === focus.end) {
+      previous.length += length
+    } else {
+      scenes.push({ start, length, focusStart: focus.start, focusEnd: focus.end })
+    }
+  })
+
+  if (scenes.length === 0) {
+    return [{ start: 0, length: duration, focusStart: focus.start, focusEnd: focus.end }]
+  }
+
+  // Round to the frame grid Shotstack works in and close any rounding gap at the end
+  for (const scene of scenes) {
+    scene.start = Math.round(scene.start * 100) / 100
+    scene.length = Math.round(scene.length * 100) / 100
+  }
+  const last = scenes[scenes.length - 1]
+  last.length = Math.max(0.1, Math.round((duration - last.start) * 100) / 100)
+
+  return scenes
+}
+
+// Spreads the real narration length over the segments in proportion to their estimated durations
+function getSegmentTimings(segments: ScriptSegment[], duration: number): { start: number, length: number }[] {
+  const totalEstimate = segments.reduce((sum, segment) => sum + segment.durationSeconds, 0) || 1
+  let cursor = 0
+
+  return segments.map(segment => {
+    const length = (duration * segment.durationSeconds) / totalEstimate
+    const timing = { start: cursor, length }
+    cursor += length
+    return timing
   })
-  return params.audioUrl
 }
 
-function createScriptPrompt(formData: any): string {
-  const { title, description, codeSnippet, language, demoType, voiceStyle } = formData
+// Breaks each segment into cues of at most two subtitle lines, timed by their share of the segment's characters
+function buildCaptionCues(segments: ScriptSegment[], duration: number): CaptionCue[] {
+  const timings = getSegmentTimings(segments, duration)
+  const cues: CaptionCue[] = []
+
+  segments.forEach((segment, index) => {
+    const chunks = splitCaptionText(segment.text)
+    const totalChars = chunks.reduce((sum, chunk) => sum + chunk.length, 0) || 1
+    let cursor = timings[index].start
+
+    for (const chunk of chunks) {
+      const length = (timings[index].length * chunk.length) / totalChars
+      cues.push({ start: cursor, end: cursor + length, text: wrapCaptionLines(chunk) })
+      cursor += length
+    }
+  })
+
+  return cues
+}
+
+// Prefers sentence boundaries, then packs words up to the cue limit
+function splitCaptionText(text: string): string[] {
+  const sentences = text.replace(/\s+/g, ' ').trim().match(/[^.!?。！？]+[.!?。！？]*\s*/g) || []
+  const chunks: string[] = []
+
+  for (const sentence of sentences) {
+    let current = ''
+    // Scripts without spaces (Chinese, Japanese) are cut at the cue limit instead
+    const words = sentence.trim().split(' ').flatMap(word => word.match(new RegExp(`.{1,${CAPTION_CUE_MAX_CHARS}}`, 'gu')) || [])
+    for (const word of words) {
+      if (current && current.length + word.length + 1 > CAPTION_CUE_MAX_CHARS) {
+        chunks.push(current)
+        current = word
+      } else {
+        current = current ? `${current} ${word}` : word
+      }
+    }
+    if (current) chunks.push(current)
+  }
+
+  return chunks
+}
+
+function wrapCaptionLines(chunk: string): string {
+  if (chunk.length <= CAPTION_LINE_MAX_CHARS) return chunk
+
+  // Break at the space closest to the middle so both lines stay balanced
+  const middle = Math.floor(chunk.length / 2)
+  const before = chunk.lastIndexOf(' ', middle)
+  const after = chunk.indexOf(' ', middle)
+  const breakAt = before === -1 ? after : after === -1 ? before : middle - before <= after - middle ? before : after
+
+  return breakAt === -1
+    ? `${chunk.slice(0, middle)}\n${chunk.slice(middle)}`
+    : `${chunk.slice(0, breakAt)}\n${chunk.slice(breakAt + 1)}`
+}
+
+function formatCaptionTime(seconds: number, decimalSeparator: '.' | ','): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000))
+  const hours = Math.floor(totalMs / 3600000)
+  const minutes = Math.floor((totalMs % 3600000) / 60000)
+  const secs = Math.floor((totalMs % 60000) / 1000)
+  const ms = totalMs % 1000
+  const pad = (value: number, length = 2) => value.toString().padStart(length, '0')
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${decimalSeparator}${pad(ms, 3)}`
+}
+
+function toWebVTT(cues: CaptionCue[]): string {
+  const body = cues
+    .map(cue => `${formatCaptionTime(cue.start, '.')} --> ${formatCaptionTime(cue.end, '.')}\n${cue.text}`)
+    .join('\n\n')
+  return `WEBVTT\n\n${body}\n`
+}
+
+function toSRT(cues: CaptionCue[]): string {
+  return cues
+    .map((cue, index) => `${index + 1}\n${formatCaptionTime(cue.start, ',')} --> ${formatCaptionTime(cue.end, ',')}\n${cue.text}`)
+    .join('\n\n') + '\n'
+}
+
+// Stores WebVTT for the player and SRT for other video hosts next to the video in demo-assets
+async function storeCaptions(cues: CaptionCue[], projectId: string, locale: string): Promise<CaptionFiles> {
+  const baseName = `captions_${projectId}_${locale}_${Date.now()}`
+  log('CAPTIONS', '📝 Uploading captions', { baseName, cues: cues.length })
+
+  const supabaseClient = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  )
+
+  const files = [
+    { fileName: `${baseName}.vtt`, contents: toWebVTT(cues), contentType: 'text/vtt' },
+    { fileName: `${baseName}.srt`, contents: toSRT(cues), contentType: 'application/x-subrip' }
+  ]
+
+  const [vttUrl, srtUrl] = await Promise.all(files.map(async ({ fileName, contents, contentType }) => {
+    const { error: uploadError } = await supabaseClient.storage
+      .from('demo-assets')
+      .upload(fileName, new TextEncoder().encode(contents), { contentType })
+
+    if (uploadError) {
+      log('ERROR', '❌ Failed to upload captions to storage', uploadError)
+      throw new Error(`Failed to upload captions: ${uploadError.message}`)
+    }
+
+    return supabaseClient.storage
+      .from('demo-assets')
+      .getPublicUrl(fileName)
+      .data.publicUrl
+  }))
+
+  log('CAPTIONS', '✅ Captions stored', { vttUrl, srtUrl })
+  return { vttUrl, srtUrl }
+}
+
+function findReferencedLines(sentence: string, codeLines: string[]): { start: number, end: number } | null {
+  const terms = new Set(
+    (sentence.match(/[A-Za-z_$][\w$]*/g) || [])
+      .map(term => term.toLowerCase())
+      .filter(term => term.length >= 3 && !SCENE_STOP_WORDS.has(term))
+  )
+  if (terms.size === 0) return null
+
+  const lineTokens = codeLines.map(line =>
+    new Set((line.match(/[A-Za-z_$][\w$]*/g) || []).map(token => token.toLowerCase()))
+  )
+
+  // Rare identifiers say more about where the narration is than common ones
+  const linesPerTerm = new Map<string, number>()
+  for (const term of terms) {
+    linesPerTerm.set(term, lineTokens.filter(tokens => tokens.has(term)).length)
+  }
+
+  let bestLine = -1
+  let bestScore = 0
+  lineTokens.forEach((tokens, index) => {
+    let score = 0
+    for (const term of terms) {
+      const occurrences = linesPerTerm.get(term) || 0
+      if (occurrences > 0 && tokens.has(term)) {
+        score += 1 / occurrences
+      }
+    }
+    if (score > bestScore) {
+      bestScore = score
+      bestLine = index
+    }
+  })
+
+  if (bestLine < 0) return null
+
+  // Extend the focus over the block that follows, up to the next blank line
+  let end = bestLine
+  while (
+    end + 1 < codeLines.length &&
+    end - bestLine + 1 < CODE_FOCUS_MAX_LINES &&
+    codeLines[end + 1].trim() !== ''
+  ) {
+    end++
+  }
+
+  return { start: bestLine + 1, end: end + 1 }
+}
+
+// An added or removed line of a unified diff, not a file header
+function isChangedLine(line: string): boolean {
+  return /^[+-]/.test(line) && !/^(--- (a\/|\/dev\/null)|\+\+\+ (b\/|\/dev\/null))/.test(line)
+}
+
+// Leaves a range that touches a changed line alone; otherwise moves it to the
+// next block of changed lines, or the last one when none follow.
+function snapToChangedLines(range: { start: number, end: number }, codeLines: string[]): { start: number, end: number } {
+  const changedLines = codeLines
+    .map((line, index) => isChangedLine(line) ? index + 1 : 0)
+    .filter(line => line > 0)
+
+  if (changedLines.length === 0 || changedLines.some(line => line >= range.start && line <= range.end)) {
+    return range
+  }
+
+  let start = changedLines.find(line => line > range.end) ?? changedLines[changedLines.length - 1]
+  while (start > 1 && isChangedLine(codeLines[start - 2])) start--
+
+  let end = start
+  while (end < codeLines.length && end - start + 1 < CODE_FOCUS_MAX_LINES && isChangedLine(codeLines[end])) end++
+
+  return { start, end }
+}
+
+function highlightCodeLines(codeSnippet: string, language: string): string[] {
+  const highlightLanguage = HIGHLIGHT_LANGUAGES[language] || language
+  const html = hljs.getLanguage(highlightLanguage)
+    ? hljs.highlight(codeSnippet, { language: highlightLanguage, ignoreIllegals: true }).value
+    : hljs.highlightAuto(codeSnippet).value
+
+  // Comments and strings can span lines; reopen their spans so every line stands alone
+  const lines: string[] = []
+  let openTags: string[] = []
+  for (const rawLine of html.split('\n')) {
+    const line = openTags.join('') + rawLine
+    for (const [tag] of rawLine.matchAll(/<span[^>]*>|<\/span>/g)) {
+      if (tag === '</span>') {
+        openTags = openTags.slice(0, -1)
+      } else {
+        openTags = [...openTags, tag]
+      }
+    }
+    lines.push(line + '</span>'.repeat(openTags.length))
+  }
+
+  return lines
+}
+
+function renderCodeSceneAsset(
+  title: string,
+  language: string,
+  highlightedLines: string[],
+  scene: CodeScene
+): Record<string, unknown> {
+  // Scroll so the focused block sits a few lines below the top of the view
+  const maxFirstLine = Math.max(1, highlightedLines.length - CODE_VIEW_MAX_LINES + 1)
+  const firstLine = Math.min(Math.max(1, scene.focusStart - 3), maxFirstLine)
+  const visibleLines = highlightedLines.slice(firstLine - 1, firstLine - 1 + CODE_VIEW_MAX_LINES)
+
+  const codeHtml = visibleLines
+    .map((line, index) => {
+      const lineNumber = firstLine + index
+      const focused = lineNumber >= scene.focusStart && lineNumber <= scene.focusEnd
+      return `<p class="${focused ? 'focus' : 'dim'}"><span class="ln">${lineNumber}</span>${line || '&nbsp;'}</p>`
+    })
+    .join('')
+
+  return {
+    type: 'html',
+    html: `<div class="window"><h1>${escapeHtml(title)} <span class="lang">${escapeHtml(language)}</span></h1><div class="code">${codeHtml}</div></div>`,
+    css: CODE_SCENE_CSS,
+    width: 1280,
+    height: 720,
+    background: '#1e293b'
+  }
+}
+
+function renderTitleCardAsset(title: string): Record<string, unknown> {
+  return {
+    type: 'html',
+    html: `<h1>${escapeHtml(title)}</h1>`,
+    css: 'h1 { color: #ffffff; font-family: Helvetica; font-size: 56px; text-align: center; }',
+    width: 1280,
+    height: 720,
+    background: '#0f172a'
+  }
+}
+
+function getShotstackBaseUrl(): string {
+  return `https://api.shotstack.io/edit/${Deno.env.get('SHOTSTACK_ENV') || 'stage'}`
+}
+
+async function submitComposition(edit: ShotstackEdit): Promise<string> {
+  log('COMBINE', '📡 Submitting render to Shotstack')
+  const response = await fetch(`${getShotstackBaseUrl()}/render`, {
+    method: 'POST',
+    headers: {
+      'x-api-key': Deno.env.get('SHOTSTACK_API_KEY') ?? '',
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(edit),
+  })
+
+  if (!response.ok) {
+    const errorText = await response.text()
+    log('ERROR', '❌ Shotstack API error', {
+      status: response.status,
+      error: errorText
+    })
+    throw new Error(`Shotstack API error: ${response.status} - ${errorText}`)
+  }
+
+  const data = await response.json()
+  const renderId = data.response?.id
+  if (!renderId) {
+    log('ERROR', '❌ No render ID in Shotstack response', data)
+    throw new Error('No render ID received from Shotstack')
+  }
+
+  log('COMBINE', '⏳ Shotstack render submitted, polling from the worker', { renderId })
+  return renderId
+}
+
+// Returns the rendered video URL once Shotstack is done, null while it is still rendering
+async function checkComposition(renderId: string): Promise<{ url: string, thumbnail: string | null } | null> {
+  const statusResponse = await fetch(`${getShotstackBaseUrl()}/render/${renderId}`, {
+    headers: {
+      'x-api-key': Deno.env.get('SHOTSTACK_API_KEY') ?? '',
+    },
+  })
+
+  if (!statusResponse.ok) {
+    log('WARNING', '⚠️ Failed to check render status', {
+      status: statusResponse.status
+    })
+    return null
+  }
+
+  const statusData = await statusResponse.json()
+  const status = statusData.response?.status
+  log('COMBINE', '📊 Render status update', { renderId, status })
+
+  if (status === 'failed') {
+    log('ERROR', '❌ Shotstack render failed', statusData.response)
+    throw new Error(`Shotstack render failed: ${statusData.response?.error || 'unknown error'}`)
+  }
+
+  return status === 'done'
+    ? { url: statusData.response.url, thumbnail: statusData.response.thumbnail ?? null }
+    : null
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+// Masks secrets in the code and docs a demo is generated from. Redacting twice
+// changes nothing, so input the client already redacted passes through as is.
+function redactFormData(formData: DemoFormData): DemoFormData {
+  const code = redactSecrets(formData.codeSnippet)
+  const docs = redactSecrets(formData.intentContext ?? '')
+  const redactions = [...code.redactions, ...docs.redactions]
+  if (redactions.length > 0) {
+    log('SECURITY', `🔒 Masked ${redactions.length} secret(s) before generation`, redactions.map(describeRedaction))
+  }
+
+  return {
+    ...formData,
+    codeSnippet: code.text,
+    ...(formData.intentContext ? { intentContext: docs.text } : {})
+  }
+}
+
+// Diffs are highlighted and fenced as diffs, whatever language the repository is in
+function getCodeLanguage(formData: DemoFormData): string {
+  return formData.demoType === 'changes' ? 'diff' : formData.language
+}
+
+function createScriptPrompt(formData: DemoFormData, locale: string): string {
+  const { title, description, codeSnippet, intentContext, language, demoType, voiceStyle } = formData
+  const codeLanguage = getCodeLanguage(formData)
+  const numberedCode = codeSnippet
+    .split('\n')
+    .map((line: string, index: number) => `${String(index + 1).padStart(4)} | ${line}`)
+    .join('\n')
+  const projectDocs = intentContext?.trim()
   
   let styleInstructions = ''
   switch (voiceStyle) {
@@ -717,33 +2455,96 @@ function createScriptPrompt(formData: any): string {
     case 'tutorial':
       demoInstructions = 'Focus on teaching others how to implement this feature, including best practices and common pitfalls to avoid.'
       break
+    case 'changes':
+      demoInstructions = 'Explain what changed and why it matters, for reviewers and release notes. Talk about the added and removed lines, not the unchanged context around them.'
+      break
   }
 
   return `
-Create a compelling ${demoType} script for a demo video about: ${title}
+Create a compelling ${demoType === 'changes' ? 'what-changed' : demoType} script for a demo video about: ${title}
 
 Description: ${description || 'No description provided'}
 Programming Language: ${language}
 Voice Style: ${styleInstructions}
 Demo Type: ${demoInstructions}
-
-Code to explain:
-\`\`\`${language}
-${codeSnippet}
+${projectDocs ? `
+What the project is for, from its own README, changelog and docs (background for the narration; it is not the code to explain):
+<project-docs>
+${projectDocs}
+</project-docs>
+` : ''}
+${demoType === 'changes'
+  ? 'Changes to explain, as a unified diff: lines starting with "+" were added and lines starting with "-" were removed (line numbers added for reference, they are not part of the diff):'
+  : 'Code to explain (line numbers added for reference, they are not part of the code):'}
+\`\`\`${codeLanguage}
+${numberedCode}
 \`\`\`
 
 Requirements:
 - Keep the script between 30-60 seconds when spoken (maximum 1 minute)
 - Make it engaging and easy to follow
 - Include natural pauses and transitions
-- Explain technical concepts in accessible language
-- ${demoType === 'pitch' ? 'Focus on business value and impact' : 'Focus on technical implementation and learning'}
+- Explain technical concepts in accessible language${projectDocs ? `
+- Open by saying what the project is for and who it helps, as its docs describe it, then show how the code delivers that` : ''}
+- ${demoType === 'pitch' ? 'Focus on business value and impact' : demoType === 'changes' ? 'Focus on what is different now and what it means for users of the code' : 'Focus on technical implementation and learning'}
 - Use ${voiceStyle} tone throughout
 - Keep it concise and to the point for a 1-minute maximum duration
+- Write all narration in ${LOCALE_NAMES[locale]}, keeping code identifiers exactly as they appear in the code
+
+Format the response as JSON matching this schema, with no text outside the JSON:
+${JSON.stringify(SCRIPT_JSON_SCHEMA, null, 2)}
+
+Segment rules:
+- Start with one "intro" segment and end with one "summary" segment; everything in between is "code"
+- Each segment is one to three spoken sentences, with no stage directions or formatting markers
+- Set "lines" to the range of the code shown above that the segment is talking about, or null if it covers no specific code${demoType === 'changes' ? '; for code segments, a range of added or removed lines' : ''}
+- Set "durationSeconds" to how long the segment takes to say at a natural pace
+`
+}
+
+function createSegmentPrompt(
+  formData: DemoFormData,
+  script: DemoScript,
+  segmentIndex: number,
+  instructions: string | undefined,
+  locale: string
+): string {
+  const { title, codeSnippet, voiceStyle } = formData
+  const numberedCode = codeSnippet
+    .split('\n')
+    .map((line: string, index: number) => `${String(index + 1).padStart(4)} | ${line}`)
+    .join('\n')
+  const segment = script.segments[segmentIndex]
+  const outline = script.segments
+    .map((item, index) => `${index === segmentIndex ? '>>' : '  '} ${index + 1}. [${item.sceneType}] ${item.text}`)
+    .join('\n')
+
+  return `
+Rewrite segment ${segmentIndex + 1} of this demo video script about: ${title}
+
+${formData.demoType === 'changes' ? 'Changes, as a unified diff' : 'Code'} (line numbers added for reference, they are not part of the code):
+\`\`\`${getCodeLanguage(formData)}
+${numberedCode}
+\`\`\`
+
+Current script (the segment to rewrite is marked with >>):
+${outline}
+
+Requirements:
+- Keep it a "${segment.sceneType}" segment that flows from the segment before it into the one after it
+- One to three spoken sentences in a ${voiceStyle} tone, with no stage directions or formatting markers
+- Write the narration in ${LOCALE_NAMES[locale]}, keeping code identifiers exactly as they appear in the code
+${instructions ? `- Follow these instructions from the author: ${instructions}` : '- Say it differently from the current version'}
 
-Format the response as a clean script without stage directions or formatting markers.
+Answer with one JSON object with "text", "sceneType", "lines" ({"start", "end"} or null) and "durationSeconds", and no text outside the JSON.
 `
 }
 
 // Import createClient function
-import { createClient } from 'npm:@supabase/supabase-js@2'
\ No newline at end of file
+import { createClient, type SupabaseClient } from 'npm:@supabase/supabase-js@2'
+import hljs from 'npm:highlight.js@11'
+import { generateText, type LLMTier } from '../_shared/llm.ts'
+import { githubRequest } from '../_shared/github.ts'
+import { redactSecrets, describeRedaction } from '../_shared/redaction.ts'
+import { loadGitHubToken } from '../_shared/githubTokens.ts'
+import { getDefaultVoice, synthesizeSpeech, type TTSEngineName, type TTSVoice } from '../_shared/tts.ts'
\ No newline at end of file
@@ -0,0 +1,23 @@
+/*
+  # Add Structured Script to Projects Table
+
+  1. Changes
+    - Add `script` (jsonb) column to `projects` table
+    - Holds the generated script as segments with narration text, referenced
+      code line ranges, estimated duration and scene type
+    - Lets compositing, captions and chapters line up narration with code
+
+  2. Security
+    - No changes to RLS policies needed
+    - Column is part of existing table with existing security
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'projects' AND column_name = 'script'
+  ) THEN
+    ALTER TABLE projects ADD COLUMN script jsonb;
+  END IF;
+END $$;
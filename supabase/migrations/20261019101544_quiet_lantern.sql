@@ -0,0 +1,124 @@
+/*
+  # Durable Generation Job Queue
+
+  1. New Tables
+    - `generation_jobs`
+      - `id` (uuid, primary key)
+      - `project_id` (uuid, foreign key to projects)
+      - `user_id` (uuid, foreign key to profiles)
+      - `status` (text, queued/running/waiting/completed/failed)
+      - `current_step` (text, script/voice/face/combine/done)
+      - `form_data` (jsonb, the generation request)
+      - `step_outputs` (jsonb, results of finished steps and pending external renders)
+      - `attempts` (integer, attempts at the current step)
+      - `max_attempts` (integer)
+      - `last_error` (text)
+      - `run_after` (timestamp, earliest time the worker should pick the job up)
+      - `locked_at` (timestamp, when a worker claimed the job)
+      - `created_at`, `updated_at`, `completed_at` (timestamps)
+
+  2. Functions
+    - `claim_generation_jobs(batch_size, lock_timeout)` claims due jobs for a
+      worker, including running jobs whose worker stopped heartbeating
+
+  3. Scheduling
+    - pg_cron calls process-demo with `{ "action": "resume" }` every minute
+      through pg_net, using the `project_url` and `service_role_key` vault secrets
+
+  4. Security
+    - Enable RLS on generation_jobs table
+    - Users can read their own jobs; only the service role writes them
+*/
+
+CREATE TABLE IF NOT EXISTS generation_jobs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'waiting', 'completed', 'failed')),
+  current_step text NOT NULL DEFAULT 'script' CHECK (current_step IN ('script', 'voice', 'face', 'combine', 'done')),
+  form_data jsonb NOT NULL,
+  step_outputs jsonb NOT NULL DEFAULT '{}'::jsonb,
+  attempts integer NOT NULL DEFAULT 0,
+  max_attempts integer NOT NULL DEFAULT 3,
+  last_error text,
+  run_after timestamptz NOT NULL DEFAULT now(),
+  locked_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  completed_at timestamptz
+);
+
+-- Enable RLS on generation_jobs table
+ALTER TABLE generation_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own generation jobs"
+  ON generation_jobs
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Add updated_at trigger for generation_jobs
+CREATE TRIGGER update_generation_jobs_updated_at
+  BEFORE UPDATE ON generation_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Add indexes for better performance
+CREATE INDEX IF NOT EXISTS generation_jobs_project_id_idx ON generation_jobs(project_id);
+CREATE INDEX IF NOT EXISTS generation_jobs_user_id_idx ON generation_jobs(user_id);
+CREATE INDEX IF NOT EXISTS generation_jobs_due_idx ON generation_jobs(run_after)
+  WHERE status IN ('queued', 'running', 'waiting');
+
+-- Only one unfinished job per project
+CREATE UNIQUE INDEX IF NOT EXISTS generation_jobs_active_project_idx ON generation_jobs(project_id)
+  WHERE status IN ('queued', 'running', 'waiting');
+
+-- Claim due jobs for a worker. A job that has been running longer than
+-- lock_timeout lost its worker and is claimed again as a new attempt;
+-- waking up from 'waiting' is not a new attempt.
+CREATE OR REPLACE FUNCTION claim_generation_jobs(
+  batch_size integer DEFAULT 5,
+  lock_timeout interval DEFAULT interval '10 minutes'
+)
+RETURNS SETOF generation_jobs AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE generation_jobs AS jobs
+  SET
+    status = 'running',
+    locked_at = now(),
+    attempts = CASE WHEN due.status = 'waiting' THEN jobs.attempts ELSE jobs.attempts + 1 END
+  FROM (
+    SELECT id, status
+    FROM generation_jobs
+    WHERE (status IN ('queued', 'waiting') AND run_after <= now())
+       OR (status = 'running' AND locked_at < now() - lock_timeout)
+    ORDER BY run_after
+    LIMIT batch_size
+    FOR UPDATE SKIP LOCKED
+  ) AS due
+  WHERE jobs.id = due.id
+  RETURNING jobs.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION claim_generation_jobs(integer, interval) FROM public, anon, authenticated;
+
+-- Resume queued and waiting jobs every minute
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'resume-generation-jobs',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/process-demo',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{"action": "resume"}'::jsonb
+  );
+  $$
+);
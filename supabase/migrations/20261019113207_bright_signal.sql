@@ -0,0 +1,34 @@
+/*
+  # Stream Generation Progress
+
+  1. Changes
+    - Add `progress` (jsonb) column to `generation_jobs` table
+    - Holds the status, message and update time of each pipeline step
+      (script, voice, face, combine), written by the process-demo worker
+    - Add `generation_jobs` to the `supabase_realtime` publication so
+      CreateProject can follow the steps live
+
+  2. Security
+    - No changes to RLS policies needed
+    - Realtime only delivers rows the existing "Users can read own generation jobs" policy allows
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'generation_jobs' AND column_name = 'progress'
+  ) THEN
+    ALTER TABLE generation_jobs ADD COLUMN progress jsonb NOT NULL DEFAULT '{}'::jsonb;
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'generation_jobs'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE generation_jobs;
+  END IF;
+END $$;
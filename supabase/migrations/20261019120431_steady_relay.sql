@@ -0,0 +1,30 @@
+/*
+  # Record Script Provider on Projects Table
+
+  1. Changes
+    - Add `script_provider` (text) column to `projects` table
+    - Add `script_model` (text) column to `projects` table
+    - Record which AI provider and model produced the script, since a
+      request can now fail over from one provider to the next
+
+  2. Security
+    - No changes to RLS policies needed
+    - Columns are part of existing table with existing security
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'projects' AND column_name = 'script_provider'
+  ) THEN
+    ALTER TABLE projects ADD COLUMN script_provider text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'projects' AND column_name = 'script_model'
+  ) THEN
+    ALTER TABLE projects ADD COLUMN script_model text;
+  END IF;
+END $$;
@@ -0,0 +1,92 @@
+/*
+  # Voice Catalog
+
+  1. New Tables
+    - `voices`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key to profiles; null for built-in voices)
+      - `name` (text, display name)
+      - `engine` (text, elevenlabs or local)
+      - `voice_id` (text, the engine's own voice identifier)
+      - `gender` (text, female/male/neutral)
+      - `description` (text)
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+
+  2. Seed Data
+    - Built-in ElevenLabs voices, including the three original female voices
+      plus male and neutral options
+    - Built-in voices for a local OpenAI-compatible TTS server, used when
+      ElevenLabs is not configured
+
+  3. Security
+    - Enable RLS on voices table
+    - Everyone signed in can read built-in voices
+    - Users can manage their own voices
+*/
+
+CREATE TABLE IF NOT EXISTS voices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  engine text NOT NULL CHECK (engine IN ('elevenlabs', 'local')),
+  voice_id text NOT NULL,
+  gender text NOT NULL DEFAULT 'neutral' CHECK (gender IN ('female', 'male', 'neutral')),
+  description text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Enable RLS on voices table
+ALTER TABLE voices ENABLE ROW LEVEL SECURITY;
+
+-- Voices policies
+CREATE POLICY "Users can read built-in and own voices"
+  ON voices
+  FOR SELECT
+  TO authenticated
+  USING (user_id IS NULL OR auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own voices"
+  ON voices
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own voices"
+  ON voices
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own voices"
+  ON voices
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Add updated_at trigger for voices
+CREATE TRIGGER update_voices_updated_at
+  BEFORE UPDATE ON voices
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Add indexes for better performance
+CREATE INDEX IF NOT EXISTS voices_user_id_idx ON voices(user_id);
+CREATE UNIQUE INDEX IF NOT EXISTS voices_builtin_idx ON voices(engine, voice_id) WHERE user_id IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS voices_user_voice_idx ON voices(user_id, engine, voice_id) WHERE user_id IS NOT NULL;
+
+-- Built-in voices
+INSERT INTO voices (user_id, name, engine, voice_id, gender, description)
+VALUES
+  (NULL, 'Bella', 'elevenlabs', 'EXAVITQu4vr4xnSDxMaL', 'female', 'Soft, professional female voice'),
+  (NULL, 'Rachel', 'elevenlabs', '21m00Tcm4TlvDq8ikWAM', 'female', 'Calm, conversational female voice'),
+  (NULL, 'Freya', 'elevenlabs', 'jsCqWAovK2LkecY7zXl4', 'female', 'Lively, energetic female voice'),
+  (NULL, 'Adam', 'elevenlabs', 'pNInz6obpgDQGcFmaJgB', 'male', 'Deep, confident male voice'),
+  (NULL, 'Antoni', 'elevenlabs', 'ErXwobaYiN019PkySvjV', 'male', 'Warm, well-rounded male voice'),
+  (NULL, 'Josh', 'elevenlabs', 'TxGEqnHWrfWFTfGW9XjX', 'male', 'Young, friendly male voice'),
+  (NULL, 'River', 'elevenlabs', 'SAz9YHcvj6GT2YYXdXww', 'neutral', 'Relaxed, neutral voice'),
+  (NULL, 'Nova (local)', 'local', 'nova', 'female', 'Bright female voice on the local TTS server'),
+  (NULL, 'Onyx (local)', 'local', 'onyx', 'male', 'Deep male voice on the local TTS server'),
+  (NULL, 'Alloy (local)', 'local', 'alloy', 'neutral', 'Balanced neutral voice on the local TTS server')
+ON CONFLICT (engine, voice_id) WHERE user_id IS NULL DO NOTHING;
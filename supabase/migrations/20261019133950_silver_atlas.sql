@@ -0,0 +1,95 @@
+/*
+  # Localized Renditions
+
+  1. Changes
+    - Add `locale` (text, default 'en') column to `projects` table for the
+      primary narration language; `projects.video_url` keeps the primary video
+    - Add `locale` (text, default 'en') column to `generation_jobs` table so each
+      language is generated by its own job
+    - Allow one unfinished job per project and locale instead of per project
+    - Add `locales` (text[]) column to `voices` table; null means the voice can
+      speak every language the engine supports (ElevenLabs multilingual model)
+
+  2. New Tables
+    - `project_renditions`
+      - `id` (uuid, primary key)
+      - `project_id` (uuid, foreign key to projects)
+      - `locale` (text, language code such as 'es')
+      - `status` (text, processing/completed/failed)
+      - `script` (jsonb, the localized script)
+      - `video_url` (text, the localized video)
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+
+  3. Security
+    - Enable RLS on project_renditions table
+    - Users can read renditions of their own projects
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'projects' AND column_name = 'locale'
+  ) THEN
+    ALTER TABLE projects ADD COLUMN locale text NOT NULL DEFAULT 'en';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'generation_jobs' AND column_name = 'locale'
+  ) THEN
+    ALTER TABLE generation_jobs ADD COLUMN locale text NOT NULL DEFAULT 'en';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'voices' AND column_name = 'locales'
+  ) THEN
+    ALTER TABLE voices ADD COLUMN locales text[];
+  END IF;
+END $$;
+
+DROP INDEX IF EXISTS generation_jobs_active_project_idx;
+CREATE UNIQUE INDEX IF NOT EXISTS generation_jobs_active_project_locale_idx ON generation_jobs(project_id, locale)
+  WHERE status IN ('queued', 'running', 'waiting');
+
+-- The local TTS voices are English-only
+UPDATE voices SET locales = ARRAY['en'] WHERE user_id IS NULL AND engine = 'local';
+
+-- Create project_renditions table
+CREATE TABLE IF NOT EXISTS project_renditions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  locale text NOT NULL,
+  status text NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'completed', 'failed')),
+  script jsonb,
+  video_url text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE(project_id, locale)
+);
+
+-- Enable RLS on project_renditions table
+ALTER TABLE project_renditions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own project renditions"
+  ON project_renditions
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM projects
+      WHERE projects.id = project_renditions.project_id
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+-- Add updated_at trigger for project_renditions
+CREATE TRIGGER update_project_renditions_updated_at
+  BEFORE UPDATE ON project_renditions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Add indexes for better performance
+CREATE INDEX IF NOT EXISTS project_renditions_project_id_idx ON project_renditions(project_id);
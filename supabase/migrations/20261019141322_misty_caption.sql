@@ -0,0 +1,51 @@
+/*
+  # Demo Captions
+
+  1. Changes
+    - Add `captions_vtt_url` (text) column to `projects` table for the WebVTT
+      captions shown in the player
+    - Add `captions_srt_url` (text) column to `projects` table for the SRT
+      download used on other video hosts
+    - Add the same two columns to `project_renditions` for localized videos
+
+  2. Storage
+    - Allow `text/vtt` and `application/x-subrip` uploads to the `demo-assets`
+      bucket, where caption files are stored next to the video
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'projects' AND column_name = 'captions_vtt_url'
+  ) THEN
+    ALTER TABLE projects ADD COLUMN captions_vtt_url text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'projects' AND column_name = 'captions_srt_url'
+  ) THEN
+    ALTER TABLE projects ADD COLUMN captions_srt_url text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'project_renditions' AND column_name = 'captions_vtt_url'
+  ) THEN
+    ALTER TABLE project_renditions ADD COLUMN captions_vtt_url text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'project_renditions' AND column_name = 'captions_srt_url'
+  ) THEN
+    ALTER TABLE project_renditions ADD COLUMN captions_srt_url text;
+  END IF;
+END $$;
+
+-- Let the demo-assets bucket accept caption files
+UPDATE storage.buckets
+SET allowed_mime_types = array_cat(allowed_mime_types, ARRAY['text/vtt', 'application/x-subrip'])
+WHERE id = 'demo-assets'
+  AND NOT ('text/vtt' = ANY(allowed_mime_types));
@@ -0,0 +1,25 @@
+/*
+  # Script Review
+
+  1. Changes
+    - Allow a `review` status on `projects` and `generation_jobs`: the script
+      is written and saved, and rendering waits until the user approves it
+    - Jobs in review still count as unfinished, so a project cannot start a
+      second generation for the same language while one is awaiting review
+
+  2. Notes
+    - `claim_generation_jobs` only claims queued, waiting and stale running
+      jobs, so jobs in review are left alone until process-demo requeues them
+*/
+
+ALTER TABLE projects DROP CONSTRAINT IF EXISTS projects_status_check;
+ALTER TABLE projects ADD CONSTRAINT projects_status_check
+  CHECK (status IN ('draft', 'processing', 'review', 'completed', 'failed'));
+
+ALTER TABLE generation_jobs DROP CONSTRAINT IF EXISTS generation_jobs_status_check;
+ALTER TABLE generation_jobs ADD CONSTRAINT generation_jobs_status_check
+  CHECK (status IN ('queued', 'running', 'waiting', 'review', 'completed', 'failed'));
+
+DROP INDEX IF EXISTS generation_jobs_active_project_locale_idx;
+CREATE UNIQUE INDEX IF NOT EXISTS generation_jobs_active_project_locale_idx ON generation_jobs(project_id, locale)
+  WHERE status IN ('queued', 'running', 'waiting', 'review');
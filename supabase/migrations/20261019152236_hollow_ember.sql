@@ -0,0 +1,47 @@
+/*
+  # Generation Artifact Cache
+
+  1. New Tables
+    - `generation_artifacts`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key to profiles)
+      - `step` (text, script/voice/face/combine)
+      - `cache_key` (text, SHA-256 of everything the step's output depends on)
+      - `output` (jsonb, what the step handed to the steps after it)
+      - `created_at` (timestamp)
+      - `last_used_at` (timestamp)
+
+  2. Notes
+    - process-demo looks up each step by its key before running it, so changing
+      one input only re-renders the steps downstream of it
+    - Keys include the upstream artifacts (script text, audio URL, face video
+      URL), which chains invalidation through the pipeline
+    - Artifacts are scoped to the user who produced them
+
+  3. Security
+    - Enable RLS on generation_artifacts table
+    - Users can read their own artifacts; only the service role writes them
+*/
+
+CREATE TABLE IF NOT EXISTS generation_artifacts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  step text NOT NULL CHECK (step IN ('script', 'voice', 'face', 'combine')),
+  cache_key text NOT NULL,
+  output jsonb NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  last_used_at timestamptz DEFAULT now(),
+  UNIQUE(user_id, step, cache_key)
+);
+
+-- Enable RLS on generation_artifacts table
+ALTER TABLE generation_artifacts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own generation artifacts"
+  ON generation_artifacts
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Add indexes for better performance
+CREATE INDEX IF NOT EXISTS generation_artifacts_user_id_idx ON generation_artifacts(user_id);
@@ -0,0 +1,110 @@
+/*
+  # Project Versions
+
+  1. New Tables
+    - `project_versions`
+      - `id` (uuid, primary key)
+      - `project_id` (uuid, foreign key to projects)
+      - `version_number` (integer, 1 for the first generation of a project)
+      - `form_data` (jsonb, the settings the generation ran with)
+      - `code_snippet` (text, the code the generation explained)
+      - `script` (jsonb, the primary-language script)
+      - `script_provider` (text) and `script_model` (text)
+      - `video_url` (text), `captions_vtt_url` (text), `captions_srt_url` (text)
+      - `status` (text, processing/completed/failed)
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+
+  2. Changes
+    - Add `version_id` (uuid) column to `generation_jobs` so each job writes to
+      the version it was queued for
+    - Add `published_version_id` (uuid) column to `projects`; the project's
+      `video_url` and captions mirror that version, and rolling back points it
+      at an earlier render
+    - Backfill version 1 for projects that already have a script or video
+
+  3. Security
+    - Enable RLS on project_versions table
+    - Users can read versions of their own projects; process-demo writes them
+*/
+
+CREATE TABLE IF NOT EXISTS project_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  version_number integer NOT NULL,
+  form_data jsonb NOT NULL DEFAULT '{}'::jsonb,
+  code_snippet text,
+  script jsonb,
+  script_provider text,
+  script_model text,
+  video_url text,
+  captions_vtt_url text,
+  captions_srt_url text,
+  status text NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'completed', 'failed')),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE(project_id, version_number)
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'generation_jobs' AND column_name = 'version_id'
+  ) THEN
+    ALTER TABLE generation_jobs ADD COLUMN version_id uuid REFERENCES project_versions(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'projects' AND column_name = 'published_version_id'
+  ) THEN
+    ALTER TABLE projects ADD COLUMN published_version_id uuid REFERENCES project_versions(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+-- Enable RLS on project_versions table
+ALTER TABLE project_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own project versions"
+  ON project_versions
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM projects
+      WHERE projects.id = project_versions.project_id
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+-- Add updated_at trigger for project_versions
+CREATE TRIGGER update_project_versions_updated_at
+  BEFORE UPDATE ON project_versions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Add indexes for better performance
+CREATE INDEX IF NOT EXISTS project_versions_project_id_idx ON project_versions(project_id);
+CREATE INDEX IF NOT EXISTS generation_jobs_version_id_idx ON generation_jobs(version_id);
+
+-- Existing results become version 1
+INSERT INTO project_versions (
+  project_id, version_number, code_snippet, script, script_provider, script_model,
+  video_url, captions_vtt_url, captions_srt_url, status, created_at
+)
+SELECT
+  id, 1, code_snippet, script, script_provider, script_model,
+  video_url, captions_vtt_url, captions_srt_url,
+  CASE WHEN status = 'completed' THEN 'completed' WHEN status = 'failed' THEN 'failed' ELSE 'processing' END,
+  updated_at
+FROM projects
+WHERE (script IS NOT NULL OR video_url IS NOT NULL)
+  AND NOT EXISTS (SELECT 1 FROM project_versions WHERE project_versions.project_id = projects.id);
+
+UPDATE projects
+SET published_version_id = project_versions.id
+FROM project_versions
+WHERE project_versions.project_id = projects.id
+  AND project_versions.status = 'completed'
+  AND projects.published_version_id IS NULL;
@@ -0,0 +1,41 @@
+/*
+  # Project Source Revision
+
+  1. Changes
+    - Add `repository_id` (uuid, foreign key to repositories) column to `projects`
+      table for demos created from a GitHub repository
+    - Add `source_ref` (text) column to `projects` table: the branch, tag or SHA
+      that was chosen when the repository was scanned
+    - Add `source_sha` (text) column to `projects` table: the commit that ref
+      resolved to, so the demo is tied to an exact revision
+
+  2. Security
+    - No policy changes; the columns are covered by the existing projects policies
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'projects' AND column_name = 'repository_id'
+  ) THEN
+    ALTER TABLE projects ADD COLUMN repository_id uuid REFERENCES repositories(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'projects' AND column_name = 'source_ref'
+  ) THEN
+    ALTER TABLE projects ADD COLUMN source_ref text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'projects' AND column_name = 'source_sha'
+  ) THEN
+    ALTER TABLE projects ADD COLUMN source_sha text;
+  END IF;
+END $$;
+
+-- Add indexes for better performance
+CREATE INDEX IF NOT EXISTS projects_repository_id_idx ON projects(repository_id);
@@ -0,0 +1,31 @@
+/*
+  # Change Demos
+
+  1. Changes
+    - Add `source_base_sha` (text) column to `projects` table: for "what changed"
+      demos, the commit the diff starts from; `source_sha` is where it ends
+    - Add `source_url` (text) column to `projects` table: the pull request or
+      compare page on GitHub the demo explains
+    - `source_ref` holds "pull/<number>" for pull requests and "base...head"
+      for commit ranges
+
+  2. Security
+    - No policy changes; the columns are covered by the existing projects policies
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'projects' AND column_name = 'source_base_sha'
+  ) THEN
+    ALTER TABLE projects ADD COLUMN source_base_sha text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'projects' AND column_name = 'source_url'
+  ) THEN
+    ALTER TABLE projects ADD COLUMN source_url text;
+  END IF;
+END $$;
@@ -0,0 +1,114 @@
+/*
+  # Repository Automations
+
+  1. New Tables
+    - `repository_automations`
+      - `id` (uuid, primary key)
+      - `repository_id` (uuid, foreign key to repositories, one rule set per repository)
+      - `user_id` (uuid, foreign key to profiles)
+      - `enabled` (boolean)
+      - `events` (text[], which GitHub events make a demo: 'release' for
+        published releases, 'pull_request' for merged pull requests)
+      - `paths` (text[], globs such as 'src/**'; a demo is only made when a
+        changed file matches one, or for any change when empty)
+      - `form_data` (jsonb, demo settings such as voiceStyle, includeFace and
+        locale used for generated projects)
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+    - `github_webhook_deliveries`
+      - `id` (text, primary key, GitHub's X-GitHub-Delivery header) so a
+        redelivered event never generates a second demo
+      - `event` (text)
+      - `action` (text)
+      - `github_repository_id` (bigint)
+      - `status` (text, received/processed/skipped/failed)
+      - `message` (text)
+      - `project_ids` (uuid[], projects the delivery created)
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+
+  2. Security
+    - Enable RLS on repository_automations table
+    - Users can manage automations for their own repositories
+    - Enable RLS on github_webhook_deliveries table with no policies; only the
+      webhook function (service role) reads and writes it
+*/
+
+-- Create repository_automations table
+CREATE TABLE IF NOT EXISTS repository_automations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  repository_id uuid NOT NULL UNIQUE REFERENCES repositories(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  enabled boolean NOT NULL DEFAULT true,
+  events text[] NOT NULL DEFAULT ARRAY['release', 'pull_request'] CHECK (events <@ ARRAY['release', 'pull_request']),
+  paths text[] NOT NULL DEFAULT '{}',
+  form_data jsonb NOT NULL DEFAULT '{}',
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Enable RLS on repository_automations table
+ALTER TABLE repository_automations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own repository automations"
+  ON repository_automations
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own repository automations"
+  ON repository_automations
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM repositories
+      WHERE repositories.id = repository_automations.repository_id
+      AND repositories.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update own repository automations"
+  ON repository_automations
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own repository automations"
+  ON repository_automations
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Add updated_at trigger for repository_automations
+CREATE TRIGGER update_repository_automations_updated_at
+  BEFORE UPDATE ON repository_automations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Create github_webhook_deliveries table
+CREATE TABLE IF NOT EXISTS github_webhook_deliveries (
+  id text PRIMARY KEY,
+  event text NOT NULL,
+  action text,
+  github_repository_id bigint,
+  status text NOT NULL DEFAULT 'received' CHECK (status IN ('received', 'processed', 'skipped', 'failed')),
+  message text,
+  project_ids uuid[] NOT NULL DEFAULT '{}',
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Enable RLS on github_webhook_deliveries table
+ALTER TABLE github_webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Add updated_at trigger for github_webhook_deliveries
+CREATE TRIGGER update_github_webhook_deliveries_updated_at
+  BEFORE UPDATE ON github_webhook_deliveries
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Add indexes for better performance
+CREATE INDEX IF NOT EXISTS repository_automations_user_id_idx ON repository_automations(user_id);
+CREATE INDEX IF NOT EXISTS github_webhook_deliveries_created_at_idx ON github_webhook_deliveries(created_at);
@@ -0,0 +1,47 @@
+/*
+  # Demo Thumbnails and GitHub Posting
+
+  1. Changes
+    - Add `thumbnail_url` (text) column to `projects` and `project_versions`
+      tables: a still from the rendered video, stored in demo-assets
+    - Add `post_to_github` (boolean, default false) column to
+      `repository_automations` table: when a demo of a pull request or release
+      finishes, comment on the pull request or append to the release notes
+      with the video link and thumbnail
+    - Add `github_post_url` (text) column to `projects` table: the comment or
+      release the demo was posted to
+
+  2. Security
+    - No policy changes; the columns are covered by the existing policies
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'projects' AND column_name = 'thumbnail_url'
+  ) THEN
+    ALTER TABLE projects ADD COLUMN thumbnail_url text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'project_versions' AND column_name = 'thumbnail_url'
+  ) THEN
+    ALTER TABLE project_versions ADD COLUMN thumbnail_url text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'repository_automations' AND column_name = 'post_to_github'
+  ) THEN
+    ALTER TABLE repository_automations ADD COLUMN post_to_github boolean NOT NULL DEFAULT false;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'projects' AND column_name = 'github_post_url'
+  ) THEN
+    ALTER TABLE projects ADD COLUMN github_post_url text;
+  END IF;
+END $$;
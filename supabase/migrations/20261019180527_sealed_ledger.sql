@@ -0,0 +1,75 @@
+/*
+  # Encrypted GitHub Credentials
+
+  1. New Tables
+    - `github_credentials`
+      - `user_id` (uuid, primary key, foreign key to profiles)
+      - `access_token` (text, the GitHub OAuth token sealed with AES-GCM by
+        the edge functions as "v1:<iv>:<ciphertext>")
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+
+  2. Changes
+    - Move existing tokens from `profiles.github_access_token` into
+      `github_credentials`. They are copied as plaintext because the
+      encryption key only exists in the edge functions; each is sealed the
+      first time an edge function reads it
+    - Drop `profiles.github_access_token`, which every signed-in client could
+      select along with the rest of its profile
+    - Clearing `profiles.github_username` (disconnecting GitHub) deletes the
+      user's stored token
+
+  3. Security
+    - Enable RLS on github_credentials table with no policies; only edge
+      functions (service role) read and write it
+*/
+
+-- Create github_credentials table
+CREATE TABLE IF NOT EXISTS github_credentials (
+  user_id uuid PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+  access_token text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Enable RLS on github_credentials table
+ALTER TABLE github_credentials ENABLE ROW LEVEL SECURITY;
+
+-- Add updated_at trigger for github_credentials
+CREATE TRIGGER update_github_credentials_updated_at
+  BEFORE UPDATE ON github_credentials
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Move plaintext tokens out of profiles
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'github_access_token'
+  ) THEN
+    INSERT INTO github_credentials (user_id, access_token)
+    SELECT id, github_access_token
+    FROM profiles
+    WHERE github_access_token IS NOT NULL AND github_access_token <> ''
+    ON CONFLICT (user_id) DO NOTHING;
+
+    ALTER TABLE profiles DROP COLUMN github_access_token;
+  END IF;
+END $$;
+
+-- Disconnecting GitHub from the client clears github_username; the token goes with it
+CREATE OR REPLACE FUNCTION delete_github_credentials_on_disconnect()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.github_username IS NULL AND OLD.github_username IS NOT NULL THEN
+    DELETE FROM github_credentials WHERE user_id = NEW.id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER delete_github_credentials_on_disconnect
+  AFTER UPDATE OF github_username ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION delete_github_credentials_on_disconnect();
@@ -0,0 +1,28 @@
+/*
+  # GitHub App Installations
+
+  1. Changes
+    - Add `github_installation_id` (bigint) column to `profiles` table: the
+      GitHub App installation the user connected through. When set, edge
+      functions act with short-lived installation tokens, limited to the
+      repositories the installation was granted, instead of an OAuth token
+    - Add an index on it so uninstall webhooks can find the profiles to
+      disconnect
+
+  2. Security
+    - No policy changes. Edge functions mint tokens for whatever installation
+      ID is stored, so it's moved to github_credentials, out of client reach,
+      in 20261019202746_locked_latch
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'github_installation_id'
+  ) THEN
+    ALTER TABLE profiles ADD COLUMN github_installation_id bigint;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS profiles_github_installation_id_idx ON profiles(github_installation_id);
@@ -0,0 +1,21 @@
+/*
+  # Project Source Path
+
+  1. Changes
+    - Add `source_path` (text) column to `projects` table: for demos scoped to
+      one package of a monorepo, the package's directory relative to the
+      repository root. NULL when the whole repository was scanned
+
+  2. Security
+    - No policy changes; the column is covered by the existing projects policies
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'projects' AND column_name = 'source_path'
+  ) THEN
+    ALTER TABLE projects ADD COLUMN source_path text;
+  END IF;
+END $$;
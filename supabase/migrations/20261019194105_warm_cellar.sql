@@ -0,0 +1,85 @@
+/*
+  # GitHub Response and File Caches
+
+  1. New Tables
+    - `github_response_cache`
+      - `user_id` (uuid, foreign key to profiles)
+      - `request_key` (text, the Accept header and API path of a GET)
+      - `etag` (text, sent back as If-None-Match; GitHub answers 304 Not
+        Modified without counting it against the rate limit)
+      - `body` (text, the response to serve when it hasn't changed)
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+    - `repository_files`
+      - `repository_id` (uuid, foreign key to repositories)
+      - `sha` (text, git blob SHA; a blob's content never changes, so a cached
+        one is used without asking GitHub)
+      - `content` (text)
+      - `size` (integer)
+      - `created_at` (timestamp)
+
+  2. Changes
+    - Add `github_rate_limit`, `github_rate_limit_remaining` (integer) and
+      `github_rate_limit_reset_at` (timestamptz) columns to `profiles` table:
+      the rate limit GitHub reported on the user's latest scan or sync
+
+  3. Security
+    - Enable RLS on both tables with no policies; they hold content from
+      private repositories and only edge functions (service role) use them
+    - Rows go with the profile or repository they were cached for
+*/
+
+-- Create github_response_cache table
+CREATE TABLE IF NOT EXISTS github_response_cache (
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  request_key text NOT NULL,
+  etag text,
+  body text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  PRIMARY KEY (user_id, request_key)
+);
+
+-- Create repository_files table
+CREATE TABLE IF NOT EXISTS repository_files (
+  repository_id uuid NOT NULL REFERENCES repositories(id) ON DELETE CASCADE,
+  sha text NOT NULL,
+  content text NOT NULL,
+  size integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (repository_id, sha)
+);
+
+-- Enable RLS on both tables
+ALTER TABLE github_response_cache ENABLE ROW LEVEL SECURITY;
+ALTER TABLE repository_files ENABLE ROW LEVEL SECURITY;
+
+-- Add updated_at trigger for github_response_cache
+CREATE TRIGGER update_github_response_cache_updated_at
+  BEFORE UPDATE ON github_response_cache
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'github_rate_limit'
+  ) THEN
+    ALTER TABLE profiles ADD COLUMN github_rate_limit integer;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'github_rate_limit_remaining'
+  ) THEN
+    ALTER TABLE profiles ADD COLUMN github_rate_limit_remaining integer;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'github_rate_limit_reset_at'
+  ) THEN
+    ALTER TABLE profiles ADD COLUMN github_rate_limit_reset_at timestamptz;
+  END IF;
+END $$;
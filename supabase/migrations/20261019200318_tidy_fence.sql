@@ -0,0 +1,25 @@
+/*
+  # Check Repository Ownership on Automation Updates
+
+  1. Security
+    - Recreate "Users can update own repository automations" on
+      `repository_automations` with a WITH CHECK matching the insert policy,
+      so an update can't move a row to another user or to a repository the
+      user doesn't own
+*/
+
+DROP POLICY IF EXISTS "Users can update own repository automations" ON repository_automations;
+
+CREATE POLICY "Users can update own repository automations"
+  ON repository_automations
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM repositories
+      WHERE repositories.id = repository_automations.repository_id
+      AND repositories.user_id = auth.uid()
+    )
+  );
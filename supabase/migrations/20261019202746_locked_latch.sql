@@ -0,0 +1,64 @@
+/*
+  # Server-Verified GitHub App Installations
+
+  1. Changes
+    - Add `installation_id` (bigint) column to `github_credentials` table: the
+      GitHub App installation github-auth verified the user can access. Edge
+      functions mint installation tokens for it, so it's stored where only they
+      can write it. A row now holds either an OAuth token or an installation,
+      so `access_token` becomes nullable
+    - `profiles.github_installation_id` stays as a copy for display. Signed-in
+      clients can no longer set it; it's cleared when GitHub is disconnected
+    - Installation IDs already on profiles were writable by their users and
+      can't be trusted, so those users are disconnected and reconnect through
+      the GitHub App
+    - Move the uninstall webhook's lookup index from profiles to
+      github_credentials
+
+  2. Security
+    - github_credentials keeps RLS on with no policies; only edge functions
+      (service role) read and write it
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'github_credentials' AND column_name = 'installation_id'
+  ) THEN
+    ALTER TABLE github_credentials ADD COLUMN installation_id bigint;
+  END IF;
+END $$;
+
+ALTER TABLE github_credentials ALTER COLUMN access_token DROP NOT NULL;
+
+ALTER TABLE github_credentials DROP CONSTRAINT IF EXISTS github_credentials_token_or_installation;
+ALTER TABLE github_credentials ADD CONSTRAINT github_credentials_token_or_installation
+  CHECK (access_token IS NOT NULL OR installation_id IS NOT NULL);
+
+DROP INDEX IF EXISTS profiles_github_installation_id_idx;
+CREATE INDEX IF NOT EXISTS github_credentials_installation_id_idx ON github_credentials(installation_id);
+
+-- Disconnect profiles whose installation was never stored server-side
+UPDATE profiles
+SET github_username = NULL, github_installation_id = NULL
+WHERE github_installation_id IS NOT NULL;
+
+-- Only edge functions set the display copy; clients can only clear it by disconnecting
+CREATE OR REPLACE FUNCTION guard_github_installation_id()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.github_username IS NULL THEN
+    NEW.github_installation_id := NULL;
+  ELSIF current_user IN ('anon', 'authenticated') THEN
+    NEW.github_installation_id := CASE WHEN TG_OP = 'UPDATE' THEN OLD.github_installation_id END;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS guard_github_installation_id ON profiles;
+CREATE TRIGGER guard_github_installation_id
+  BEFORE INSERT OR UPDATE ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_github_installation_id();
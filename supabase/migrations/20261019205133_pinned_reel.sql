@@ -0,0 +1,36 @@
+/*
+  # Keep the Primary Rendition on the Published Version
+
+  1. Changes
+    - Publishing a version from the app updates the project row, which users
+      can write, but not `project_renditions`, which only edge functions
+      write. When `projects.published_version_id` changes, copy the project's
+      video, captions and script to its primary-language rendition so both
+      show the same version after a rollback
+
+  2. Security
+    - The trigger function runs as its owner to reach project_renditions, and
+      only touches the rendition of the project row being updated
+*/
+
+CREATE OR REPLACE FUNCTION sync_published_rendition()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE project_renditions
+  SET
+    status = 'completed',
+    video_url = NEW.video_url,
+    captions_vtt_url = NEW.captions_vtt_url,
+    captions_srt_url = NEW.captions_srt_url,
+    script = NEW.script
+  WHERE project_id = NEW.id AND locale = NEW.locale;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS sync_published_rendition ON projects;
+CREATE TRIGGER sync_published_rendition
+  AFTER UPDATE OF published_version_id ON projects
+  FOR EACH ROW
+  WHEN (NEW.published_version_id IS DISTINCT FROM OLD.published_version_id)
+  EXECUTE FUNCTION sync_published_rendition();